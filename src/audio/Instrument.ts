@@ -0,0 +1,323 @@
+/**
+ * 音色（パッチ）で音を鳴らす楽器
+ * ゲーム中・録音の再生・WAV出力で同じ音になるよう、AudioContextとOfflineAudioContextのどちらでも使える
+ *
+ * ボイスの構成:
+ *   [FMモジュレーター] → オシレーター × (レイヤー数 × ユニゾン数) → フィルター → ゲイン → マスターエフェクト
+ */
+
+import type { AudioEffects, Envelope, InstrumentPatch } from '../types';
+import { INSTRUMENT_PATCHES } from '../types';
+import type { MasterEffects } from './MasterEffects';
+
+// 判定エフェクトのフィルター周波数のうち、音色のカットオフをそのまま使う値（Perfect）
+const PERFECT_FILTER_FREQ = 5000;
+
+// 無音とみなす音量（指数カーブは0にできないため）
+const SILENCE = 0.001;
+
+// 0秒のランプは使えないため、最小の長さを設ける
+const MIN_RAMP = 0.001;
+
+/**
+ * 鳴っている1音
+ */
+export class InstrumentVoice {
+    private static readonly STEAL_FADE = 0.01;     // 発音数の上限で止めるときのフェード（秒）
+
+    readonly startTime: number;
+    private output: GainNode;
+    private filter: BiquadFilterNode;
+    private sources: AudioScheduledSourceNode[];
+    private envelope: Envelope;
+    private peak: number;
+    private filterRelease: { base: number; release: number } | null;   // リリースで戻すカットオフ
+
+    private releaseTime: number | null = null;
+    private releaseLevel: number = 0;
+    private endTime: number = Infinity;
+
+    constructor(
+        output: GainNode,
+        filter: BiquadFilterNode,
+        sources: AudioScheduledSourceNode[],
+        envelope: Envelope,
+        peak: number,
+        filterRelease: { base: number; release: number } | null,
+        startTime: number
+    ) {
+        this.output = output;
+        this.filter = filter;
+        this.sources = sources;
+        this.envelope = envelope;
+        this.peak = peak;
+        this.filterRelease = filterRelease;
+        this.startTime = startTime;
+    }
+
+    /**
+     * 音が鳴り終わる時刻（リリース前は Infinity）
+     */
+    getEndTime(): number {
+        return this.endTime;
+    }
+
+    isReleased(): boolean {
+        return this.releaseTime !== null;
+    }
+
+    /**
+     * 指定した時刻からリリースを始める
+     * @returns 鳴り終わる時刻
+     */
+    release(time: number): number {
+        if (this.releaseTime !== null) return this.endTime;
+
+        const start = Math.max(time, this.startTime + MIN_RAMP);
+        const level = Math.max(this.getLevelAt(start), SILENCE);
+        const release = Math.max(this.envelope.release, MIN_RAMP);
+
+        this.output.gain.cancelScheduledValues(start);
+        this.output.gain.setValueAtTime(level, start);
+        this.output.gain.exponentialRampToValueAtTime(SILENCE, start + release);
+
+        // フィルターを元のカットオフまで閉じる
+        if (this.filterRelease) {
+            const { base, release: filterRelease } = this.filterRelease;
+            this.filter.frequency.cancelScheduledValues(start);
+            this.filter.frequency.setTargetAtTime(base, start, Math.max(filterRelease, MIN_RAMP) / 3);
+        }
+
+        this.releaseTime = start;
+        this.releaseLevel = level;
+        this.stopAt(start + release);
+        return this.endTime;
+    }
+
+    /**
+     * 発音数の上限を超えたときに素早く止める
+     */
+    steal(time: number): void {
+        if (time >= this.endTime) return;
+
+        const level = this.getLevelAt(time);
+        this.output.gain.cancelScheduledValues(time);
+        this.output.gain.setValueAtTime(level, time);
+        this.output.gain.linearRampToValueAtTime(0, time + InstrumentVoice.STEAL_FADE);
+
+        this.releaseTime = time;
+        this.releaseLevel = level;
+        this.stopAt(time + InstrumentVoice.STEAL_FADE);
+    }
+
+    /**
+     * 指定した時刻の音量（エンベロープから計算）
+     * 予約済みの時刻でリリースする場合も正しい値から始めるため、AudioParam.valueは使わない
+     */
+    private getLevelAt(time: number): number {
+        const { attack, decay, sustain, release } = this.envelope;
+
+        if (this.releaseTime !== null && time >= this.releaseTime) {
+            const progress = Math.min(1, (time - this.releaseTime) / Math.max(release, MIN_RAMP));
+            return this.releaseLevel * Math.pow(SILENCE / this.releaseLevel, progress);
+        }
+
+        const elapsed = time - this.startTime;
+        const attackTime = Math.max(attack, MIN_RAMP);
+        if (elapsed <= 0) return 0;
+        if (elapsed < attackTime) return this.peak * elapsed / attackTime;
+        if (elapsed < attackTime + decay) {
+            return this.peak * (1 - (1 - sustain) * (elapsed - attackTime) / decay);
+        }
+        return this.peak * sustain;
+    }
+
+    private stopAt(time: number): void {
+        this.endTime = time;
+        for (const source of this.sources) {
+            source.stop(time);
+        }
+    }
+}
+
+export class Instrument {
+    private context: BaseAudioContext;
+    private effects: MasterEffects;
+    private patch: InstrumentPatch;
+    private voices: InstrumentVoice[] = [];
+
+    constructor(
+        context: BaseAudioContext,
+        effects: MasterEffects,
+        patch: InstrumentPatch = INSTRUMENT_PATCHES.classic
+    ) {
+        this.context = context;
+        this.effects = effects;
+        this.patch = patch;
+    }
+
+    getPatch(): InstrumentPatch {
+        return this.patch;
+    }
+
+    /**
+     * 音色を切り替える（鳴っている音はそのまま）
+     */
+    setPatch(patch: InstrumentPatch): void {
+        this.patch = patch;
+    }
+
+    /**
+     * 長さの決まった音を鳴らす
+     * @param duration リリースを含めた長さ（秒）
+     * @param pan 定位（-1: 左 ~ 1: 右）
+     */
+    playNote(frequency: number, effects: AudioEffects, time: number, duration: number, pan: number = 0): InstrumentVoice {
+        const voice = this.noteOn(frequency, effects, time, pan);
+        this.noteOff(voice, time + Instrument.getGateTime(this.patch, duration));
+        return voice;
+    }
+
+    /**
+     * 音を鳴らし始める（noteOff()を呼ぶまでサスティンを維持）
+     * @param pan 定位（-1: 左 ~ 1: 右）
+     */
+    noteOn(frequency: number, effects: AudioEffects, time: number, pan: number = 0): InstrumentVoice {
+        this.allocate(time);
+
+        const patch = this.patch;
+        const context = this.context;
+
+        // 判定が悪いほどフィルターを閉じる
+        const baseCutoff = Math.min(
+            patch.filter.cutoff * effects.filterFreq / PERFECT_FILTER_FREQ,
+            context.sampleRate / 2
+        );
+
+        // 出力（音量エンベロープ）
+        const output = context.createGain();
+        const peak = effects.volume;
+        const { attack, decay, sustain } = patch.envelope;
+        output.gain.setValueAtTime(0, time);
+        output.gain.linearRampToValueAtTime(peak, time + Math.max(attack, MIN_RAMP));
+        if (decay > 0) {
+            output.gain.linearRampToValueAtTime(peak * sustain, time + Math.max(attack, MIN_RAMP) + decay);
+        }
+
+        // フィルター（フィルターエンベロープ）
+        const filter = context.createBiquadFilter();
+        filter.type = patch.filter.type;
+        filter.Q.setValueAtTime(patch.filter.resonance, time);
+        this.scheduleFilterEnvelope(filter, baseCutoff, time);
+
+        // オシレーター（レイヤー × ユニゾン）
+        const sources: AudioScheduledSourceNode[] = [];
+        const carriers: OscillatorNode[] = [];
+        const { voices: unison, spread } = patch.unison;
+        for (const layer of patch.oscillators) {
+            for (let i = 0; i < unison; i++) {
+                const offset = unison > 1 ? -spread / 2 + spread * i / (unison - 1) : 0;
+                const oscillator = context.createOscillator();
+                oscillator.type = layer.waveform ?? effects.waveform;
+                oscillator.frequency.setValueAtTime(frequency * Math.pow(2, layer.octave ?? 0), time);
+                oscillator.detune.setValueAtTime(effects.detune + (layer.detune ?? 0) + offset, time);
+
+                const layerGain = context.createGain();
+                layerGain.gain.setValueAtTime(layer.gain / Math.sqrt(unison), time);
+
+                oscillator.connect(layerGain);
+                layerGain.connect(filter);
+                carriers.push(oscillator);
+                sources.push(oscillator);
+            }
+        }
+
+        // FM（すべてのオシレーターの周波数を同じモジュレーターで揺らす）
+        if (patch.fm) {
+            const modulator = context.createOscillator();
+            const depth = context.createGain();
+            const amount = patch.fm.index * frequency;
+            modulator.frequency.setValueAtTime(frequency * patch.fm.ratio, time);
+            depth.gain.setValueAtTime(amount, time);
+            if (patch.fm.decay > 0) {
+                depth.gain.exponentialRampToValueAtTime(amount * 0.1, time + patch.fm.decay);
+            }
+            modulator.connect(depth);
+            carriers.forEach((carrier) => depth.connect(carrier.frequency));
+            sources.push(modulator);
+        }
+
+        filter.connect(output);
+        if (pan !== 0) {
+            const panner = context.createStereoPanner();
+            panner.pan.setValueAtTime(pan, time);
+            output.connect(panner);
+            this.effects.connectVoice(panner, effects, time);
+        } else {
+            this.effects.connectVoice(output, effects, time);
+        }
+
+        sources.forEach((source) => source.start(time));
+
+        const filterRelease = patch.filter.envelopeAmount > 0
+            ? { base: baseCutoff, release: patch.filter.envelope.release }
+            : null;
+        const voice = new InstrumentVoice(output, filter, sources, patch.envelope, peak, filterRelease, time);
+        this.voices.push(voice);
+        return voice;
+    }
+
+    /**
+     * 音を離す（リリース後に止まる）
+     * @returns 鳴り終わる時刻
+     */
+    noteOff(voice: InstrumentVoice, time: number): number {
+        return voice.release(time);
+    }
+
+    /**
+     * 鳴らしている音をすべて止める
+     */
+    releaseAll(time: number): void {
+        for (const voice of this.voices) {
+            this.noteOff(voice, time);
+        }
+    }
+
+    /**
+     * 長さ（リリースを含む）から、鍵盤を押している時間を求める
+     * リリースの長い音色でもアタックは必ず鳴らす
+     */
+    static getGateTime(patch: InstrumentPatch, duration: number): number {
+        return Math.max(duration - patch.envelope.release, patch.envelope.attack);
+    }
+
+    /**
+     * 発音数の上限を超える場合、古い音（リリース中の音を優先）を止める
+     */
+    private allocate(time: number): void {
+        this.voices = this.voices.filter((voice) => voice.getEndTime() > time);
+
+        while (this.voices.length >= this.patch.polyphony) {
+            const victim = this.voices.find((voice) => voice.isReleased()) ?? this.voices[0];
+            victim.steal(time);
+            this.voices.splice(this.voices.indexOf(victim), 1);
+        }
+    }
+
+    /**
+     * フィルターエンベロープを予約（アタックで開き、ディケイでサスティンまで戻る）
+     */
+    private scheduleFilterEnvelope(filter: BiquadFilterNode, baseCutoff: number, time: number): void {
+        const { envelopeAmount, envelope } = this.patch.filter;
+        const nyquist = this.context.sampleRate / 2;
+        filter.frequency.setValueAtTime(baseCutoff, time);
+        if (envelopeAmount <= 0) return;
+
+        const peak = Math.min(baseCutoff * Math.pow(2, envelopeAmount), nyquist);
+        const sustain = Math.min(baseCutoff * Math.pow(2, envelopeAmount * envelope.sustain), nyquist);
+        const attackEnd = time + Math.max(envelope.attack, MIN_RAMP);
+        filter.frequency.exponentialRampToValueAtTime(peak, attackEnd);
+        filter.frequency.exponentialRampToValueAtTime(sustain, attackEnd + Math.max(envelope.decay, MIN_RAMP));
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * マスターバスのエフェクトチェーン
+ * ゲーム中・録音の再生・WAV出力で同じ響きになるよう、AudioContextとOfflineAudioContextのどちらでも使える
+ *
+ * 接続:
+ *   ボイス → Dry ────────────────────────────┐
+ *         → センド → リバーブ（畳み込み）→ Wet ─┤
+ *         → センド → ディレイ（フィードバック）→ Wet ─┼→ コンプレッサー → リミッター → 出力
+ *         → センド → コーラス → Wet ───────────┘
+ *
+ * センドの量は判定ごとのAudioEffectsで音符ごとに変わる
+ */
+
+import type { AudioEffects, MasterEffectsSettings } from '../types';
+import { DEFAULT_MASTER_EFFECTS } from '../types';
+
+// 設定を変えたときに値が落ち着くまでの時定数（秒、ノイズ防止）
+const SMOOTHING = 0.02;
+
+// コーラスの基本のディレイタイム（秒）
+const CHORUS_BASE_DELAY = 0.015;
+
+// ディレイの繰り返しを少しずつこもらせるフィルター（Hz）
+const DELAY_DAMPING = 3000;
+
+export class MasterEffects {
+    private context: BaseAudioContext;
+    private settings: MasterEffectsSettings;
+
+    // 各エフェクトへの入口
+    private dryInput: GainNode;
+    private reverbInput: GainNode;
+    private delayInput: GainNode;
+    private chorusInput: GainNode;
+
+    private reverb: ConvolverNode;
+    private reverbWet: GainNode;
+    private delay: DelayNode;
+    private delayFeedback: GainNode;
+    private delayWet: GainNode;
+    private chorusLFOs: OscillatorNode[] = [];
+    private chorusDepths: GainNode[] = [];
+    private chorusWet: GainNode;
+    private compressor: DynamicsCompressorNode;
+    private limiter: DynamicsCompressorNode;
+
+    constructor(
+        context: BaseAudioContext,
+        destination: AudioNode,
+        settings: MasterEffectsSettings = DEFAULT_MASTER_EFFECTS
+    ) {
+        this.context = context;
+        this.settings = settings;
+
+        // 音割れ防止（コンプレッサーで均し、リミッターで天井を抑える）
+        this.compressor = context.createDynamicsCompressor();
+        this.compressor.knee.value = 6;
+        this.compressor.attack.value = 0.005;
+        this.compressor.release.value = 0.2;
+
+        this.limiter = context.createDynamicsCompressor();
+        this.limiter.threshold.value = -1;
+        this.limiter.knee.value = 0;
+        this.limiter.ratio.value = 20;
+        this.limiter.attack.value = 0.001;
+        this.limiter.release.value = 0.1;
+
+        this.compressor.connect(this.limiter);
+        this.limiter.connect(destination);
+
+        // 原音
+        this.dryInput = context.createGain();
+        this.dryInput.connect(this.compressor);
+
+        // リバーブ（生成したインパルス応答で畳み込み）
+        this.reverbInput = context.createGain();
+        this.reverb = context.createConvolver();
+        this.reverbWet = context.createGain();
+        this.reverb.buffer = MasterEffects.createImpulseResponse(context, settings.reverb.decay);
+        this.reverbInput.connect(this.reverb);
+        this.reverb.connect(this.reverbWet);
+        this.reverbWet.connect(this.compressor);
+
+        // ディレイ（フィードバックで繰り返す）
+        this.delayInput = context.createGain();
+        this.delay = context.createDelay(2);
+        this.delayFeedback = context.createGain();
+        this.delayWet = context.createGain();
+        const damping = context.createBiquadFilter();
+        damping.type = 'lowpass';
+        damping.frequency.value = DELAY_DAMPING;
+        this.delayInput.connect(this.delay);
+        this.delay.connect(damping);
+        damping.connect(this.delayFeedback);
+        this.delayFeedback.connect(this.delay);
+        this.delay.connect(this.delayWet);
+        this.delayWet.connect(this.compressor);
+
+        // コーラス（左右で速さの違うLFOでディレイタイムを揺らす）
+        this.chorusInput = context.createGain();
+        this.chorusWet = context.createGain();
+        const merger = context.createChannelMerger(2);
+        for (let channel = 0; channel < 2; channel++) {
+            const delay = context.createDelay(0.1);
+            const lfo = context.createOscillator();
+            const depth = context.createGain();
+            delay.delayTime.value = CHORUS_BASE_DELAY;
+            lfo.connect(depth);
+            depth.connect(delay.delayTime);
+            this.chorusInput.connect(delay);
+            delay.connect(merger, 0, channel);
+            lfo.start();
+
+            this.chorusLFOs.push(lfo);
+            this.chorusDepths.push(depth);
+        }
+        merger.connect(this.chorusWet);
+        this.chorusWet.connect(this.compressor);
+
+        this.applySettings(settings, true);
+    }
+
+    getSettings(): MasterEffectsSettings {
+        return this.settings;
+    }
+
+    /**
+     * 設定を変更（鳴っている音にもすぐ反映）
+     */
+    setSettings(settings: MasterEffectsSettings): void {
+        const decayChanged = settings.reverb.decay !== this.settings.reverb.decay;
+        this.settings = settings;
+        if (decayChanged) {
+            this.reverb.buffer = MasterEffects.createImpulseResponse(this.context, settings.reverb.decay);
+        }
+        this.applySettings(settings, false);
+    }
+
+    /**
+     * ボイスの出力をつなぐ（判定ごとのセンド量で各エフェクトへ送る）
+     */
+    connectVoice(output: AudioNode, effects: AudioEffects, time: number): void {
+        output.connect(this.dryInput);
+
+        const sends: [number, AudioNode][] = [
+            [effects.reverb, this.reverbInput],
+            [effects.delay, this.delayInput],
+            [effects.chorus, this.chorusInput]
+        ];
+        for (const [amount, input] of sends) {
+            if (!(amount > 0)) continue;
+            const send = this.context.createGain();
+            send.gain.setValueAtTime(amount, time);
+            output.connect(send);
+            send.connect(input);
+        }
+    }
+
+    /**
+     * 各ノードに設定を反映
+     * @param immediate 作成直後（なめらかに変える必要がない）ならtrue
+     */
+    private applySettings(settings: MasterEffectsSettings, immediate: boolean): void {
+        const now = this.context.currentTime;
+        const set = (param: AudioParam, value: number) => {
+            if (immediate) {
+                param.value = value;
+            } else {
+                param.setTargetAtTime(value, now, SMOOTHING);
+            }
+        };
+
+        set(this.dryInput.gain, settings.dry);
+        set(this.reverbWet.gain, settings.reverb.wet);
+        set(this.delay.delayTime, settings.delay.time);
+        set(this.delayFeedback.gain, settings.delay.feedback);
+        set(this.delayWet.gain, settings.delay.wet);
+        set(this.chorusWet.gain, settings.chorus.wet);
+        this.chorusLFOs.forEach((lfo, i) => {
+            // 左右で少し速さを変えて広がりを出す
+            set(lfo.frequency, settings.chorus.rate * (1 + i * 0.13));
+        });
+        this.chorusDepths.forEach((depth) => set(depth.gain, settings.chorus.depth / 1000));
+        set(this.compressor.threshold, settings.compressor.threshold);
+        set(this.compressor.ratio, settings.compressor.ratio);
+    }
+
+    /**
+     * 最後の音が消えてから、エフェクトの余韻が聞こえなくなるまでの時間（秒）
+     */
+    static getTailTime(settings: MasterEffectsSettings): number {
+        const { time, feedback } = settings.delay;
+
+        // ディレイの繰り返しが-60dBまで下がる回数（上限あり）
+        const repeats = feedback > 0 ? Math.min(Math.ceil(Math.log(0.001) / Math.log(feedback)), 30) : 1;
+        const delayTail = settings.delay.wet > 0 ? time * repeats : 0;
+        const reverbTail = settings.reverb.wet > 0 ? settings.reverb.decay : 0;
+
+        return Math.max(delayTail, reverbTail) + CHORUS_BASE_DELAY + settings.chorus.depth / 1000;
+    }
+
+    /**
+     * リバーブのインパルス応答を生成（左右独立のノイズを指数的に減衰させる）
+     * @param decay 残響が-60dBまで下がる時間（秒）
+     */
+    static createImpulseResponse(context: BaseAudioContext, decay: number): AudioBuffer {
+        const sampleRate = context.sampleRate;
+        const length = Math.max(1, Math.floor(sampleRate * Math.max(decay, 0.1)));
+        const buffer = context.createBuffer(2, length, sampleRate);
+        const fadeIn = Math.floor(sampleRate * 0.005);
+
+        for (let channel = 0; channel < 2; channel++) {
+            const data = buffer.getChannelData(channel);
+            for (let i = 0; i < length; i++) {
+                // -60dB（1/1000）になるまでの指数減衰
+                const envelope = Math.pow(0.001, i / length);
+                const attack = i < fadeIn ? i / fadeIn : 1;
+                data[i] = (Math.random() * 2 - 1) * envelope * attack;
+            }
+        }
+        return buffer;
+    }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { noteToFrequency } from '../types';
+import { PitchDetector } from './PitchDetector';
+
+const SAMPLE_RATE = 44100;
+const BUFFER_SIZE = 2048;   // マイク入力の AnalyserNode と同じ長さ
+
+/**
+ * 倍音を重ねた波形（harmonics[i] = 第 i + 1 倍音の振幅）
+ */
+function tone(frequency: number, harmonics: number[] = [1], sampleRate = SAMPLE_RATE, length = BUFFER_SIZE): Float32Array {
+    const buffer = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        const t = i / sampleRate;
+        buffer[i] = harmonics.reduce(
+            (sum, amplitude, h) => sum + 0.5 * amplitude * Math.sin(2 * Math.PI * frequency * (h + 1) * t),
+            0
+        );
+    }
+    return buffer;
+}
+
+/**
+ * 再現できる疑似乱数のノイズ
+ */
+function noise(amplitude: number, length = BUFFER_SIZE): Float32Array {
+    const buffer = new Float32Array(length);
+    let seed = 12345;
+    for (let i = 0; i < length; i++) {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        buffer[i] = (seed / 0xffffffff * 2 - 1) * amplitude;
+    }
+    return buffer;
+}
+
+describe('PitchDetector.detect', () => {
+    const detector = new PitchDetector();
+
+    it.each([110, 146.83, 220, 261.63, 330, 440, 523.25, 698.46, 880, 1046.5, 1200])(
+        '%fHzの正弦波を0.4Hz以内で検出する',
+        (frequency) => {
+            const detection = detector.detect(tone(frequency), SAMPLE_RATE);
+            expect(detection).not.toBeNull();
+            expect(Math.abs(detection!.frequency - frequency)).toBeLessThan(0.4);
+            expect(detection!.clarity).toBeGreaterThan(0.9);
+        }
+    );
+
+    it('ゲームで使う音域（C3 ~ C6）の音名を取り違えない', () => {
+        for (let octave = 3; octave <= 5; octave++) {
+            for (const name of ['C', 'D', 'E', 'F', 'G', 'A', 'B']) {
+                const frequency = noteToFrequency(name, octave);
+                const detection = detector.detect(tone(frequency), SAMPLE_RATE);
+                const cents = 1200 * Math.log2(detection!.frequency / frequency);
+                expect(Math.abs(cents)).toBeLessThan(5);
+            }
+        }
+    });
+
+    it('48kHzでも検出できる', () => {
+        const detection = detector.detect(tone(440, [1], 48000), 48000);
+        expect(Math.abs(detection!.frequency - 440)).toBeLessThan(0.4);
+    });
+
+    it('倍音の強い音でも基本周波数を検出する（オクターブ上と取り違えない）', () => {
+        const detection = detector.detect(tone(220, [0.6, 1, 0.8, 0.5]), SAMPLE_RATE);
+        expect(Math.abs(detection!.frequency - 220)).toBeLessThan(0.4);
+    });
+
+    it('少しのノイズが混ざっても検出できる', () => {
+        const signal = tone(330);
+        const hiss = noise(0.02);
+        const mixed = signal.map((value, i) => value + hiss[i]);
+        const detection = detector.detect(mixed, SAMPLE_RATE);
+        expect(Math.abs(detection!.frequency - 330)).toBeLessThan(1);
+    });
+
+    it('無音はnull', () => {
+        expect(detector.detect(new Float32Array(BUFFER_SIZE), SAMPLE_RATE)).toBeNull();
+    });
+
+    it('minRMSより小さい音は無音とみなす', () => {
+        const quiet = tone(440).map((value) => value * 0.01);
+        expect(detector.detect(quiet, SAMPLE_RATE)).toBeNull();
+    });
+
+    it('周期性のないノイズはnull', () => {
+        expect(detector.detect(noise(0.5), SAMPLE_RATE)).toBeNull();
+    });
+
+    it('検出範囲より低い音はnull、高い音は範囲内の周期（1オクターブ下）になる', () => {
+        const narrow = new PitchDetector({ minFrequency: 200, maxFrequency: 1000 });
+        expect(narrow.detect(tone(100), SAMPLE_RATE)).toBeNull();
+        expect(narrow.detect(tone(1500), SAMPLE_RATE)?.frequency).toBeCloseTo(750, 0);
+    });
+
+    it('バッファが短すぎて周期を調べられなければnull', () => {
+        expect(detector.detect(tone(440, [1], SAMPLE_RATE, 64), SAMPLE_RATE)).toBeNull();
+    });
+});
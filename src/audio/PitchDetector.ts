@@ -0,0 +1,91 @@
+/**
+ * 音高検出（YINアルゴリズム）
+ * 波形のバッファだけから基本周波数を求めるため、AudioContextなしで合成した波形でも検証できる
+ *
+ * 参考: de Cheveigné & Kawahara, "YIN, a fundamental frequency estimator for speech and music" (2002)
+ */
+
+import type { PitchDetection, PitchDetectorOptions } from '../types';
+
+export class PitchDetector {
+    private threshold: number;
+    private minFrequency: number;
+    private maxFrequency: number;
+    private minRMS: number;
+
+    constructor(options: PitchDetectorOptions = {}) {
+        this.threshold = options.threshold ?? 0.15;
+        this.minFrequency = options.minFrequency ?? 80;
+        this.maxFrequency = options.maxFrequency ?? 1500;
+        this.minRMS = options.minRMS ?? 0.01;
+    }
+
+    /**
+     * 波形から基本周波数を検出
+     * @returns 無音・周期性のない音なら null
+     */
+    detect(buffer: Float32Array, sampleRate: number): PitchDetection | null {
+        // 無音判定
+        let sumSquares = 0;
+        for (let i = 0; i < buffer.length; i++) {
+            sumSquares += buffer[i] * buffer[i];
+        }
+        if (Math.sqrt(sumSquares / buffer.length) < this.minRMS) return null;
+
+        const minPeriod = Math.max(2, Math.floor(sampleRate / this.maxFrequency));
+        const maxPeriod = Math.min(Math.floor(sampleRate / this.minFrequency), Math.floor(buffer.length / 2));
+        if (minPeriod >= maxPeriod) return null;
+
+        const windowSize = buffer.length - maxPeriod;
+
+        // 差分関数 d(τ) を累積平均で正規化（d'(0) = 1）
+        const normalized = new Float32Array(maxPeriod + 1);
+        normalized[0] = 1;
+        let runningSum = 0;
+        for (let tau = 1; tau <= maxPeriod; tau++) {
+            let diff = 0;
+            for (let i = 0; i < windowSize; i++) {
+                const delta = buffer[i] - buffer[i + tau];
+                diff += delta * delta;
+            }
+            runningSum += diff;
+            normalized[tau] = runningSum > 0 ? diff * tau / runningSum : 1;
+        }
+
+        // 閾値を下回った最初の谷を周期とする（倍周期の誤検出を防ぐ）
+        let period = -1;
+        for (let tau = minPeriod; tau <= maxPeriod; tau++) {
+            if (normalized[tau] < this.threshold) {
+                while (tau + 1 <= maxPeriod && normalized[tau + 1] < normalized[tau]) {
+                    tau++;
+                }
+                period = tau;
+                break;
+            }
+        }
+        if (period === -1) return null;
+
+        // 放物線補間で周期を小数精度にする
+        const refined = PitchDetector.interpolate(normalized, period);
+
+        return {
+            frequency: sampleRate / refined,
+            clarity: Math.max(0, Math.min(1, 1 - normalized[period]))
+        };
+    }
+
+    /**
+     * 谷の前後3点から放物線の頂点を求める
+     */
+    private static interpolate(values: Float32Array, index: number): number {
+        if (index <= 0 || index >= values.length - 1) return index;
+
+        const left = values[index - 1];
+        const center = values[index];
+        const right = values[index + 1];
+        const denominator = left - 2 * center + right;
+        if (denominator === 0) return index;
+
+        return index + (left - right) / (2 * denominator);
+    }
+}
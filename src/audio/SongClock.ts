@@ -0,0 +1,95 @@
+/**
+ * ソングクロック
+ * AudioContextの時刻を基準に曲の経過時間を提供する
+ */
+
+export class SongClock {
+    private audioContext: AudioContext;
+    private startAudioTime: number = 0;     // 曲の0msに対応するオーディオ時刻（秒）
+    private running: boolean = false;
+    private pausedTime: number | null = null;   // 一時停止中の曲の経過時間（ミリ秒）
+
+    constructor(audioContext: AudioContext) {
+        this.audioContext = audioContext;
+    }
+
+    /**
+     * 計測開始
+     * @param songTime 開始時点の曲の経過時間（ミリ秒）
+     */
+    start(songTime: number = 0): void {
+        this.startAudioTime = this.getOutputTime() - songTime / 1000;
+        this.running = true;
+        this.pausedTime = null;
+    }
+
+    /**
+     * 計測停止
+     */
+    stop(): void {
+        this.running = false;
+        this.pausedTime = null;
+    }
+
+    /**
+     * 一時停止（経過時間を凍結）
+     */
+    pause(): void {
+        if (!this.running) return;
+        this.pausedTime = this.now();
+        this.running = false;
+    }
+
+    /**
+     * 一時停止した位置から再開
+     */
+    resume(): void {
+        if (this.pausedTime === null) return;
+        this.start(this.pausedTime);
+    }
+
+    /**
+     * 現在の曲の経過時間（ミリ秒）
+     */
+    now(): number {
+        if (this.pausedTime !== null) return this.pausedTime;
+        if (!this.running) return 0;
+        return (this.getOutputTime() - this.startAudioTime) * 1000;
+    }
+
+    /**
+     * 曲の経過時間に対応するオーディオ時刻（秒）
+     * AudioNodeのstart()に渡すと、その時刻にスピーカーから音が出る
+     */
+    toAudioTime(songTime: number): number {
+        return this.startAudioTime + songTime / 1000;
+    }
+
+    /**
+     * 計測中かどうか
+     */
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * スピーカーから実際に出ている音のオーディオ時刻（秒）
+     * getOutputTimestamp()が使える場合はperformance.now()で補間し、
+     * 使えない場合はcurrentTimeから出力レイテンシを差し引く
+     */
+    private getOutputTime(): number {
+        const ctx = this.audioContext;
+
+        if (typeof ctx.getOutputTimestamp === 'function') {
+            const timestamp = ctx.getOutputTimestamp();
+            if (timestamp.contextTime !== undefined
+                && timestamp.performanceTime !== undefined
+                && timestamp.performanceTime > 0) {
+                return timestamp.contextTime + (performance.now() - timestamp.performanceTime) / 1000;
+            }
+        }
+
+        const latency = ctx.outputLatency || ctx.baseLatency || 0;
+        return ctx.currentTime - latency;
+    }
+}
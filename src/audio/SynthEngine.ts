@@ -3,21 +3,41 @@
  * Web Audio APIを使って音を生成する
  */
 
-import type { AudioEffects, RecordedNote } from '../types';
+import type { AudioEffects, BGMSegment, BGMTake, InstrumentPatch, MasterEffectsSettings, RecordedNote } from '../types';
+import { getAudibleNotes, getInstrumentPatch } from '../types';
+import { Instrument, InstrumentVoice } from './Instrument';
+import { MasterEffects } from './MasterEffects';
+import type { SongClock } from './SongClock';
+
+// 再生中のBGM
+interface BGMPlayback {
+    buffer: AudioBuffer;
+    loop: boolean;
+    segments: BGMSegment[];
+    source: AudioBufferSourceNode | null;   // ポーズ中は null
+}
 
 export class SynthEngine {
+    private static readonly MASTER_VOLUME = 0.3;    // 演奏の音量（耳に優しい30%）
+    private static readonly BGM_VOLUME = 0.5;
+
     private audioContext: AudioContext;
     private masterGain: GainNode;
     private analyser: AnalyserNode;
-    private recording: RecordedNote[] = [];
-    private isRecording: boolean = false;
+    private masterEffects: MasterEffects;
+    private instrument: Instrument;
+    private sustainedVoices: Map<number, InstrumentVoice> = new Map();
+    private nextVoiceId: number = 1;
+    private bgmGain: GainNode;
+    private bgmBuffers: Map<string, AudioBuffer> = new Map();
+    private bgm: BGMPlayback | null = null;
 
     constructor() {
         this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
         
         // マスターゲイン（音量調整）
         this.masterGain = this.audioContext.createGain();
-        this.masterGain.gain.value = 0.3; // 音量を30%に設定（耳に優しい）
+        this.masterGain.gain.value = SynthEngine.MASTER_VOLUME;
         
         // アナライザー（スペクトラム可視化用）
         this.analyser = this.audioContext.createAnalyser();
@@ -27,78 +47,100 @@ export class SynthEngine {
         // 接続: MasterGain → Analyser → Destination（スピーカー）
         this.masterGain.connect(this.analyser);
         this.analyser.connect(this.audioContext.destination);
+        
+        // エフェクトチェーン: Instrument → MasterEffects → MasterGain
+        this.masterEffects = new MasterEffects(this.audioContext, this.masterGain);
+        
+        // 演奏用の楽器（音色は曲ごとに切り替える）
+        this.instrument = new Instrument(this.audioContext, this.masterEffects);
+        
+        // BGM（エフェクト・スペクトラムを通さず直接スピーカーへ）
+        this.bgmGain = this.audioContext.createGain();
+        this.bgmGain.gain.value = SynthEngine.BGM_VOLUME;
+        this.bgmGain.connect(this.audioContext.destination);
+    }
+
+    /**
+     * マスターエフェクトの設定を変更
+     */
+    setMasterEffects(settings: MasterEffectsSettings): void {
+        this.masterEffects.setSettings(settings);
+    }
+
+    getMasterEffects(): MasterEffectsSettings {
+        return this.masterEffects.getSettings();
+    }
+
+    /**
+     * 演奏に使う音色を切り替える
+     */
+    setPatch(patch: InstrumentPatch): void {
+        this.instrument.setPatch(patch);
+    }
+
+    getPatch(): InstrumentPatch {
+        return this.instrument.getPatch();
     }
 
     /**
      * 音符を再生（エフェクト付き）
+     * 録音はゲームエンジンが判定と一緒に行う
      */
     playNote(
         frequency: number,
         duration: number = 0.3,
         effects: AudioEffects
     ): void {
-        const now = this.audioContext.currentTime;
-
-        // オシレーター（音源）
-        const oscillator = this.audioContext.createOscillator();
-        oscillator.type = effects.waveform;
-        oscillator.frequency.setValueAtTime(frequency, now);
-        oscillator.detune.setValueAtTime(effects.detune, now);
+        this.instrument.playNote(frequency, effects, this.audioContext.currentTime, duration);
+    }
 
-        // ゲインノード（音量エンベロープ用）
-        const gainNode = this.audioContext.createGain();
+    /**
+     * 伸ばす音を開始（ホールドノーツ用）
+     * releaseSustainedNote()を呼ぶまで鳴り続ける
+     * @returns ボイスID
+     */
+    startSustainedNote(frequency: number, effects: AudioEffects): number {
+        const voice = this.instrument.noteOn(frequency, effects, this.audioContext.currentTime);
         
-        // ADSR エンベロープ（アタック・ディケイ・サスティン・リリース）
-        const attack = 0.01;
-        const decay = 0.1;
-        const sustain = effects.volume * 0.7;
-        const release = 0.2;
-        
-        gainNode.gain.setValueAtTime(0, now);
-        gainNode.gain.linearRampToValueAtTime(effects.volume, now + attack);
-        gainNode.gain.linearRampToValueAtTime(sustain, now + attack + decay);
-        gainNode.gain.setValueAtTime(sustain, now + duration - release);
-        gainNode.gain.exponentialRampToValueAtTime(0.01, now + duration);
-
-        // フィルター（音色調整）
-        const filter = this.audioContext.createBiquadFilter();
-        filter.type = 'lowpass';
-        filter.frequency.setValueAtTime(effects.filterFreq, now);
-        filter.Q.setValueAtTime(1, now);
-
-        // リバーブ（簡易版：ディレイで代用）
-        const delay = this.audioContext.createDelay();
-        const delayGain = this.audioContext.createGain();
-        delay.delayTime.setValueAtTime(effects.reverb * 0.1, now);
-        delayGain.gain.setValueAtTime(effects.reverb * 0.3, now);
-
-        // 接続: Oscillator → Filter → GainNode → MasterGain
-        //                                      → Delay → DelayGain → MasterGain
-        oscillator.connect(filter);
-        filter.connect(gainNode);
-        gainNode.connect(this.masterGain);
+        const id = this.nextVoiceId++;
+        this.sustainedVoices.set(id, voice);
+        return id;
+    }
+
+    /**
+     * 伸ばしている音をリリース
+     * @returns 鳴らした長さ（秒、リリースを含む。既に止めていれば0）
+     */
+    releaseSustainedNote(id: number): number {
+        const voice = this.sustainedVoices.get(id);
+        if (!voice) return 0;
+        this.sustainedVoices.delete(id);
         
-        // リバーブ効果
-        if (effects.reverb > 0) {
-            gainNode.connect(delay);
-            delay.connect(delayGain);
-            delayGain.connect(this.masterGain);
-        }
+        // 現在の音量からリリース（発音数の上限で止められていればそのまま）
+        const endTime = this.instrument.noteOff(voice, this.audioContext.currentTime);
+        return endTime - voice.startTime;
+    }
+
+    /**
+     * 演奏のマスター音量（書き出しでBGMとのバランスをプレイ中と揃えるため）
+     */
+    getMasterVolume(): number {
+        return this.masterGain.gain.value;
+    }
 
-        // 再生
-        oscillator.start(now);
-        oscillator.stop(now + duration);
-
-        // 録音中なら記録
-        if (this.isRecording) {
-            this.recording.push({
-                frequency,
-                duration,
-                waveform: effects.waveform,
-                timestamp: Date.now(),
-                judgment: 'perfect', // 仮（実際はゲームエンジンから渡される）
-                effects
-            });
+    /**
+     * 現在のオーディオ時刻（ミリ秒、録音・BGMの区間と同じ基準）
+     */
+    getAudioTimestamp(): number {
+        return this.audioContext.currentTime * 1000;
+    }
+
+    /**
+     * 伸ばしている音をすべてリリース
+     */
+    releaseAllSustainedNotes(): void {
+        for (const id of [...this.sustainedVoices.keys()]) {
+            this.releaseSustainedNote(id);
         }
     }
 
@@ -110,6 +152,8 @@ export class SynthEngine {
             waveform: 'sine',
             volume: 0.8,
             reverb: 0.2,
+            delay: 0,
+            chorus: 0,
             detune: 0,
             filterFreq: 5000
         };
@@ -117,71 +161,168 @@ export class SynthEngine {
     }
 
     /**
-     * 録音開始
+     * メトロノームのクリック音を予約（録音はしない）
+     * @param when 鳴らすオーディオ時刻（秒）
+     * @param accent 小節の頭など強拍かどうか
      */
-    startRecording(): void {
-        this.recording = [];
-        this.isRecording = true;
+    playClick(when: number, accent: boolean = false): void {
+        const oscillator = this.audioContext.createOscillator();
+        const gainNode = this.audioContext.createGain();
+        const start = Math.max(when, this.audioContext.currentTime);
+        
+        oscillator.type = 'square';
+        oscillator.frequency.setValueAtTime(accent ? 1760 : 1320, start);
+        
+        // 短く減衰させてアタックをはっきりさせる
+        gainNode.gain.setValueAtTime(accent ? 0.6 : 0.4, start);
+        gainNode.gain.exponentialRampToValueAtTime(0.001, start + 0.05);
+        
+        oscillator.connect(gainNode);
+        gainNode.connect(this.masterGain);
+        oscillator.start(start);
+        oscillator.stop(start + 0.05);
+    }
+
+    /**
+     * BGMの音源を読み込んでデコード（同じURLは再利用）
+     */
+    async loadBGM(url: string): Promise<AudioBuffer> {
+        const cached = this.bgmBuffers.get(url);
+        if (cached) return cached;
+        
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`${url} を読み込めませんでした（${response.status}）`);
+        }
+        const buffer = await this.audioContext.decodeAudioData(await response.arrayBuffer());
+        this.bgmBuffers.set(url, buffer);
+        return buffer;
+    }
+
+    /**
+     * BGMを再生（曲の0msに音源の先頭が聞こえるよう、ソングクロックに合わせる）
+     * @param clock 開始済みのソングクロック
+     */
+    startBGM(buffer: AudioBuffer, clock: SongClock, loop: boolean = true): void {
+        this.stopBGM();
+        this.bgm = { buffer, loop, segments: [], source: null };
+        this.playBGMAt(clock);
+    }
+
+    /**
+     * BGMを一時停止（再生した区間を記録する）
+     */
+    pauseBGM(): void {
+        const bgm = this.bgm;
+        if (!bgm?.source) return;
+        
+        const segment = bgm.segments[bgm.segments.length - 1];
+        segment.duration = Math.max(0, this.audioContext.currentTime - segment.timestamp / 1000);
+        bgm.source.stop();
+        bgm.source.disconnect();
+        bgm.source = null;
+    }
+
+    /**
+     * BGMを再開（再開したソングクロックの位置から）
+     * @param clock 再開済みのソングクロック
+     */
+    resumeBGM(clock: SongClock): void {
+        const bgm = this.bgm;
+        if (!bgm || bgm.source) return;
+        this.playBGMAt(clock);
+    }
+
+    /**
+     * BGMを停止
+     */
+    stopBGM(): void {
+        this.pauseBGM();
+        this.bgm = null;
     }
 
     /**
-     * 録音停止
+     * ここまでに流れたBGM（なければ null）
      */
-    stopRecording(): RecordedNote[] {
-        this.isRecording = false;
-        return this.recording;
+    getBGMTake(): BGMTake | null {
+        const bgm = this.bgm;
+        if (!bgm) return null;
+        
+        const now = this.audioContext.currentTime;
+        return {
+            buffer: bgm.buffer,
+            loop: bgm.loop,
+            volume: SynthEngine.BGM_VOLUME,
+            segments: bgm.segments.map((segment, i) => {
+                // 再生中の区間は今までの長さ
+                const playing = bgm.source !== null && i === bgm.segments.length - 1;
+                return playing ? { ...segment, duration: Math.max(0, now - segment.timestamp / 1000) } : { ...segment };
+            })
+        };
     }
 
     /**
-     * 録音を再生
+     * ソングクロックの位置に合わせてBGMを鳴らす
+     * スピーカーから聞こえる時刻が曲の位置と一致するよう、toAudioTime()の基準で予約する
+     * （currentTimeで鳴らすと出力レイテンシの分だけ音符より遅れて聞こえる）
+     */
+    private playBGMAt(clock: SongClock): void {
+        const bgm = this.bgm;
+        if (!bgm) return;
+        
+        // 今すぐ鳴らせる時刻に聞こえるべき曲の位置から（曲の開始前なら開始時刻に予約）
+        const songStart = clock.toAudioTime(0);
+        const when = Math.max(this.audioContext.currentTime, songStart);
+        let offset = when - songStart;
+        if (bgm.loop) {
+            offset %= bgm.buffer.duration;
+        } else if (offset >= bgm.buffer.duration) {
+            return;
+        }
+        
+        const source = this.audioContext.createBufferSource();
+        source.buffer = bgm.buffer;
+        source.loop = bgm.loop;
+        source.connect(this.bgmGain);
+        source.start(when, offset);
+        
+        bgm.source = source;
+        bgm.segments.push({ timestamp: when * 1000, offset, duration: 0 });
+    }
+
+    /**
+     * 録音を再生（見逃した音符の記録は鳴らさない）
      */
     playRecording(recording: RecordedNote[]): void {
-        if (recording.length === 0) {
+        const notes = getAudibleNotes(recording);
+        if (notes.length === 0) {
             console.warn('録音データがありません');
             return;
         }
 
         const startTime = this.audioContext.currentTime;
-        const firstTimestamp = recording[0].timestamp;
+        const firstTimestamp = notes[0].timestamp;
+        const instruments = new Map<string, Instrument>();
 
-        recording.forEach((note) => {
-            // 相対的なタイミングで再生
-            const relativeTime = (note.timestamp - firstTimestamp) / 1000;
-            const playTime = startTime + relativeTime;
+        notes.forEach((note) => {
+            // 演奏時と同じ音色で、相対的なタイミングで再生
+            const patch = getInstrumentPatch(note.patch);
+            let instrument = instruments.get(patch.id);
+            if (!instrument) {
+                instrument = new Instrument(this.audioContext, this.masterEffects, patch);
+                instruments.set(patch.id, instrument);
+            }
 
-            this.scheduleNote(note, playTime);
+            const relativeTime = (note.timestamp - firstTimestamp) / 1000;
+            instrument.playNote(note.frequency, note.effects, startTime + relativeTime, note.duration);
         });
     }
 
     /**
-     * 指定時刻に音符を再生（スケジューリング）
+     * オーディオコンテキストを取得（ソングクロック用）
      */
-    private scheduleNote(note: RecordedNote, startTime: number): void {
-        const oscillator = this.audioContext.createOscillator();
-        const gainNode = this.audioContext.createGain();
-        const filter = this.audioContext.createBiquadFilter();
-
-        oscillator.type = note.effects.waveform;
-        oscillator.frequency.setValueAtTime(note.frequency, startTime);
-        oscillator.detune.setValueAtTime(note.effects.detune, startTime);
-
-        // エンベロープ
-        const attack = 0.01;
-        const release = 0.2;
-        gainNode.gain.setValueAtTime(0, startTime);
-        gainNode.gain.linearRampToValueAtTime(note.effects.volume, startTime + attack);
-        gainNode.gain.setValueAtTime(note.effects.volume * 0.7, startTime + note.duration - release);
-        gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + note.duration);
-
-        filter.type = 'lowpass';
-        filter.frequency.setValueAtTime(note.effects.filterFreq, startTime);
-
-        oscillator.connect(filter);
-        filter.connect(gainNode);
-        gainNode.connect(this.masterGain);
-
-        oscillator.start(startTime);
-        oscillator.stop(startTime + note.duration);
+    getContext(): AudioContext {
+        return this.audioContext;
     }
 
     /**
@@ -4,4 +4,7 @@
 
 export * from './SynthEngine';
 export * from './SpectrumVisualizer';
-
+export * from './SongClock';
+export * from './PitchDetector';
+export * from './Instrument';
+export * from './MasterEffects';
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Chart } from '../types';
+import { noteToFrequency } from '../types';
+import type { SynthEngine } from '../audio';
+import { ChartLoader } from '../game/ChartLoader';
+import { ChartEditor } from './ChartEditor';
+
+/**
+ * 描画命令をすべて無視する2Dコンテキスト
+ */
+function createContext(): CanvasRenderingContext2D {
+    return new Proxy({}, {
+        get: (target: Record<string | symbol, unknown>, key) => key in target ? target[key] : () => {}
+    }) as unknown as CanvasRenderingContext2D;
+}
+
+/**
+ * テスト用の偽のキャンバス
+ */
+function createCanvas(): HTMLCanvasElement {
+    const context = createContext();
+    return {
+        width: 800,
+        height: 600,
+        parentElement: null,
+        getContext: () => context,
+        addEventListener: () => {}
+    } as unknown as HTMLCanvasElement;
+}
+
+/**
+ * テスト用の偽のシンセ（鳴らした周波数を記録する）
+ * AudioContext の時刻は currentTime で進める
+ */
+function createSynth(played: number[], context: { currentTime: number }): SynthEngine {
+    return {
+        getContext: () => context,
+        playSimpleNote: (frequency: number) => played.push(frequency)
+    } as unknown as SynthEngine;
+}
+
+function createChart(overrides: Partial<Chart> = {}): Chart {
+    return {
+        version: 1,
+        title: 'テスト',
+        artist: 'テスト',
+        bpm: 120,
+        offset: 0,
+        difficulties: {
+            normal: { level: 7, duration: 90000, notes: [{ time: 1000, lane: 0 }] }
+        },
+        ...overrides
+    };
+}
+
+describe('ChartEditor', () => {
+    let played: number[];
+    let audio: { currentTime: number };
+    let editor: ChartEditor;
+    let nextFrame: (() => void) | null;
+
+    beforeEach(() => {
+        vi.stubGlobal('window', { addEventListener: () => {} });
+        nextFrame = null;
+        vi.stubGlobal('requestAnimationFrame', (callback: () => void) => {
+            nextFrame = callback;
+            return 1;
+        });
+        vi.stubGlobal('cancelAnimationFrame', () => {});
+        played = [];
+        audio = { currentTime: 10 };
+        editor = new ChartEditor(createCanvas(), createSynth(played, audio));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('読み込んだ譜面の level・duration を保存時に残す', () => {
+        editor.open(createChart());
+        expect(editor.getChart().difficulties.normal).toEqual({
+            level: 7,
+            duration: 90000,
+            notes: [{ time: 1000, lane: 0 }]
+        });
+    });
+
+    it('不正な譜面を保存しようとすると、検証エラーを返す（行番号なし）', () => {
+        editor.open(createChart({
+            difficulties: { expert: { notes: [{ time: 0, lane: 5, octave: -1 }] } }
+        }));
+        editor.updateSettings({ difficulty: 'expert', bpm: 0 });
+
+        const errors = new ChartLoader().validate(editor.getChart());
+        expect(errors.map((e) => [e.path, e.line])).toEqual([
+            ['bpm', 0],
+            ['difficulties.expert.notes[0].octave', 0]
+        ]);
+    });
+
+    it('プレビューはカーソル位置ちょうどの音符を最初のフレームで鳴らし、以降は通過した音符だけ鳴らす', () => {
+        editor.open(createChart({
+            difficulties: { normal: { notes: [{ time: 0, lane: 0 }, { time: 500, lane: 1 }] } }
+        }));
+
+        editor.startPreview();
+        expect(played).toEqual([noteToFrequency('C')]);
+
+        audio.currentTime += 0.5;
+        nextFrame?.();
+        expect(played).toEqual([noteToFrequency('C'), noteToFrequency('D')]);
+
+        editor.stopPreview();
+    });
+});
@@ -0,0 +1,653 @@
+/**
+ * 譜面エディター
+ * タイムライン上で音符を配置・移動・削除して譜面を作成する
+ */
+
+import type { Chart, ChartNote, Difficulty } from '../types';
+import { CHART_FORMAT_VERSION, DIFFICULTY_SETTINGS, noteToFrequency } from '../types';
+import { SynthEngine, SongClock } from '../audio';
+
+// エディターの設定（ツールバーで変更する項目）
+export interface EditorSettings {
+    title: string;
+    artist: string;
+    difficulty: Difficulty;
+    bpm: number;
+    offset: number;             // ミリ秒
+    snap: number;               // 1拍の分割数（4なら16分音符）
+}
+
+// ドラッグ中の音符
+interface DragState {
+    note: ChartNote;
+    moved: boolean;
+}
+
+export class ChartEditor {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private synth: SynthEngine;
+    private clock: SongClock;
+
+    private settings: EditorSettings;
+    private difficultyNotes: Partial<Record<Difficulty, ChartNote[]>> = {};
+    private loadedDifficulties: Chart['difficulties'] = {};    // 読み込んだ譜面の難易度（level・duration を保存時に残す）
+    private metadata: Chart['metadata'];
+    private audio?: string;
+    private instrument?: string;
+
+    private scrollTime: number = 0;     // 画面下端の時刻（ミリ秒）
+    private cursorTime: number = 0;     // 再生・テストプレイの開始位置（ミリ秒）
+    private pixelsPerMs: number = 0.2;
+    private drag: DragState | null = null;
+
+    private animationId: number | null = null;
+    private previewing: boolean = false;
+    private lastPreviewTime: number = 0;
+    private previewFirstFrame: boolean = false;     // 最初のフレームはカーソル位置ちょうどの音符も鳴らす
+
+    // レイアウト
+    private readonly gutterWidth = 60;  // 左端の時刻表示エリア
+    private readonly bottomMargin = 40;
+
+    // コールバック
+    private onPreviewStateChange?: (previewing: boolean) => void;
+
+    constructor(canvas: HTMLCanvasElement, synth: SynthEngine) {
+        this.canvas = canvas;
+        this.ctx = canvas.getContext('2d')!;
+        this.synth = synth;
+        this.clock = new SongClock(synth.getContext());
+
+        this.settings = {
+            title: '新しい譜面',
+            artist: '',
+            difficulty: 'normal',
+            bpm: DIFFICULTY_SETTINGS.normal.bpm,
+            offset: 2000,
+            snap: 4
+        };
+
+        window.addEventListener('resize', () => {
+            this.resizeCanvas();
+            this.draw();
+        });
+
+        this.setupPointerEvents();
+    }
+
+    /**
+     * キャンバスサイズ調整
+     */
+    private resizeCanvas(): void {
+        const container = this.canvas.parentElement;
+        if (container) {
+            this.canvas.width = container.clientWidth;
+            this.canvas.height = container.clientHeight;
+        }
+    }
+
+    /**
+     * マウス・タッチ操作の設定
+     */
+    private setupPointerEvents(): void {
+        this.canvas.addEventListener('pointerdown', (e) => this.handlePointerDown(e));
+        this.canvas.addEventListener('pointermove', (e) => this.handlePointerMove(e));
+        this.canvas.addEventListener('pointerup', () => this.handlePointerUp());
+        this.canvas.addEventListener('pointercancel', () => this.handlePointerUp());
+
+        // 右クリックメニューは削除操作に使う
+        this.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+
+        // ホイールでスクロール（下方向で過去へ）
+        this.canvas.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            this.scrollTime = Math.max(0, this.scrollTime - e.deltaY / this.pixelsPerMs * 0.5);
+            this.draw();
+        }, { passive: false });
+    }
+
+    /**
+     * ポインター押下：配置・削除・ドラッグ開始・カーソル移動
+     */
+    private handlePointerDown(e: PointerEvent): void {
+        const { x, y } = this.getCanvasPosition(e);
+        const time = this.snapTime(this.yToTime(y));
+
+        // 左端クリックでカーソル移動
+        if (x < this.gutterWidth) {
+            this.cursorTime = time;
+            this.draw();
+            return;
+        }
+
+        const lane = this.xToLane(x);
+        if (lane === null) return;
+
+        const hit = this.findNoteAt(x, y);
+
+        // 右クリック / Shift+クリックで削除
+        if (e.button === 2 || e.shiftKey) {
+            if (hit) {
+                this.removeNote(hit);
+                this.draw();
+            }
+            return;
+        }
+        if (e.button !== 0) return;
+
+        this.canvas.setPointerCapture(e.pointerId);
+
+        if (hit) {
+            this.playNotePreview(hit);
+            this.drag = { note: hit, moved: false };
+            return;
+        }
+
+        // 空きマスに配置
+        const note: ChartNote = { time, lane };
+        this.getNotes().push(note);
+        this.playNotePreview(note);
+        this.drag = { note, moved: true };
+        this.draw();
+    }
+
+    /**
+     * ポインター移動：ドラッグ中の音符を移動
+     */
+    private handlePointerMove(e: PointerEvent): void {
+        if (!this.drag) return;
+
+        const { x, y } = this.getCanvasPosition(e);
+        const time = this.snapTime(this.yToTime(y));
+        const lane = this.xToLane(x) ?? this.drag.note.lane;
+
+        if (time !== this.drag.note.time || lane !== this.drag.note.lane) {
+            this.drag.note.time = time;
+            this.drag.note.lane = lane;
+            this.drag.moved = true;
+            this.draw();
+        }
+    }
+
+    /**
+     * ポインター解放：ドラッグ終了
+     */
+    private handlePointerUp(): void {
+        if (!this.drag) return;
+
+        const { note, moved } = this.drag;
+        this.drag = null;
+
+        if (moved) {
+            // 同じ位置の音符は1つにまとめる
+            const notes = this.getNotes().filter((other) =>
+                other === note || other.time !== note.time || other.lane !== note.lane
+            );
+            this.setNotes(notes);
+            this.playNotePreview(note);
+        }
+        this.draw();
+    }
+
+    /**
+     * イベント座標をキャンバス座標に変換
+     */
+    private getCanvasPosition(e: MouseEvent): { x: number; y: number } {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (this.canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (this.canvas.height / rect.height)
+        };
+    }
+
+    /**
+     * レーン数
+     */
+    private getLaneCount(): number {
+        return DIFFICULTY_SETTINGS[this.settings.difficulty].availableKeys.length;
+    }
+
+    /**
+     * レーン配置（幅と左端X座標）
+     */
+    private getLaneLayout(): { laneWidth: number; startX: number } {
+        const laneCount = this.getLaneCount();
+        const available = this.canvas.width - this.gutterWidth;
+        const laneWidth = Math.min(80, available / laneCount);
+        const startX = this.gutterWidth + (available - laneWidth * laneCount) / 2;
+        return { laneWidth, startX };
+    }
+
+    private xToLane(x: number): number | null {
+        const { laneWidth, startX } = this.getLaneLayout();
+        const lane = Math.floor((x - startX) / laneWidth);
+        return lane >= 0 && lane < this.getLaneCount() ? lane : null;
+    }
+
+    private laneToX(lane: number): number {
+        const { laneWidth, startX } = this.getLaneLayout();
+        return startX + lane * laneWidth;
+    }
+
+    /**
+     * 時刻 → Y座標（時間は下から上へ進む）
+     */
+    private timeToY(time: number): number {
+        return this.canvas.height - this.bottomMargin - (time - this.scrollTime) * this.pixelsPerMs;
+    }
+
+    private yToTime(y: number): number {
+        return this.scrollTime + (this.canvas.height - this.bottomMargin - y) / this.pixelsPerMs;
+    }
+
+    /**
+     * スナップ間隔（ミリ秒）
+     */
+    private getSnapInterval(): number {
+        return 60000 / this.settings.bpm / this.settings.snap;
+    }
+
+    /**
+     * 時刻をグリッドに合わせる
+     */
+    private snapTime(time: number): number {
+        const interval = this.getSnapInterval();
+        return Math.max(0, Math.round(Math.round(time / interval) * interval));
+    }
+
+    /**
+     * 座標にある音符を探す
+     */
+    private findNoteAt(x: number, y: number): ChartNote | null {
+        const lane = this.xToLane(x);
+        if (lane === null) return null;
+
+        const noteHeight = 14;
+        for (const note of this.getNotes()) {
+            if (note.lane === lane && Math.abs(this.timeToY(note.time) - y) <= noteHeight / 2 + 2) {
+                return note;
+            }
+        }
+        return null;
+    }
+
+    private getNotes(): ChartNote[] {
+        const difficulty = this.settings.difficulty;
+        if (!this.difficultyNotes[difficulty]) {
+            this.difficultyNotes[difficulty] = [];
+        }
+        return this.difficultyNotes[difficulty]!;
+    }
+
+    private setNotes(notes: ChartNote[]): void {
+        this.difficultyNotes[this.settings.difficulty] = notes.sort((a, b) => a.time - b.time || a.lane - b.lane);
+    }
+
+    private removeNote(note: ChartNote): void {
+        this.setNotes(this.getNotes().filter((other) => other !== note));
+    }
+
+    /**
+     * 音符の音を鳴らす
+     */
+    private playNotePreview(note: ChartNote): void {
+        const noteName = DIFFICULTY_SETTINGS[this.settings.difficulty].availableKeys[note.lane];
+        this.synth.playSimpleNote(noteToFrequency(noteName, note.octave ?? 4), 0.3);
+    }
+
+    /**
+     * エディターを開く
+     * @param chart 編集する譜面（省略時は編集中の譜面を続ける）
+     */
+    open(chart?: Chart): void {
+        if (chart) {
+            this.loadChart(chart);
+        }
+
+        this.resizeCanvas();
+        this.draw();
+    }
+
+    /**
+     * 譜面を読み込んで編集対象にする
+     */
+    private loadChart(chart: Chart): void {
+        const difficulties = Object.keys(chart.difficulties) as Difficulty[];
+
+        this.settings = {
+            ...this.settings,
+            title: chart.title,
+            artist: chart.artist,
+            bpm: chart.bpm,
+            offset: chart.offset,
+            difficulty: difficulties.includes(this.settings.difficulty)
+                ? this.settings.difficulty
+                : difficulties[0] ?? 'normal'
+        };
+        this.metadata = chart.metadata;
+        this.audio = chart.audio;
+        this.instrument = chart.instrument;
+
+        this.difficultyNotes = {};
+        this.loadedDifficulties = chart.difficulties;
+        for (const difficulty of difficulties) {
+            this.difficultyNotes[difficulty] = chart.difficulties[difficulty]!.notes.map((note) => ({ ...note }));
+        }
+
+        this.scrollTime = 0;
+        this.cursorTime = 0;
+    }
+
+    /**
+     * 設定を変更
+     */
+    updateSettings(settings: Partial<EditorSettings>): void {
+        this.settings = { ...this.settings, ...settings };
+        this.draw();
+    }
+
+    /**
+     * 現在の設定を取得
+     */
+    getSettings(): EditorSettings {
+        return { ...this.settings };
+    }
+
+    /**
+     * カーソル位置（譜面上の時刻、オフセット適用前）
+     */
+    getCursorTime(): number {
+        return this.cursorTime;
+    }
+
+    /**
+     * 編集中の譜面を取得
+     * 音符のない難易度は含めない（編集中の難易度は常に含める）
+     */
+    getChart(): Chart {
+        const difficulties: Chart['difficulties'] = {};
+        for (const [difficulty, notes] of Object.entries(this.difficultyNotes) as [Difficulty, ChartNote[]][]) {
+            if (notes.length > 0 || difficulty === this.settings.difficulty) {
+                difficulties[difficulty] = {
+                    ...this.loadedDifficulties[difficulty],
+                    notes: [...notes]
+                        .sort((a, b) => a.time - b.time || a.lane - b.lane)
+                        .map((note) => ({ ...note }))
+                };
+            }
+        }
+        if (!difficulties[this.settings.difficulty]) {
+            difficulties[this.settings.difficulty] = { ...this.loadedDifficulties[this.settings.difficulty], notes: [] };
+        }
+
+        return {
+            version: CHART_FORMAT_VERSION,
+            title: this.settings.title || '新しい譜面',
+            artist: this.settings.artist,
+            bpm: this.settings.bpm,
+            offset: this.settings.offset,
+            audio: this.audio,
+            instrument: this.instrument,
+            metadata: {
+                ...this.metadata,
+                createdAt: this.metadata?.createdAt ?? new Date().toISOString()
+            },
+            difficulties
+        };
+    }
+
+    /**
+     * カーソル位置からプレビュー再生
+     */
+    startPreview(): void {
+        if (this.previewing) return;
+
+        this.previewing = true;
+        this.lastPreviewTime = this.cursorTime;
+        this.previewFirstFrame = true;
+        this.clock.start(this.cursorTime);
+
+        if (this.onPreviewStateChange) {
+            this.onPreviewStateChange(true);
+        }
+        this.animatePreview();
+    }
+
+    /**
+     * プレビュー停止
+     */
+    stopPreview(): void {
+        if (!this.previewing) return;
+
+        this.previewing = false;
+        this.clock.stop();
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
+        }
+
+        if (this.onPreviewStateChange) {
+            this.onPreviewStateChange(false);
+        }
+        this.draw();
+    }
+
+    /**
+     * プレビュー中かどうか
+     */
+    isPreviewing(): boolean {
+        return this.previewing;
+    }
+
+    /**
+     * プレビューのアニメーションループ
+     */
+    private animatePreview = (): void => {
+        if (!this.previewing) return;
+
+        const currentTime = this.clock.now();
+
+        // 前フレームから今フレームまでに判定ラインを通過した音符を鳴らす（最初のフレームは開始位置を含む）
+        for (const note of this.getNotes()) {
+            const passed = this.previewFirstFrame ? note.time >= this.lastPreviewTime : note.time > this.lastPreviewTime;
+            if (passed && note.time <= currentTime) {
+                this.playNotePreview(note);
+            }
+        }
+        this.lastPreviewTime = currentTime;
+        this.previewFirstFrame = false;
+
+        // 再生位置が画面内に収まるようにスクロール
+        const visibleDuration = (this.canvas.height - this.bottomMargin) / this.pixelsPerMs;
+        if (currentTime > this.scrollTime + visibleDuration * 0.5) {
+            this.scrollTime = currentTime - visibleDuration * 0.5;
+        }
+
+        this.draw(currentTime);
+
+        // 最後の音符から1秒経ったら停止
+        const lastNoteTime = Math.max(this.cursorTime, ...this.getNotes().map((note) => note.time));
+        if (currentTime > lastNoteTime + 1000) {
+            this.stopPreview();
+            return;
+        }
+
+        this.animationId = requestAnimationFrame(this.animatePreview);
+    };
+
+    /**
+     * 描画処理
+     * @param playTime プレビュー中の再生位置
+     */
+    draw(playTime?: number): void {
+        const { width, height } = this.canvas;
+        if (width === 0 || height === 0) return;
+
+        this.ctx.fillStyle = 'rgba(10, 10, 30, 1)';
+        this.ctx.fillRect(0, 0, width, height);
+
+        this.drawLanes();
+        this.drawGrid();
+        this.drawNotes();
+        this.drawTimeLine(this.cursorTime, '#FF6B6B');
+        if (playTime !== undefined) {
+            this.drawTimeLine(playTime, '#FFD700');
+        }
+    }
+
+    /**
+     * レーンを描画
+     */
+    private drawLanes(): void {
+        const { laneWidth } = this.getLaneLayout();
+        const keys = DIFFICULTY_SETTINGS[this.settings.difficulty].availableKeys;
+
+        keys.forEach((noteName, lane) => {
+            const x = this.laneToX(lane);
+            this.ctx.fillStyle = lane % 2 === 0 ? 'rgba(50, 50, 80, 0.3)' : 'rgba(30, 30, 60, 0.3)';
+            this.ctx.fillRect(x, 0, laneWidth, this.canvas.height);
+
+            // 下端に音名
+            this.ctx.fillStyle = this.getNoteColor(noteName);
+            this.ctx.font = '14px Arial';
+            this.ctx.textAlign = 'center';
+            this.ctx.textBaseline = 'middle';
+            this.ctx.fillText(noteName, x + laneWidth / 2, this.canvas.height - this.bottomMargin / 2);
+        });
+    }
+
+    /**
+     * 拍・小節のグリッドを描画
+     */
+    private drawGrid(): void {
+        const beatInterval = 60000 / this.settings.bpm;
+        const snapInterval = this.getSnapInterval();
+        const { laneWidth } = this.getLaneLayout();
+        const left = this.laneToX(0);
+        const right = left + laneWidth * this.getLaneCount();
+
+        const startIndex = Math.max(0, Math.floor(this.scrollTime / snapInterval));
+        const endTime = this.yToTime(0);
+
+        for (let i = startIndex; i * snapInterval <= endTime; i++) {
+            const time = i * snapInterval;
+            const y = this.timeToY(time);
+            const isBeat = i % this.settings.snap === 0;
+            const beat = Math.round(time / beatInterval);
+            const isMeasure = isBeat && beat % 4 === 0;
+
+            this.ctx.strokeStyle = isMeasure
+                ? 'rgba(255, 255, 255, 0.6)'
+                : isBeat ? 'rgba(255, 255, 255, 0.3)' : 'rgba(255, 255, 255, 0.08)';
+            this.ctx.lineWidth = isMeasure ? 2 : 1;
+            this.ctx.beginPath();
+            this.ctx.moveTo(left, y);
+            this.ctx.lineTo(right, y);
+            this.ctx.stroke();
+
+            // 小節番号
+            if (isMeasure) {
+                this.ctx.fillStyle = '#aaaaaa';
+                this.ctx.font = '12px Arial';
+                this.ctx.textAlign = 'right';
+                this.ctx.textBaseline = 'middle';
+                this.ctx.fillText(`${beat / 4 + 1}`, this.gutterWidth - 8, y);
+            }
+        }
+    }
+
+    /**
+     * 音符を描画
+     */
+    private drawNotes(): void {
+        const { laneWidth } = this.getLaneLayout();
+        const keys = DIFFICULTY_SETTINGS[this.settings.difficulty].availableKeys;
+        const noteHeight = 14;
+
+        for (const note of this.getNotes()) {
+            const y = this.timeToY(note.time);
+            const endY = this.timeToY(note.time + (note.duration ?? 0));
+            if (endY > this.canvas.height + noteHeight || y < -noteHeight) continue;
+
+            const x = this.laneToX(note.lane);
+            
+            // ホールドの尾
+            if (note.duration !== undefined) {
+                const tailY = this.timeToY(note.time + note.duration);
+                this.ctx.save();
+                this.ctx.globalAlpha = 0.5;
+                this.ctx.fillStyle = this.getNoteColor(keys[note.lane]);
+                this.ctx.fillRect(x + laneWidth / 4, tailY, laneWidth / 2, y - tailY);
+                this.ctx.restore();
+            }
+            
+            this.ctx.fillStyle = this.getNoteColor(keys[note.lane]);
+            this.ctx.strokeStyle = this.drag?.note === note ? '#FFFFFF' : 'rgba(0, 0, 0, 0.5)';
+            this.ctx.lineWidth = 2;
+            this.ctx.beginPath();
+            this.ctx.roundRect(x + 4, y - noteHeight / 2, laneWidth - 8, noteHeight, 4);
+            this.ctx.fill();
+            this.ctx.stroke();
+        }
+    }
+
+    /**
+     * カーソル・再生位置の横線を描画
+     */
+    private drawTimeLine(time: number, color: string): void {
+        const y = this.timeToY(time);
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = 2;
+        this.ctx.beginPath();
+        this.ctx.moveTo(0, y);
+        this.ctx.lineTo(this.canvas.width, y);
+        this.ctx.stroke();
+
+        // 左端に三角マーカー
+        this.ctx.fillStyle = color;
+        this.ctx.beginPath();
+        this.ctx.moveTo(0, y - 6);
+        this.ctx.lineTo(10, y);
+        this.ctx.lineTo(0, y + 6);
+        this.ctx.fill();
+    }
+
+    /**
+     * 音名に応じた色を取得
+     */
+    private getNoteColor(noteName: string): string {
+        const colorMap: Record<string, string> = {
+            'C': '#4ECDC4',
+            'C#': '#9B59B6',
+            'D': '#3498DB',
+            'D#': '#5DADE2',
+            'E': '#2ECC71',
+            'F': '#F39C12',
+            'F#': '#E74C3C',
+            'G': '#F1C40F',
+            'G#': '#E67E22',
+            'A': '#E91E63',
+            'A#': '#9C27B0',
+            'B': '#00BCD4'
+        };
+
+        return colorMap[noteName] || '#4ECDC4';
+    }
+
+    /**
+     * コールバック設定
+     */
+    setCallbacks(callbacks: {
+        onPreviewStateChange?: (previewing: boolean) => void;
+    }): void {
+        this.onPreviewStateChange = callbacks.onPreviewStateChange;
+    }
+
+    /**
+     * クリーンアップ
+     */
+    dispose(): void {
+        this.stopPreview();
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * エディターモジュールのエクスポート
+ */
+
+export * from './ChartEditor';
@@ -23,6 +23,7 @@ export class ParticleSystem {
     private particles: Particle[] = [];
     private animationId: number | null = null;
     private isRunning: boolean = false;
+    private isPaused: boolean = false;
 
     constructor(canvas: HTMLCanvasElement) {
         this.canvas = canvas;
@@ -68,7 +69,7 @@ export class ParticleSystem {
         }
 
         // アニメーション開始
-        if (!this.isRunning) {
+        if (!this.isRunning && !this.isPaused) {
             this.start();
         }
     }
@@ -204,6 +205,29 @@ export class ParticleSystem {
         }
     }
 
+    /**
+     * 一時停止（パーティクルはその場で静止）
+     */
+    pause(): void {
+        this.isPaused = true;
+        this.isRunning = false;
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
+        }
+    }
+
+    /**
+     * 一時停止から再開
+     */
+    resume(): void {
+        if (!this.isPaused) return;
+        this.isPaused = false;
+        if (this.particles.length > 0) {
+            this.start();
+        }
+    }
+
     /**
      * クリーンアップ
      */
@@ -214,6 +238,7 @@ export class ParticleSystem {
         }
         this.particles = [];
         this.isRunning = false;
+        this.isPaused = false;
     }
 }
 
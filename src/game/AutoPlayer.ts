@@ -0,0 +1,65 @@
+/**
+ * オートプレイのボット
+ * 音符の時刻からレーンを押す・離す入力を作り、プレイヤーの入力と同じように判定させる
+ *
+ * ばらつき・見逃しを設定すると人間らしく外す（どちらも0なら全音符Perfect）
+ */
+
+import type { AutoPlayInputEvent, AutoPlayOptions, GameNote } from '../types';
+import { SeededRandom } from '../utils';
+
+export class AutoPlayer {
+    private events: AutoPlayInputEvent[];
+    private index: number = 0;
+
+    /**
+     * @param notes 判定対象の音符
+     * @param seed ばらつき・見逃しの乱数シード（省略時はランダム）
+     */
+    constructor(
+        notes: readonly GameNote[],
+        options: AutoPlayOptions,
+        seed: number = SeededRandom.createSeed()
+    ) {
+        const random = new SeededRandom(seed);
+        const events: AutoPlayInputEvent[] = [];
+
+        for (const note of notes) {
+            // 見逃す音符は押さない（シミュレーションがMissにする）
+            if (random.next() < options.missRate) continue;
+
+            const pressTime = note.time + AutoPlayer.gaussian(random) * options.timingError;
+            events.push({ type: 'laneDown', lane: note.lane, time: pressTime });
+
+            // ホールドは終点で離す（押す前には離さない）
+            if (note.endTime !== undefined) {
+                const releaseTime = note.endTime + AutoPlayer.gaussian(random) * options.timingError;
+                events.push({ type: 'laneUp', lane: note.lane, time: Math.max(pressTime, releaseTime) });
+            }
+        }
+
+        // 時刻順（同じ時刻なら、同じレーンの次の音符を押せるよう離す方を先に）
+        this.events = events.sort((a, b) => a.time - b.time
+            || (a.type === b.type ? 0 : a.type === 'laneUp' ? -1 : 1));
+    }
+
+    /**
+     * 指定した入力時刻までの入力を取り出す
+     */
+    poll(inputTime: number): AutoPlayInputEvent[] {
+        const start = this.index;
+        while (this.index < this.events.length && this.events[this.index].time <= inputTime) {
+            this.index++;
+        }
+        return this.events.slice(start, this.index);
+    }
+
+    /**
+     * 標準正規分布に従う乱数（Box-Muller法）
+     */
+    private static gaussian(random: SeededRandom): number {
+        const u = 1 - random.next();    // log(0) を避ける
+        const v = random.next();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+}
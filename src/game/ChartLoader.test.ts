@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { ChartLoadError, ChartLoader } from './ChartLoader';
+
+/**
+ * 正しい譜面に一部の項目を足したJSON文字列
+ */
+function chartJSON(overrides: Record<string, unknown> = {}): string {
+    return JSON.stringify({
+        version: 1,
+        title: 'テスト',
+        artist: 'テスト',
+        bpm: 120,
+        offset: 0,
+        difficulties: { easy: { notes: [{ time: 1000, lane: 0 }] } },
+        ...overrides
+    }, null, 2);
+}
+
+/**
+ * 解析して投げられたChartLoadErrorを返す
+ */
+function parseError(text: string): ChartLoadError {
+    try {
+        new ChartLoader().parse(text);
+    } catch (error) {
+        if (error instanceof ChartLoadError) return error;
+        throw error;
+    }
+    throw new Error('ChartLoadErrorが投げられませんでした');
+}
+
+describe('ChartLoader.parse', () => {
+    it('正しい譜面を読み込める', () => {
+        const chart = new ChartLoader().parse(chartJSON());
+        expect(chart.difficulties.easy?.notes).toEqual([{ time: 1000, lane: 0 }]);
+    });
+
+    it('プロトタイプのキー（toString）の難易度は不明な難易度として行番号付きで報告する', () => {
+        const error = parseError(chartJSON({
+            difficulties: { toString: { notes: [{ time: 1000, lane: 0 }] } }
+        }));
+        expect(error.errors).toEqual([
+            expect.objectContaining({ path: 'difficulties.toString', line: 8 })
+        ]);
+    });
+
+    it('プロトタイプのキー（toString）の音色は受け付けない', () => {
+        const error = parseError(chartJSON({ instrument: 'toString' }));
+        expect(error.errors.map((e) => e.path)).toEqual(['instrument']);
+    });
+
+    it('必須項目（トップレベルのキー）がなければ、ルートの行番号で報告する', () => {
+        const error = parseError(chartJSON({ title: undefined, artist: undefined }));
+        expect(error.errors).toEqual([
+            expect.objectContaining({ path: 'title', line: 1 }),
+            expect.objectContaining({ path: 'artist', line: 1 })
+        ]);
+    });
+
+    it('難易度ごとの譜面がなければ、ルートの行番号で報告する', () => {
+        const error = parseError(chartJSON({ difficulties: undefined }));
+        expect(error.errors).toEqual([expect.objectContaining({ path: 'difficulties', line: 1 })]);
+    });
+
+    it('音符の必須項目がなければ、その音符の行番号で報告する', () => {
+        const error = parseError(chartJSON({ difficulties: { easy: { notes: [{ time: 1000 }] } } }));
+        expect(error.errors).toEqual([
+            expect.objectContaining({ path: 'difficulties.easy.notes[0].lane', line: 10 })
+        ]);
+    });
+
+    it('同じレーンの次の音符と重なるホールドは受け付けない', () => {
+        const error = parseError(chartJSON({
+            difficulties: {
+                easy: { notes: [{ time: 1000, lane: 0, duration: 500 }, { time: 1500, lane: 0 }] }
+            }
+        }));
+        expect(error.errors).toEqual([
+            expect.objectContaining({ path: 'difficulties.easy.notes[0].duration', line: 13 })
+        ]);
+    });
+
+    it('ホールドが次の音符の前に終わる・別のレーンなら受け付ける', () => {
+        const chart = new ChartLoader().parse(chartJSON({
+            difficulties: {
+                easy: {
+                    notes: [
+                        { time: 1000, lane: 0, duration: 499 },
+                        { time: 1200, lane: 1 },
+                        { time: 1500, lane: 0 }
+                    ]
+                }
+            }
+        }));
+        expect(chart.difficulties.easy?.notes).toHaveLength(3);
+    });
+});
+
+describe('ChartLoader.validate', () => {
+    it('行番号の対応表がなくても、エラーを行番号0で返す', () => {
+        const errors = new ChartLoader().validate({ version: 1, bpm: 120, difficulties: { hard: { notes: [{ time: -1, lane: 9 }] } } });
+        expect(errors.map((e) => [e.path, e.line])).toEqual([
+            ['title', 0],
+            ['artist', 0],
+            ['difficulties.hard.notes[0].time', 0],
+            ['difficulties.hard.notes[0].lane', 0]
+        ]);
+    });
+
+    it('BPMは有限の正の数のみ', () => {
+        const loader = new ChartLoader();
+        const chart = { version: 1, title: 'テスト', artist: '', difficulties: { easy: { notes: [] } } };
+        for (const bpm of [Infinity, -Infinity, NaN, 0, -120, '120']) {
+            expect(loader.validate({ ...chart, bpm }).map((e) => e.path)).toEqual(['bpm']);
+        }
+        expect(loader.validate({ ...chart, bpm: 120 })).toEqual([]);
+    });
+});
@@ -0,0 +1,430 @@
+/**
+ * 譜面ファイルの読み込みと検証を行うクラス
+ */
+
+import type {
+    Chart,
+    ChartDifficulty,
+    ChartError,
+    ChartNote,
+    Difficulty,
+    GameNote,
+    Track
+} from '../types';
+import { CHART_FORMAT_VERSION, CHART_OCTAVE_RANGE, DIFFICULTY_SETTINGS, INSTRUMENT_PATCHES, noteToFrequency } from '../types';
+import { isFiniteNumber, isObject } from '../utils';
+
+/**
+ * 譜面の読み込みエラー（検証エラーをまとめて保持）
+ */
+export class ChartLoadError extends Error {
+    readonly errors: ChartError[];
+
+    constructor(errors: ChartError[]) {
+        super(errors.map((e) => `${e.line}行目: ${e.path ? `${e.path}: ` : ''}${e.message}`).join('\n'));
+        this.name = 'ChartLoadError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * 行番号を記録しながらJSONを解析するパーサー
+ * JSON.parseでは値の位置がわからないため、検証エラーの行番号表示用に使う
+ */
+class LineTrackingParser {
+    private text: string;
+    private pos: number = 0;
+    private line: number = 1;
+    readonly lines: Map<string, number> = new Map();
+
+    constructor(text: string) {
+        this.text = text;
+    }
+
+    parse(): unknown {
+        const value = this.parseValue('');
+        this.skipWhitespace();
+        if (this.pos < this.text.length) {
+            this.fail('JSONの末尾に余分な文字があります');
+        }
+        return value;
+    }
+
+    private parseValue(path: string): unknown {
+        this.skipWhitespace();
+        this.lines.set(path, this.line);
+
+        const char = this.text[this.pos];
+        if (char === '{') return this.parseObject(path);
+        if (char === '[') return this.parseArray(path);
+        if (char === '"') return this.parseString();
+        if (char === '-' || (char >= '0' && char <= '9')) return this.parseNumber();
+        if (this.text.startsWith('true', this.pos)) { this.pos += 4; return true; }
+        if (this.text.startsWith('false', this.pos)) { this.pos += 5; return false; }
+        if (this.text.startsWith('null', this.pos)) { this.pos += 4; return null; }
+
+        return this.fail(char === undefined ? 'JSONが途中で終わっています' : `予期しない文字 '${char}' があります`);
+    }
+
+    private parseObject(path: string): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        this.pos++; // {
+        this.skipWhitespace();
+
+        if (this.text[this.pos] === '}') {
+            this.pos++;
+            return result;
+        }
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.text[this.pos] !== '"') {
+                this.fail('キーは文字列である必要があります');
+            }
+            const key = this.parseString();
+            this.skipWhitespace();
+            this.expect(':');
+            result[key] = this.parseValue(path ? `${path}.${key}` : key);
+            this.skipWhitespace();
+
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                continue;
+            }
+            this.expect('}');
+            return result;
+        }
+    }
+
+    private parseArray(path: string): unknown[] {
+        const result: unknown[] = [];
+        this.pos++; // [
+        this.skipWhitespace();
+
+        if (this.text[this.pos] === ']') {
+            this.pos++;
+            return result;
+        }
+
+        while (true) {
+            result.push(this.parseValue(`${path}[${result.length}]`));
+            this.skipWhitespace();
+
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                continue;
+            }
+            this.expect(']');
+            return result;
+        }
+    }
+
+    private parseString(): string {
+        const start = this.pos;
+        this.pos++; // "
+
+        while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+            if (this.text[this.pos] === '\n') {
+                this.fail('文字列が閉じられていません');
+            }
+            this.pos += this.text[this.pos] === '\\' ? 2 : 1;
+        }
+        if (this.pos >= this.text.length) {
+            this.fail('文字列が閉じられていません');
+        }
+        this.pos++; // "
+
+        try {
+            return JSON.parse(this.text.slice(start, this.pos)) as string;
+        } catch {
+            return this.fail('不正なエスケープシーケンスがあります');
+        }
+    }
+
+    private parseNumber(): number {
+        const pattern = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+        pattern.lastIndex = this.pos;
+        const match = pattern.exec(this.text);
+        if (!match) {
+            this.fail('不正な数値です');
+        }
+        this.pos += match[0].length;
+        return Number(match[0]);
+    }
+
+    private expect(char: string): void {
+        if (this.text[this.pos] !== char) {
+            this.fail(`'${char}' が必要です`);
+        }
+        this.pos++;
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '\n') {
+                this.line++;
+            } else if (char !== ' ' && char !== '\t' && char !== '\r') {
+                break;
+            }
+            this.pos++;
+        }
+    }
+
+    private fail(message: string): never {
+        throw new ChartLoadError([{ line: this.line, path: '', message }]);
+    }
+}
+
+export class ChartLoader {
+    /**
+     * 譜面ファイル（JSON文字列）を解析・検証
+     * 問題があればChartLoadErrorを投げる
+     */
+    parse(text: string): Chart {
+        const parser = new LineTrackingParser(text);
+        const data = parser.parse();
+
+        const errors = this.validate(data, parser.lines);
+        if (errors.length > 0) {
+            throw new ChartLoadError(errors);
+        }
+
+        return this.normalize(data as Chart);
+    }
+
+    /**
+     * ファイルから譜面を読み込み
+     */
+    async loadFromFile(file: File): Promise<Chart> {
+        const text = await file.text();
+        return this.parse(text);
+    }
+
+    /**
+     * URLから譜面を読み込み
+     */
+    async loadFromURL(url: string): Promise<Chart> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`譜面の取得に失敗しました: ${url} (${response.status})`);
+        }
+        return this.parse(await response.text());
+    }
+
+    /**
+     * 譜面データを検証してエラー一覧を返す
+     * @param lines JSONパス → 行番号の対応表（なければ行番号は0）
+     */
+    validate(data: unknown, lines: Map<string, number> = new Map()): ChartError[] {
+        const errors: ChartError[] = [];
+        const addError = (path: string, message: string) => {
+            // 値が存在しない場合は親の行番号を使う（トップレベルのキーの親はルート ''）
+            let lookup = path;
+            while (!lines.has(lookup) && lookup !== '') {
+                const parent = lookup.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '');
+                lookup = parent === lookup ? '' : parent;
+            }
+            errors.push({ line: lines.get(lookup) ?? 0, path, message });
+        };
+
+        if (!isObject(data)) {
+            addError('', '譜面はJSONオブジェクトである必要があります');
+            return errors;
+        }
+
+        // バージョン
+        if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+            addError('version', 'バージョンは1以上の整数である必要があります');
+        } else if (data.version > CHART_FORMAT_VERSION) {
+            addError('version', `未対応のバージョンです（対応: ${CHART_FORMAT_VERSION}まで）`);
+        }
+
+        // 曲情報
+        if (typeof data.title !== 'string' || data.title.trim() === '') {
+            addError('title', '曲名（title）は空でない文字列である必要があります');
+        }
+        if (typeof data.artist !== 'string') {
+            addError('artist', 'アーティスト名（artist）は文字列である必要があります');
+        }
+        if (!isFiniteNumber(data.bpm) || data.bpm <= 0) {
+            addError('bpm', 'BPMは正の数である必要があります');
+        }
+        if (data.offset !== undefined && !isFiniteNumber(data.offset)) {
+            addError('offset', 'オフセットは数値（ミリ秒）である必要があります');
+        }
+        if (data.audio !== undefined && typeof data.audio !== 'string') {
+            addError('audio', '音源ファイル（audio）は文字列である必要があります');
+        }
+        if (data.instrument !== undefined
+            && (typeof data.instrument !== 'string' || !Object.hasOwn(INSTRUMENT_PATCHES, data.instrument))) {
+            addError('instrument', `音色（instrument）は ${Object.keys(INSTRUMENT_PATCHES).join(' / ')} のいずれかである必要があります`);
+        }
+        if (data.metadata !== undefined && !isObject(data.metadata)) {
+            addError('metadata', 'メタデータはオブジェクトである必要があります');
+        }
+
+        // 難易度ごとの譜面
+        if (!isObject(data.difficulties)) {
+            addError('difficulties', '難易度ごとの譜面（difficulties）はオブジェクトである必要があります');
+            return errors;
+        }
+
+        const difficulties = Object.keys(data.difficulties);
+        if (difficulties.length === 0) {
+            addError('difficulties', '少なくとも1つの難易度が必要です');
+        }
+
+        for (const difficulty of difficulties) {
+            const path = `difficulties.${difficulty}`;
+            if (!Object.hasOwn(DIFFICULTY_SETTINGS, difficulty)) {
+                addError(path, `不明な難易度です（${Object.keys(DIFFICULTY_SETTINGS).join(' / ')}）`);
+                continue;
+            }
+            this.validateDifficulty(
+                data.difficulties[difficulty],
+                DIFFICULTY_SETTINGS[difficulty as Difficulty].availableKeys.length,
+                path,
+                addError
+            );
+        }
+
+        return errors;
+    }
+
+    /**
+     * 1難易度分の譜面を検証
+     */
+    private validateDifficulty(
+        data: unknown,
+        laneCount: number,
+        path: string,
+        addError: (path: string, message: string) => void
+    ): void {
+        if (!isObject(data)) {
+            addError(path, '譜面はオブジェクトである必要があります');
+            return;
+        }
+        if (data.level !== undefined && !isFiniteNumber(data.level)) {
+            addError(`${path}.level`, 'レベルは数値である必要があります');
+        }
+        if (data.duration !== undefined && !(isFiniteNumber(data.duration) && data.duration > 0)) {
+            addError(`${path}.duration`, '曲の長さは正の数（ミリ秒）である必要があります');
+        }
+        if (!Array.isArray(data.notes)) {
+            addError(`${path}.notes`, '音符（notes）は配列である必要があります');
+            return;
+        }
+
+        const seen = new Set<string>();
+        const laneNotes = new Map<number, { time: number; duration?: number; path: string }[]>();
+        data.notes.forEach((note: unknown, index: number) => {
+            const notePath = `${path}.notes[${index}]`;
+            if (!isObject(note)) {
+                addError(notePath, '音符はオブジェクトである必要があります');
+                return;
+            }
+            if (!isFiniteNumber(note.time) || note.time < 0) {
+                addError(`${notePath}.time`, '時刻は0以上の数値（ミリ秒）である必要があります');
+            }
+            if (typeof note.lane !== 'number' || !Number.isInteger(note.lane)
+                || note.lane < 0 || note.lane >= laneCount) {
+                addError(`${notePath}.lane`, `レーン番号は0〜${laneCount - 1}の整数である必要があります`);
+            }
+            if (note.octave !== undefined && (typeof note.octave !== 'number'
+                || !Number.isInteger(note.octave)
+                || note.octave < CHART_OCTAVE_RANGE.min || note.octave > CHART_OCTAVE_RANGE.max)) {
+                addError(`${notePath}.octave`,
+                    `オクターブは${CHART_OCTAVE_RANGE.min}〜${CHART_OCTAVE_RANGE.max}の整数である必要があります`);
+            }
+            if (note.duration !== undefined && !(isFiniteNumber(note.duration) && note.duration > 0)) {
+                addError(`${notePath}.duration`, 'ホールドの長さは正の数（ミリ秒）である必要があります');
+            }
+
+            const key = `${note.time}:${note.lane}`;
+            if (seen.has(key)) {
+                addError(notePath, '同じ時刻・同じレーンの音符が重複しています');
+            }
+            seen.add(key);
+
+            if (isFiniteNumber(note.time) && typeof note.lane === 'number') {
+                laneNotes.set(note.lane, [...(laneNotes.get(note.lane) ?? []), {
+                    time: note.time,
+                    duration: isFiniteNumber(note.duration) ? note.duration : undefined,
+                    path: notePath
+                }]);
+            }
+        });
+
+        // ホールド中のレーンは押せないため、同じレーンの次の音符と重なるホールドは取れない
+        for (const notes of laneNotes.values()) {
+            notes.sort((a, b) => a.time - b.time);
+            notes.forEach((note, i) => {
+                const next = notes[i + 1];
+                if (note.duration !== undefined && next && next.time > note.time
+                    && next.time <= note.time + note.duration) {
+                    addError(`${note.path}.duration`, `ホールドが同じレーンの次の音符（${next.path}）と重なっています`);
+                }
+            });
+        }
+    }
+
+    /**
+     * 省略可能な項目を補完し、音符を時刻順に並べる
+     */
+    private normalize(chart: Chart): Chart {
+        const difficulties: Chart['difficulties'] = {};
+        for (const [difficulty, data] of Object.entries(chart.difficulties) as [Difficulty, ChartDifficulty][]) {
+            difficulties[difficulty] = {
+                ...data,
+                notes: [...data.notes].sort((a, b) => a.time - b.time || a.lane - b.lane)
+            };
+        }
+
+        return {
+            ...chart,
+            offset: chart.offset ?? 0,
+            difficulties
+        };
+    }
+
+    /**
+     * 譜面をゲームで再生できるトラックに変換
+     */
+    toTrack(chart: Chart, difficulty: Difficulty): Track {
+        const data = chart.difficulties[difficulty];
+        if (!data) {
+            throw new Error(`譜面に難易度 ${difficulty} がありません`);
+        }
+
+        const availableKeys = DIFFICULTY_SETTINGS[difficulty].availableKeys;
+        const notes: GameNote[] = data.notes.map((note: ChartNote, index: number) => {
+            const noteName = availableKeys[note.lane];
+            const gameNote: GameNote = {
+                id: `note_${index}_${note.lane}`,
+                time: note.time + chart.offset,
+                lane: note.lane,
+                frequency: noteToFrequency(noteName, note.octave ?? 4),
+                noteName,
+                y: 0,
+                active: true
+            };
+            if (note.duration !== undefined) {
+                gameNote.endTime = gameNote.time + note.duration;
+            }
+            return gameNote;
+        });
+
+        // ホールドの終点も含めて最後の時刻を求める
+        const lastNoteTime = Math.max(0, ...notes.map((note) => note.endTime ?? note.time));
+
+        return {
+            id: `chart_${chart.title}_${difficulty}`,
+            name: chart.title,
+            difficulty,
+            bpm: chart.bpm,
+            notes,
+            duration: data.duration ?? lastNoteTime + 2000 // 終了後2秒の余韻
+        };
+    }
+}
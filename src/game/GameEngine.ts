@@ -10,19 +10,45 @@ import type {
     GameConfig, 
     Track, 
     GameNote,
-    RecordedNote
+    Judgment,
+    JudgmentType,
+    AudioEffects,
+    LatencyOffsets,
+    AutoPlayOptions,
+    PlayHistory,
+    RecordedNote,
+    ReplayData,
+    PitchStats,
+    TimingStats,
+    PauseMenuAction
 } from '../types';
-import { DIFFICULTY_SETTINGS } from '../types';
-import { SynthEngine } from '../audio';
+import { DIFFICULTY_SETTINGS, REPLAY_FORMAT_VERSION, calculateAccuracy } from '../types';
+import { SynthEngine, SongClock } from '../audio';
 import { ParticleSystem } from '../effects';
+import { KeyBindings, LatencySettings, GamepadInput, MicrophoneInput } from '../input';
 import { NoteJudge } from './NoteJudge';
+import { GameSimulation } from './GameSimulation';
+import { AutoPlayer } from './AutoPlayer';
 import { TrackGenerator } from './TrackGenerator';
+import { ReplayLoader } from './ReplayLoader';
+import { calculateTimingStats } from './TimingStats';
+import { calculatePitchStats } from './PitchStats';
 
 export class GameEngine {
+    // 途中から開始する場合の助走時間（ミリ秒）
+    private static readonly LEAD_IN_TIME = 2000;
+    // 単音を鳴らす長さ（秒）
+    private static readonly NOTE_DURATION = 0.3;
+    
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
     private synth: SynthEngine;
+    private clock: SongClock;
     private particles: ParticleSystem;
+    private keyBindings: KeyBindings;
+    private latency: LatencySettings;
+    private gamepad: GamepadInput;
+    private microphone: MicrophoneInput;
     private judge: NoteJudge;
     private trackGenerator: TrackGenerator;
     
@@ -30,30 +56,61 @@ export class GameEngine {
     private config: GameConfig;
     private state: GameState;
     private track: Track | null = null;
-    private activeNotes: GameNote[] = [];
+    private simulation: GameSimulation | null = null;   // 判定・スコアのルール（state はこの集計を表示用に写したもの）
+    private recording: RecordedNote[] = [];         // 判定した音符の録音（見逃した音符は無音で記録）
     
     private animationId: number | null = null;
-    private startTime: number = 0;
-    private lastUpdateTime: number = 0;
     
-    // キーバインディング
+    // キーバインディング（KeyboardEvent.code → レーン番号）
     private keyMap: Map<string, number> = new Map();
     private pressedKeys: Set<string> = new Set();
+    
+    // ホールド中に鳴らしているボイス（レーン番号 → ボイスと、長さを離したときに確定する録音）
+    private heldVoices: Map<number, { voiceId: number; recorded: RecordedNote }> = new Map();
+    
+    // タッチ・マウスで押しているレーン（離したときの判定用）
+    private touchLanes: Map<number, number> = new Map();
+    private mouseLane: number | null = null;
+    
+    // マイク入力で歌っているレーン（歌い終わりの判定用）
+    private singingLane: number | null = null;
+    
+    // 開始時の遅延補正（リプレイに保存する。途中の変更は入力として記録される）
+    private startLatency: LatencyOffsets = { audio: 0, visual: 0 };
+    
+    // リプレイ（再生中のリプレイ・直前のプレイのリプレイ）
+    private replay: ReplayData | null = null;
+    private replayIndex: number = 0;
+    private lastReplay: ReplayData | null = null;
+    
+    // オートプレイのボット（プレイヤーの入力は受け付けない）
+    private autoPlayer: AutoPlayer | null = null;
 
     // コールバック
     private onScoreUpdate?: (score: number, combo: number) => void;
-    private onJudgment?: (judgment: string, x: number, y: number) => void;
-    private onGameEnd?: (state: GameState, recording: RecordedNote[]) => void;
+    private onJudgment?: (judgment: Judgment, x: number, y: number) => void;
+    private onGameEnd?: (state: GameState, recording: RecordedNote[], history: PlayHistory) => void;
+    private onPause?: () => void;
+    private onPauseMenu?: (action: PauseMenuAction) => void;
 
     constructor(
         canvas: HTMLCanvasElement,
         synth: SynthEngine,
-        particles: ParticleSystem
+        particles: ParticleSystem,
+        keyBindings: KeyBindings,
+        latency: LatencySettings,
+        gamepad: GamepadInput,
+        microphone: MicrophoneInput
     ) {
         this.canvas = canvas;
         this.ctx = canvas.getContext('2d')!;
         this.synth = synth;
+        this.clock = new SongClock(synth.getContext());
         this.particles = particles;
+        this.keyBindings = keyBindings;
+        this.latency = latency;
+        this.gamepad = gamepad;
+        this.microphone = microphone;
         
         this.difficultyConfig = DIFFICULTY_SETTINGS.normal;
         this.judge = new NoteJudge(this.difficultyConfig);
@@ -82,6 +139,9 @@ export class GameEngine {
         
         // タッチイベントの設定
         this.setupTouchEvents();
+        
+        // タブ切り替え時の自動ポーズ
+        this.setupAutoPause();
     }
 
     /**
@@ -103,25 +163,25 @@ export class GameEngine {
      * キーバインディング設定
      */
     private setupKeyBindings(): void {
-        // デフォルトキー: ASDFGHJKL
-        const keys = ['a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l'];
-        keys.forEach((key, index) => {
-            this.keyMap.set(key, index);
-        });
-        
-        // 追加キー: B N M （A, A#, B音に対応）
-        // これらは9番目以降のレーンに割り当てられる
-        const additionalKeys = ['b', 'n', 'm'];
-        additionalKeys.forEach((key, index) => {
-            this.keyMap.set(key, keys.length + index);
-        });
+        // 割り当てはレーン数ごとに異なるため、start()で読み込む
+        this.keyMap = this.keyBindings.getKeyMap(this.config.laneCount);
         
         // キー押下
         window.addEventListener('keydown', (e) => {
             // 特殊キー（Shift、Ctrl等）は無視
             if (e.ctrlKey || e.altKey || e.metaKey) return;
             
-            const key = e.key.toLowerCase();
+            const key = e.code;
+            
+            // ポーズ（Escape / P）
+            if (key in KeyBindings.RESERVED_CODES) {
+                // ポーズメニュー側のEscape（再開）と二重に処理されないようにする
+                if (this.state.isPlaying && !this.state.isPaused) {
+                    e.preventDefault();
+                }
+                this.pause();
+                return;
+            }
             
             if (this.keyMap.has(key) && !this.pressedKeys.has(key)) {
                 this.pressedKeys.add(key);
@@ -131,8 +191,13 @@ export class GameEngine {
         
         // キー解放
         window.addEventListener('keyup', (e) => {
-            const key = e.key.toLowerCase();
-            this.pressedKeys.delete(key);
+            const key = e.code;
+            if (this.pressedKeys.delete(key)) {
+                const lane = this.keyMap.get(key);
+                if (lane !== undefined) {
+                    this.releaseLane(lane);
+                }
+            }
         });
     }
 
@@ -140,29 +205,63 @@ export class GameEngine {
      * タッチイベントの設定
      */
     private setupTouchEvents(): void {
-        // タッチ開始
+        // タッチ開始（複数の指を個別に追跡する）
         this.canvas.addEventListener('touchstart', (e) => {
             e.preventDefault(); // スクロールを防ぐ
-            const touch = e.touches[0];
-            this.handleTouch(touch.clientX, touch.clientY);
+            for (const touch of Array.from(e.changedTouches)) {
+                const lane = this.handleTouch(touch.clientX, touch.clientY);
+                if (lane !== null) {
+                    this.touchLanes.set(touch.identifier, lane);
+                }
+            }
         }, { passive: false });
         
-        // タッチ終了
-        this.canvas.addEventListener('touchend', (e) => {
+        // タッチ終了（ホールドの離し判定）
+        const handleTouchEnd = (e: TouchEvent) => {
             e.preventDefault();
-        }, { passive: false });
+            for (const touch of Array.from(e.changedTouches)) {
+                const lane = this.touchLanes.get(touch.identifier);
+                this.touchLanes.delete(touch.identifier);
+                if (lane !== undefined) {
+                    this.releaseLane(lane);
+                }
+            }
+        };
+        this.canvas.addEventListener('touchend', handleTouchEnd, { passive: false });
+        this.canvas.addEventListener('touchcancel', handleTouchEnd, { passive: false });
+        
+        // マウス（デスクトップでも使えるように）
+        this.canvas.addEventListener('mousedown', (e) => {
+            this.mouseLane = this.handleTouch(e.clientX, e.clientY);
+        });
         
-        // マウスクリック（デスクトップでも使えるように）
-        this.canvas.addEventListener('click', (e) => {
-            this.handleTouch(e.clientX, e.clientY);
+        window.addEventListener('mouseup', () => {
+            if (this.mouseLane !== null) {
+                this.releaseLane(this.mouseLane);
+                this.mouseLane = null;
+            }
+        });
+    }
+
+    /**
+     * タブ非表示・フォーカス喪失時に自動でポーズ
+     */
+    private setupAutoPause(): void {
+        document.addEventListener('visibilitychange', () => {
+            if (document.hidden) {
+                this.pause();
+            }
         });
+        
+        window.addEventListener('blur', () => this.pause());
     }
 
     /**
      * タッチ/クリック処理
+     * @returns 押したレーン（レーン外ならnull）
      */
-    private handleTouch(clientX: number, _clientY: number): void {
-        if (!this.state.isPlaying || this.state.isPaused) return;
+    private handleTouch(clientX: number, _clientY: number): number | null {
+        if (!this.state.isPlaying || this.state.isPaused) return null;
         
         // キャンバス上の座標を取得
         const rect = this.canvas.getBoundingClientRect();
@@ -173,55 +272,119 @@ export class GameEngine {
         const startX = (this.config.canvasWidth - totalWidth) / 2;
         
         // タップ位置がレーン内かチェック
-        if (x < startX || x > startX + totalWidth) return;
+        if (x < startX || x > startX + totalWidth) return null;
         
         // レーン番号を計算
         const lane = Math.floor((x - startX) / this.config.laneWidth);
         
         if (lane >= 0 && lane < this.config.laneCount) {
             this.processLaneInput(lane);
+            return lane;
         }
+        return null;
     }
 
     /**
-     * レーン入力の処理（キーボード・タッチ共通）
+     * レーン入力の処理（キーボード・タッチ・MIDIキーボード・ゲームパッド共通）
      * 外部から呼び出し可能（UIマネージャーから鍵盤タップ時に使用）
+     * @param velocity 打鍵の強さ（0.0 ~ 1.0、MIDIキーボードのベロシティ）
+     * @param frequency 歌った音の周波数（マイク入力のときのみ、音程も判定する）
      */
-    public processLaneInput(lane: number): void {
-        if (!this.state.isPlaying || this.state.isPaused) return;
-        if (lane < 0 || lane >= this.config.laneCount) return;
-        
-        // そのレーンの最も近い音符を探す
-        const note = this.findNearestNote(lane);
-        if (!note) {
-            // 音符がない場合はミス
-            this.handleMiss(lane);
-            return;
+    public processLaneInput(lane: number, velocity: number = 1, frequency?: number): void {
+        if (!this.state.isPlaying || this.state.isPaused || this.replay || this.autoPlayer) return;
+        this.simulation?.press(lane, velocity, frequency);
+    }
+
+    /**
+     * レーンを離したときの処理（キーボード・タッチ・MIDIキーボード・ゲームパッド共通）
+     * ホールド中ならその時刻で終点を判定する
+     */
+    public releaseLane(lane: number): void {
+        if (!this.state.isPlaying || this.state.isPaused || this.replay || this.autoPlayer) return;
+        this.simulation?.release(lane);
+    }
+
+    /**
+     * 音符を押したとき（判定済み）: 音を鳴らして録音する（ホールドは離すまで鳴らし続ける）
+     */
+    private handleHit(note: GameNote, judgment: Judgment, hitTime: number, velocity: number): void {
+        const baseEffects = this.judge.getEffects(judgment.type);
+        const effects = { ...baseEffects, volume: baseEffects.volume * velocity };
+        const recorded = this.recordNote(note, judgment.type, effects, hitTime);
+        if (note.holding) {
+            const voiceId = this.synth.startSustainedNote(note.frequency, effects);
+            this.heldVoices.set(note.lane, { voiceId, recorded });
+        } else {
+            this.synth.playNote(note.frequency, GameEngine.NOTE_DURATION, effects);
+            recorded.duration = GameEngine.NOTE_DURATION;
         }
         
-        // 判定
-        const currentTime = Date.now() - this.startTime;
-        const judgment = this.judge.judge(currentTime, note.time);
+        this.showJudgment(judgment, note.lane);
+    }
+
+    /**
+     * ホールドの終点を判定したとき: 音を止めて、録音に終点の判定を残す
+     */
+    private handleHoldEnd(note: GameNote, judgment: Judgment, hitTime: number): void {
+        const held = this.heldVoices.get(note.lane);
+        if (held) {
+            this.heldVoices.delete(note.lane);
+            held.recorded.duration = this.synth.releaseSustainedNote(held.voiceId);
+            held.recorded.release = {
+                judgment: judgment.type,
+                targetTime: note.endTime ?? note.time,
+                hitTime,
+                offset: judgment.timing
+            };
+        }
         
-        // 音を鳴らす
-        const effects = this.judge.getEffects(judgment.type);
-        this.synth.playNote(note.frequency, 0.3, effects);
+        this.showJudgment(judgment, note.lane);
+    }
+
+    /**
+     * 判定した音符を録音に追加
+     * @param hitTime 入力した時刻（遅延補正済み、見逃した音符は省略して無音で記録する）
+     * @returns 追加した録音（長さは鳴らした後で決める）
+     */
+    private recordNote(note: GameNote, judgment: JudgmentType, effects: AudioEffects, hitTime?: number): RecordedNote {
+        const recorded: RecordedNote = {
+            frequency: note.frequency,
+            duration: 0,
+            waveform: effects.waveform,
+            timestamp: this.synth.getAudioTimestamp(),
+            judgment,
+            targetTime: note.time,
+            effects,
+            patch: this.synth.getPatch().id,
+            lane: note.lane,
+            noteId: note.id
+        };
+        if (hitTime !== undefined) {
+            recorded.hitTime = hitTime;
+            recorded.offset = hitTime - note.time;
+        } else {
+            recorded.silent = true;
+        }
         
-        // スコア更新
-        this.updateScore(judgment);
+        this.recording.push(recorded);
+        return recorded;
+    }
+
+    /**
+     * 判定結果をスコアとエフェクトに反映
+     */
+    private showJudgment(judgment: Judgment, lane: number): void {
+        this.syncState();
         
-        // エフェクト
         const laneX = this.getLaneX(lane);
         const laneY = this.config.judgeLineY;
         this.particles.emit(laneX, laneY, judgment.type);
+        this.gamepad.vibrate(judgment.type);
         
         // 判定表示のコールバック
         if (this.onJudgment) {
-            this.onJudgment(judgment.message, laneX, laneY);
+            this.onJudgment(judgment, laneX, laneY);
         }
-        
-        // 音符を非アクティブに
-        note.active = false;
     }
 
     /**
@@ -234,34 +397,15 @@ export class GameEngine {
     }
 
     /**
-     * 最も近い音符を探す
+     * ミス処理（見逃した音符は無音で録音に残す）
+     * @param note 見逃した音符（音符のないところを押したならnull）
      */
-    private findNearestNote(lane: number): GameNote | null {
-        const currentTime = Date.now() - this.startTime;
-        const maxDiff = this.difficultyConfig.judgmentWindow.bad;
-        
-        let nearest: GameNote | null = null;
-        let minDiff = Infinity;
-        
-        for (const note of this.activeNotes) {
-            if (note.lane === lane && note.active) {
-                const diff = Math.abs(note.time - currentTime);
-                if (diff < minDiff && diff <= maxDiff) {
-                    minDiff = diff;
-                    nearest = note;
-                }
-            }
+    private handleMiss(_lane: number, note: GameNote | null): void {
+        if (note) {
+            this.recordNote(note, 'miss', this.judge.getEffects('miss'));
         }
-        
-        return nearest;
-    }
-
-    /**
-     * ミス処理
-     */
-    private handleMiss(_lane: number): void {
-        this.state.missCount++;
-        this.state.combo = 0;
+        this.syncState();
+        this.gamepad.vibrate('miss');
         
         if (this.onScoreUpdate) {
             this.onScoreUpdate(this.state.score, this.state.combo);
@@ -269,38 +413,11 @@ export class GameEngine {
     }
 
     /**
-     * スコア更新
+     * シミュレーションの集計を表示用の状態に写す
      */
-    private updateScore(judgment: any): void {
-        this.state.score += judgment.score;
-        
-        if (judgment.combo) {
-            this.state.combo++;
-            if (this.state.combo > this.state.maxCombo) {
-                this.state.maxCombo = this.state.combo;
-            }
-        } else {
-            this.state.combo = 0;
-        }
-        
-        // カウント更新
-        switch (judgment.type) {
-            case 'perfect':
-                this.state.perfectCount++;
-                break;
-            case 'good':
-                this.state.goodCount++;
-                break;
-            case 'bad':
-                this.state.badCount++;
-                break;
-            case 'miss':
-                this.state.missCount++;
-                break;
-        }
-        
-        if (this.onScoreUpdate) {
-            this.onScoreUpdate(this.state.score, this.state.combo);
+    private syncState(): void {
+        if (this.simulation) {
+            Object.assign(this.state, this.simulation.getState());
         }
     }
 
@@ -315,8 +432,16 @@ export class GameEngine {
 
     /**
      * ゲーム開始
+     * @param options.track 再生するトラック（省略時はランダム生成）
+     * @param options.seed ランダム生成時の乱数シード
+     * @param options.startTime 途中から開始する曲の位置（ミリ秒、エディターのテストプレイ用）
+     * @param options.replay 再生するリプレイ（ライブ入力の代わりに記録した入力で進める）
+     * @param options.autoPlay オートプレイの設定（ライブ入力の代わりにボットが演奏する）
      */
-    start(difficulty: Difficulty): void {
+    start(
+        difficulty: Difficulty,
+        options: { track?: Track; seed?: number; startTime?: number; replay?: ReplayData; autoPlay?: AutoPlayOptions } = {}
+    ): void {
         console.log(`🎮 GameEngine.start() 呼び出し: ${difficulty}`);
         
         // 前のゲームをクリーンアップ
@@ -325,7 +450,7 @@ export class GameEngine {
             this.animationId = null;
         }
         this.state.isPlaying = false;
-        this.activeNotes = [];
+        this.simulation = null;
         this.track = null;
         
         // キャンバスサイズを再計算
@@ -340,28 +465,64 @@ export class GameEngine {
         this.config.laneWidth = Math.min(100, this.config.canvasWidth / this.config.laneCount);
         console.log(`レーン数: ${this.config.laneCount}, レーン幅: ${this.config.laneWidth}`);
         
-        // トラック生成
-        this.track = this.trackGenerator.generateTrack(difficulty, this.difficultyConfig);
-        this.activeNotes = [...this.track.notes];
-        console.log(`音符数: ${this.activeNotes.length}`);
+        // キー・ボタンの割り当てを読み込む
+        this.keyMap = this.keyBindings.getKeyMap(this.config.laneCount);
+        this.gamepad.setLaneCount(this.config.laneCount);
+        
+        // リプレイは記録した遅延補正で判定する
+        this.replay = options.replay ?? null;
+        this.replayIndex = 0;
+        this.startLatency = this.replay ? { ...this.replay.latency } : this.latency.get();
+        
+        // トラック生成（読み込んだ譜面・リプレイに保存したトラックがあればそれを使う）
+        const replayTrack = this.replay?.track;
+        this.track = options.track
+            ?? (replayTrack && ReplayLoader.toTrack(replayTrack, difficulty))
+            ?? this.trackGenerator.generateTrack(difficulty, this.difficultyConfig, this.replay?.seed ?? options.seed);
+        
+        // 判定・スコアはシミュレーションで計算する（開始位置より前の音符は判定対象外）
+        // リプレイは記録したプレイが終わった時刻で終える
+        const startTime = options.startTime ?? 0;
+        this.simulation = new GameSimulation(this.track, this.difficultyConfig, this.clock, {
+            latency: this.startLatency,
+            startTime,
+            endTime: this.replay?.endTime
+        });
+        this.simulation.setCallbacks({
+            onHit: (note, judgment, hitTime, velocity) => this.handleHit(note, judgment, hitTime, velocity),
+            onHoldEnd: (note, judgment, hitTime) => this.handleHoldEnd(note, judgment, hitTime),
+            onMiss: (lane, note) => this.handleMiss(lane, note)
+        });
+        const notes = this.simulation.getNotes();
+        
+        // オートプレイはリプレイの再生中には使わない
+        this.autoPlayer = options.autoPlay && !this.replay ? new AutoPlayer(notes, options.autoPlay) : null;
+        console.log(`音符数: ${notes.length}`);
         console.log(`トラック長: ${this.track.duration}ms`);
+        if (this.track.seed !== undefined) {
+            console.log(`シード: ${this.track.seed}`);
+        }
         
         // 最初の音符の情報をログ出力
-        if (this.activeNotes.length > 0) {
-            const firstNote = this.activeNotes[0];
+        if (notes.length > 0) {
+            const firstNote = notes[0];
             console.log(`最初の音符: 時刻=${firstNote.time}ms, レーン=${firstNote.lane}, 音名=${firstNote.noteName}`);
         }
         
         // 状態リセット
         this.state = this.createInitialState();
         this.state.isPlaying = true;
+        this.singingLane = null;
+        this.microphone.reset();
+        this.pressedKeys.clear();
+        this.releaseAllHolds();
+        this.particles.dispose();
         
         // 録音開始
-        this.synth.startRecording();
+        this.recording = [];
         
-        // アニメーション開始
-        this.startTime = Date.now();
-        this.lastUpdateTime = this.startTime;
+        // アニメーション開始（途中から始める場合は音符が落ちてくる時間だけ手前から）
+        this.clock.start(startTime > 0 ? startTime - GameEngine.LEAD_IN_TIME : 0);
         console.log('🎬 アニメーションループ開始');
         this.animate();
     }
@@ -370,17 +531,37 @@ export class GameEngine {
      * アニメーションループ
      */
     private animate = (): void => {
-        if (!this.state.isPlaying) return;
+        if (!this.state.isPlaying || this.state.isPaused) return;
         
-        const currentTime = Date.now();
-        const deltaTime = currentTime - this.lastUpdateTime;
-        this.lastUpdateTime = currentTime;
+        // リプレイ・オートプレイ中もゲームパッドのポーズボタンは使える（レーン入力は受け付けない）
+        if (this.replay || this.autoPlayer) {
+            this.pollGamepadPause();
+            if (this.state.isPaused) return;
+        }
+        
+        let currentTime: number;
+        if (this.replay) {
+            // リプレイは記録した入力をこのフレームの時刻まで反映する（記録の終了時刻で止める）
+            currentTime = Math.min(this.clock.now(), this.replay.endTime);
+            this.playReplayEvents(currentTime);
+        } else if (this.autoPlayer) {
+            currentTime = this.clock.now();
+            this.playAutoPlayer(currentTime);
+        } else {
+            // ゲームパッドの入力（ポーズボタンで止まったらこのフレームは処理しない）
+            this.pollGamepad();
+            if (this.state.isPaused) return;
+            this.pollMicrophone();
+            
+            // 1フレーム内はすべて同じ時刻で処理する
+            currentTime = this.clock.now();
+        }
         
-        this.update(deltaTime);
+        this.update(currentTime);
         this.draw();
         
         // ゲーム終了チェック
-        if (this.checkGameEnd()) {
+        if (this.checkGameEnd(currentTime)) {
             this.endGame();
             return;
         }
@@ -389,54 +570,119 @@ export class GameEngine {
     };
 
     /**
-     * 更新処理
+     * リプレイの入力を指定時刻まで反映
      */
-    private update(_deltaTime: number): void {
-        const currentTime = Date.now() - this.startTime;
-        this.state.currentTime = currentTime;
+    private playReplayEvents(currentTime: number): void {
+        if (!this.replay) return;
         
-        // 音符の速度（ピクセル/秒）を取得
-        const noteSpeed = this.difficultyConfig.noteSpeed; // px/s
-        const noteSpeedMs = noteSpeed / 1000; // px/ms
+        const events = this.replay.events;
+        while (this.replayIndex < events.length && events[this.replayIndex].time <= currentTime) {
+            this.simulation?.input(events[this.replayIndex]);
+            this.replayIndex++;
+        }
+    }
+
+    /**
+     * オートプレイの入力を指定時刻まで反映
+     * ボットは判定に使う入力時刻で音符を狙うので、遅延補正の分だけずらしてプレイヤーと同じ押す・離すを通す
+     */
+    private playAutoPlayer(currentTime: number): void {
+        const simulation = this.simulation;
+        if (!simulation || !this.autoPlayer) return;
         
-        // 判定ラインまでの距離
-        const judgeLineY = this.config.judgeLineY;
+        const offset = currentTime - simulation.getInputTime(currentTime);
+        for (const event of this.autoPlayer.poll(currentTime - offset)) {
+            if (event.type === 'laneDown') {
+                simulation.press(event.lane, 1, undefined, event.time + offset);
+            } else {
+                simulation.release(event.lane, event.time + offset);
+            }
+        }
+    }
+
+    /**
+     * ゲームパッドの入力を処理（キーボード・タッチと同じレーン入力を通す）
+     */
+    private pollGamepad(): void {
+        for (const event of this.gamepad.poll()) {
+            switch (event.type) {
+                case 'laneDown':
+                    this.processLaneInput(event.lane);
+                    break;
+                case 'laneUp':
+                    this.releaseLane(event.lane);
+                    break;
+                case 'pause':
+                    this.pause();
+                    return;
+            }
+        }
+    }
+
+    /**
+     * ゲームパッドのポーズボタンだけを処理
+     */
+    private pollGamepadPause(): void {
+        if (this.gamepad.poll().some((event) => event.type === 'pause')) {
+            this.pause();
+        }
+    }
+
+    /**
+     * マイク入力を処理
+     * 歌い始めに狙った音符はシミュレーションが決める（歌い終わりはそのレーンを離したものとする）
+     */
+    private pollMicrophone(): void {
+        if (!this.microphone.isActive()) return;
+        
+        for (const event of this.microphone.poll()) {
+            if (event.type === 'release') {
+                if (this.singingLane !== null) {
+                    this.releaseLane(this.singingLane);
+                    this.singingLane = null;
+                }
+                continue;
+            }
+            
+            this.singingLane = this.simulation?.sing(event.frequency) ?? null;
+        }
+    }
+
+    /**
+     * 更新処理
+     */
+    private update(currentTime: number): void {
+        const simulation = this.simulation;
+        if (!simulation) return;
         
-        // 音符が落ちる時間（判定ラインまで）
-        const fallTime = (judgeLineY / noteSpeed) * 1000; // ミリ秒
+        // 時刻までに起きたホールドの終点・見逃しを判定
+        simulation.update(currentTime);
+        this.syncState();
         
         // 音符の位置を更新
-        for (const note of this.activeNotes) {
-            if (note.active) {
-                // 音符が判定ラインに到達する時間からの経過時間（ミリ秒）
-                const timeToJudge = note.time - currentTime;
-                
-                // 音符の位置を計算
-                // timeToJudgeが大きい（未来）→ 音符は上（yが小さい）
-                // timeToJudgeが0 → 音符は判定ライン
-                // timeToJudgeが負（過去）→ 音符は下（yが大きい）
-                if (timeToJudge > fallTime) {
-                    // まだ画面の上にいる
-                    note.y = -this.config.noteHeight;
-                } else if (timeToJudge >= 0) {
-                    // 落ちている途中
-                    note.y = judgeLineY - (timeToJudge / fallTime) * judgeLineY;
-                } else {
-                    // 判定ラインを通過した
-                    note.y = judgeLineY + Math.abs(timeToJudge) * noteSpeedMs;
-                }
-                
-                // 判定ラインを大きく超えたらミス（判定ウィンドウを緩くしたので、閾値も緩和）
-                // bad判定の最大値（300ms）を考慮して、より余裕を持たせる
-                const missThreshold = judgeLineY + 200; // 150 → 200に緩和
-                if (note.y > missThreshold) {
-                    note.active = false;
-                    this.handleMiss(note.lane);
-                }
+        const judgeLineY = this.config.judgeLineY;
+        const renderTime = simulation.getRenderTime(currentTime);
+        for (const note of simulation.getNotes()) {
+            if (note.holding) {
+                // ホールド中は始点を判定ラインに留める
+                note.y = judgeLineY;
+            } else if (note.active) {
+                note.y = this.timeToY(note.time, renderTime);
             }
         }
     }
 
+    /**
+     * 時刻 → Y座標
+     * 判定ラインに到達する時刻より前（未来）なら上、後（過去）なら下
+     * まだ落ち始めていない場合は画面の上に置く
+     */
+    private timeToY(time: number, currentTime: number): number {
+        const noteSpeedMs = this.difficultyConfig.noteSpeed / 1000; // px/ms
+        const y = this.config.judgeLineY - (time - currentTime) * noteSpeedMs;
+        return Math.max(-this.config.noteHeight, y);
+    }
+
     /**
      * 描画処理
      */
@@ -536,16 +782,28 @@ export class GameEngine {
      * 音符を描画
      */
     private drawNotes(): void {
+        if (!this.simulation) return;
+        const notes = this.simulation.getNotes();
+        const renderTime = this.simulation.getRenderTime(this.state.currentTime);
+        
         const totalWidth = this.config.laneWidth * this.config.laneCount;
         const startX = (this.config.canvasWidth - totalWidth) / 2;
         
         let visibleNoteCount = 0;
         let activeNoteCount = 0;
         
-        for (const note of this.activeNotes) {
-            if (!note.active) continue;
+        for (const note of notes) {
+            if (!note.active && !note.holding) continue;
             activeNoteCount++;
             
+            // 音名に応じた色を取得
+            const colors = this.getNoteColor(note.noteName);
+            
+            // ホールドの尾（始点より先に描いて始点の下に隠す）
+            if (note.endTime !== undefined) {
+                this.drawHoldTail(note, colors.fill, renderTime);
+            }
+            
             // 描画条件を緩和（画面外でも少し余裕を持たせる）
             if (note.y < -this.config.noteHeight * 2) continue;
             if (note.y > this.config.canvasHeight + this.config.noteHeight) continue;
@@ -555,9 +813,6 @@ export class GameEngine {
             const x = startX + note.lane * this.config.laneWidth + (this.config.laneWidth - this.config.noteWidth) / 2;
             const y = note.y - this.config.noteHeight / 2;
             
-            // 音名に応じた色を取得
-            const colors = this.getNoteColor(note.noteName);
-            
             // 音符を描画
             this.ctx.fillStyle = colors.fill;
             this.ctx.strokeStyle = colors.stroke;
@@ -581,20 +836,34 @@ export class GameEngine {
         // デバッグ: 定期的にログ出力
         if (this.state.currentTime % 1000 < 50 && activeNoteCount > 0) {
             console.log(`アクティブな音符: ${activeNoteCount}, 描画中の音符: ${visibleNoteCount}, 判定ラインY: ${this.config.judgeLineY}`);
-            if (this.activeNotes.length > 0 && this.activeNotes[0].active) {
-                console.log(`最初の音符の位置: y=${this.activeNotes[0].y.toFixed(1)}, 時刻=${this.activeNotes[0].time}ms, 現在時刻=${this.state.currentTime}ms`);
+            if (notes.length > 0 && notes[0].active) {
+                console.log(`最初の音符の位置: y=${notes[0].y.toFixed(1)}, 時刻=${notes[0].time}ms, 現在時刻=${this.state.currentTime}ms`);
             }
         }
     }
 
     /**
-     * ゲーム終了チェック
+     * ホールドの尾を描画（始点から終点まで）
      */
-    private checkGameEnd(): boolean {
-        if (!this.track) return false;
+    private drawHoldTail(note: GameNote, color: string, renderTime: number): void {
+        const tailY = this.timeToY(note.endTime!, renderTime);
+        if (tailY >= note.y) return;
+        
+        const width = this.config.noteWidth * 0.5;
+        const x = this.getLaneX(note.lane) - width / 2;
         
-        const currentTime = Date.now() - this.startTime;
-        return currentTime > this.track.duration;
+        this.ctx.save();
+        this.ctx.globalAlpha = note.holding ? 0.9 : 0.5;
+        this.ctx.fillStyle = color;
+        this.ctx.fillRect(x, tailY, width, note.y - tailY);
+        this.ctx.restore();
+    }
+
+    /**
+     * ゲーム終了チェック
+     */
+    private checkGameEnd(currentTime: number): boolean {
+        return this.simulation?.isFinished(currentTime) ?? false;
     }
 
     /**
@@ -602,14 +871,229 @@ export class GameEngine {
      */
     private endGame(): void {
         this.state.isPlaying = false;
+        this.clock.stop();
+        this.releaseAllHolds();
         
         // 録音停止
-        const recording = this.synth.stopRecording();
+        const recording = this.recording;
+        
+        // プレイ履歴を作成
+        const history = this.createPlayHistory();
+        
+        // リプレイを保存できるようにする（リプレイの再生ならそのリプレイのまま）
+        this.lastReplay = this.replay ?? this.createReplay();
         
         // コールバック
         if (this.onGameEnd) {
-            this.onGameEnd(this.state, recording);
+            this.onGameEnd(this.state, recording, history);
+        }
+    }
+
+    /**
+     * 現在の結果からプレイ履歴を作成
+     */
+    private createPlayHistory(): PlayHistory {
+        return {
+            date: new Date(),
+            difficulty: this.track?.difficulty ?? 'normal',
+            trackId: this.track?.id ?? '',
+            trackName: this.track?.name ?? '',
+            seed: this.track?.seed,
+            score: this.state.score,
+            accuracy: calculateAccuracy(this.state),
+            perfectCount: this.state.perfectCount,
+            goodCount: this.state.goodCount,
+            badCount: this.state.badCount,
+            missCount: this.state.missCount,
+            maxCombo: this.state.maxCombo
+        };
+    }
+
+    /**
+     * 今回のプレイのリプレイを作成
+     * ランダム生成の曲はシードだけ、読み込んだ譜面は音符ごと保存する
+     */
+    private createReplay(): ReplayData {
+        const track = this.track;
+        return {
+            version: REPLAY_FORMAT_VERSION,
+            date: new Date().toISOString(),
+            difficulty: track?.difficulty ?? 'normal',
+            trackName: track?.name ?? '',
+            ...(track && track.seed === undefined ? { track: ReplayLoader.toReplayTrack(track) } : { seed: track?.seed }),
+            latency: this.startLatency,
+            instrument: this.synth.getPatch().id,
+            events: this.simulation?.getInputLog() ?? [],
+            endTime: this.state.currentTime,
+            result: {
+                score: this.state.score,
+                maxCombo: this.state.maxCombo,
+                perfectCount: this.state.perfectCount,
+                goodCount: this.state.goodCount,
+                badCount: this.state.badCount,
+                missCount: this.state.missCount
+            }
+        };
+    }
+
+    /**
+     * 一時停止（ソングクロック・音符・パーティクルを凍結）
+     */
+    pause(): void {
+        if (!this.state.isPlaying || this.state.isPaused) return;
+        
+        this.state.isPaused = true;
+        this.clock.pause();
+        this.state.currentTime = this.clock.now();
+        
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
+        }
+        
+        // ホールド中の音符はポーズした時点で離したものとして判定
+        // （リプレイの再生中は記録したポーズの時点で判定する）
+        if (!this.replay) {
+            this.simulation?.pause();
+            this.syncState();
+        }
+        
+        // 押しっぱなしのキーは再開時に押し直してもらう
+        this.pressedKeys.clear();
+        this.touchLanes.clear();
+        this.mouseLane = null;
+        this.singingLane = null;
+        this.particles.pause();
+        
+        console.log(`⏸ 一時停止: ${this.state.currentTime.toFixed(0)}ms`);
+        
+        if (this.onPause) {
+            this.onPause();
+        }
+        
+        // ポーズ中は animate が止まるので、ポーズメニューの操作用にゲームパッドを見続ける
+        this.animationId = requestAnimationFrame(this.pollPauseMenu);
+    }
+
+    /**
+     * ポーズ中のゲームパッドの入力をポーズメニューの操作として通知
+     */
+    private pollPauseMenu = (): void => {
+        if (!this.state.isPlaying || !this.state.isPaused) return;
+        
+        for (const action of this.gamepad.pollPauseMenu()) {
+            if (this.onPauseMenu) {
+                this.onPauseMenu(action);
+            }
+            // やり直し・中断でポーズが終わったら以降のボタンは見ない
+            if (!this.state.isPlaying || !this.state.isPaused) return;
         }
+        
+        this.animationId = requestAnimationFrame(this.pollPauseMenu);
+    };
+
+    /**
+     * 一時停止から再開
+     */
+    resume(): void {
+        if (!this.state.isPlaying || !this.state.isPaused) return;
+        
+        this.state.isPaused = false;
+        this.clock.resume();
+        this.particles.resume();
+        
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
+        }
+        
+        // ポーズ中に遅延補正を変えたら、再開した時刻から使う
+        if (!this.replay) {
+            this.simulation?.setLatency(this.latency.get());
+        }
+        
+        // 押しっぱなしのボタン・歌い続けている声は入力し直してもらう
+        this.gamepad.sync();
+        this.microphone.reset();
+        
+        console.log(`▶ 再開: ${this.state.currentTime.toFixed(0)}ms`);
+        this.animate();
+    }
+
+    /**
+     * 今回のプレイのタイミング分析
+     * ホールドの終点は遅く離しても0msとして扱うため含めない
+     */
+    getTimingStats(): TimingStats {
+        return this.simulation?.getTimingStats()
+            ?? calculateTimingStats([], this.difficultyConfig.judgmentWindow.bad);
+    }
+
+    /**
+     * 今回のプレイの音程分析（マイク入力で判定した音符のみ）
+     */
+    getPitchStats(): PitchStats {
+        return this.simulation?.getPitchStats()
+            ?? calculatePitchStats([], NoteJudge.PITCH_WINDOW.bad);
+    }
+
+    /**
+     * 直前のプレイのリプレイ（まだプレイしていなければnull）
+     */
+    getReplay(): ReplayData | null {
+        return this.lastReplay;
+    }
+
+    /**
+     * リプレイを再生中かどうか
+     */
+    isReplaying(): boolean {
+        return this.replay !== null;
+    }
+
+    /**
+     * オートプレイ中かどうか
+     */
+    isAutoPlaying(): boolean {
+        return this.autoPlayer !== null;
+    }
+
+    /**
+     * 一時停止中かどうか
+     */
+    isPaused(): boolean {
+        return this.state.isPaused;
+    }
+
+    /**
+     * ゲームを中断（結果は出さない）
+     */
+    stop(): void {
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
+        }
+        
+        this.state.isPlaying = false;
+        this.state.isPaused = false;
+        this.clock.stop();
+        this.replay = null;
+        this.autoPlayer = null;
+        this.releaseAllHolds();
+        this.particles.dispose();
+    }
+
+    /**
+     * ホールド中の音をすべて止める（判定はしない）
+     */
+    private releaseAllHolds(): void {
+        for (const held of this.heldVoices.values()) {
+            held.recorded.duration = this.synth.releaseSustainedNote(held.voiceId);
+        }
+        this.synth.releaseAllSustainedNotes();
+        this.heldVoices.clear();
+        this.touchLanes.clear();
+        this.mouseLane = null;
     }
 
     /**
@@ -635,12 +1119,30 @@ export class GameEngine {
      */
     setCallbacks(callbacks: {
         onScoreUpdate?: (score: number, combo: number) => void;
-        onJudgment?: (judgment: string, x: number, y: number) => void;
-        onGameEnd?: (state: GameState, recording: RecordedNote[]) => void;
+        onJudgment?: (judgment: Judgment, x: number, y: number) => void;
+        onGameEnd?: (state: GameState, recording: RecordedNote[], history: PlayHistory) => void;
+        onPause?: () => void;
+        onPauseMenu?: (action: PauseMenuAction) => void;
     }): void {
         this.onScoreUpdate = callbacks.onScoreUpdate;
         this.onJudgment = callbacks.onJudgment;
         this.onGameEnd = callbacks.onGameEnd;
+        this.onPause = callbacks.onPause;
+        this.onPauseMenu = callbacks.onPauseMenu;
+    }
+
+    /**
+     * ソングクロックを取得（BGMを曲の位置に合わせて鳴らすため）
+     */
+    getClock(): SongClock {
+        return this.clock;
+    }
+
+    /**
+     * 現在のトラックを取得
+     */
+    getTrack(): Track | null {
+        return this.track;
     }
 
     /**
@@ -658,6 +1160,7 @@ export class GameEngine {
             cancelAnimationFrame(this.animationId);
             this.animationId = null;
         }
+        this.clock.stop();
     }
 }
 
@@ -0,0 +1,359 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../types';
+import type { GameClock, GameNote, Track } from '../types';
+import { SeededRandom } from '../utils';
+import { GameSimulation } from './GameSimulation';
+import { TrackGenerator } from './TrackGenerator';
+
+const config = DIFFICULTY_SETTINGS.normal;
+
+// 判定ラインを過ぎてからミスになるまでの時間（遅延補正なし）
+const MISS_DELAY = GameSimulation.MISS_DISTANCE / (config.noteSpeed / 1000);
+
+/**
+ * テスト用の時計（時刻は手で進める）
+ */
+class FakeClock implements GameClock {
+    time = 0;
+
+    now(): number {
+        return this.time;
+    }
+}
+
+/**
+ * テスト用の音符
+ */
+function note(id: string, time: number, lane: number, endTime?: number): GameNote {
+    return {
+        id,
+        time,
+        lane,
+        frequency: 440,
+        noteName: config.availableKeys[lane],
+        y: 0,
+        active: true,
+        ...(endTime !== undefined && { endTime })
+    };
+}
+
+/**
+ * テスト用のトラック
+ */
+function track(notes: GameNote[], duration: number = 5000): Track {
+    return { id: 'test', name: 'test', difficulty: 'normal', bpm: 120, duration, notes };
+}
+
+describe('GameSimulation', () => {
+    describe('判定', () => {
+        const { perfect, good, bad } = config.judgmentWindow;
+
+        it.each([
+            [0, 'perfect'],
+            [-perfect, 'perfect'],
+            [good, 'good'],
+            [-good, 'good'],
+            [bad, 'bad'],
+            [-bad, 'bad']
+        ])('%ims のズレは %s', (offset, type) => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('a', 1000, 0)]), config, clock);
+            const hits: string[] = [];
+            simulation.setCallbacks({ onHit: (_note, judgment) => hits.push(judgment.type) });
+
+            clock.time = 1000 + offset;
+            simulation.press(0);
+            expect(hits).toEqual([type]);
+            expect(simulation.getState()[`${type}Count` as 'perfectCount']).toBe(1);
+        });
+
+        it('判定の幅の外で押しても音符は狙わない（空振りのミス）', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('a', 1000, 0)]), config, clock);
+
+            clock.time = 1000 - bad - 1;
+            simulation.press(0);
+            expect(simulation.getNotes()[0].active).toBe(true);
+            expect(simulation.getState().missCount).toBe(1);
+        });
+
+        it('別のレーンの音符は狙わない', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('a', 1000, 0)]), config, clock);
+
+            clock.time = 1000;
+            simulation.press(1);
+            expect(simulation.getNotes()[0].active).toBe(true);
+            expect(simulation.getState().missCount).toBe(1);
+        });
+
+        it('audioの遅延補正を差し引いた時刻で判定する', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('a', 1000, 0)]), config, clock, {
+                latency: { audio: 40, visual: 0 }
+            });
+
+            clock.time = 1040;
+            simulation.press(0);
+            expect(simulation.getState().perfectCount).toBe(1);
+            expect(simulation.getTimingStats().mean).toBe(0);
+        });
+    });
+
+    describe('コンボ', () => {
+        it('Perfect・Goodで伸び、Badで途切れる', () => {
+            const clock = new FakeClock();
+            const notes = [0, 1, 2, 3, 4].map((i) => note(`n${i}`, 1000 + i * 1000, 0));
+            const simulation = new GameSimulation(track(notes), config, clock);
+            const { good, bad } = config.judgmentWindow;
+
+            for (const [i, offset] of [0, good, bad, 0, 0].entries()) {
+                clock.time = 1000 + i * 1000 + offset;
+                simulation.press(0);
+            }
+            expect(simulation.getState()).toMatchObject({
+                score: 100 + 50 + 10 + 100 + 100,
+                combo: 2,
+                maxCombo: 2,
+                perfectCount: 3,
+                goodCount: 1,
+                badCount: 1
+            });
+        });
+
+        it('ホールドは押したときと終点の2回判定する', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('h', 1000, 0, 2000)]), config, clock);
+            const holdEnds: number[] = [];
+            simulation.setCallbacks({ onHoldEnd: (_note, _judgment, hitTime) => holdEnds.push(hitTime) });
+
+            clock.time = 1000;
+            simulation.press(0);
+            expect(simulation.getNotes()[0].holding).toBe(true);
+
+            // 終点まで押し続けると、離さなくても終点ちょうどで判定する
+            simulation.update(2500);
+            expect(holdEnds).toEqual([2000]);
+            expect(simulation.getState()).toMatchObject({ combo: 2, perfectCount: 2 });
+        });
+
+        it('ホールドを早く離すと終点の判定が下がる', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('h', 1000, 0, 2000)]), config, clock);
+
+            clock.time = 1000;
+            simulation.press(0);
+            clock.time = 2000 - config.judgmentWindow.bad - 1;
+            simulation.release(0);
+            expect(simulation.getState()).toMatchObject({ combo: 0, perfectCount: 1, missCount: 1 });
+        });
+
+        it('ポーズするとホールド中の音符はその時刻で離したことになる', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('h', 1000, 0, 2000)]), config, clock);
+
+            clock.time = 1000;
+            simulation.press(0);
+            clock.time = 1990;
+            simulation.pause();
+            expect(simulation.getNotes()[0].holding).toBe(false);
+            expect(simulation.getState().perfectCount).toBe(2);
+        });
+    });
+
+    describe('ゲーム終了時の結果', () => {
+        it('全音符をぴったりに押せば全Perfect・フルコンボ', () => {
+            const generated = new TrackGenerator().generateTrack('hard', DIFFICULTY_SETTINGS.hard, 42);
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(generated, DIFFICULTY_SETTINGS.hard, clock);
+            const judged = generated.notes.length + generated.notes.filter((n) => n.endTime !== undefined).length;
+
+            for (const n of [...generated.notes].sort((a, b) => a.time - b.time)) {
+                clock.time = n.time;
+                simulation.press(n.lane);
+            }
+            clock.time = generated.duration + 1;
+            simulation.update();
+
+            expect(simulation.isFinished()).toBe(true);
+            expect(simulation.getState()).toMatchObject({
+                score: judged * 100,
+                combo: judged,
+                maxCombo: judged,
+                perfectCount: judged,
+                missCount: 0
+            });
+        });
+    });
+
+    describe('入力の記録', () => {
+        it('記録した入力を新しいシミュレーションに流すと同じ結果になる', () => {
+            const generated = new TrackGenerator().generateTrack('expert', DIFFICULTY_SETTINGS.expert, 7);
+            const expert = DIFFICULTY_SETTINGS.expert;
+            const random = new SeededRandom(1);
+            const latency = { audio: 20, visual: 10 };
+
+            // ばらつき・見逃し・空振り・ポーズ・遅延補正の変更を含むプレイ
+            const clock = new FakeClock();
+            const live = new GameSimulation(generated, expert, clock, { latency });
+            const inputs = generated.notes
+                .filter(() => random.next() > 0.15)
+                .flatMap((n) => {
+                    const time = n.time + latency.audio + (random.next() - 0.5) * 300;
+                    const events = [{ time, run: () => live.press(n.lane) }];
+                    if (n.endTime !== undefined) {
+                        const releaseTime = n.endTime + (random.next() - 0.5) * 300;
+                        events.push({ time: Math.max(time, releaseTime), run: () => live.release(n.lane) });
+                    }
+                    return events;
+                });
+            inputs.push(
+                { time: 2500, run: () => live.press(0) },
+                { time: 4000, run: () => live.pause() },
+                { time: 4000, run: () => live.setLatency({ audio: 35, visual: 0 }) }
+            );
+            inputs.sort((a, b) => a.time - b.time);
+
+            for (const input of inputs) {
+                clock.time = input.time;
+                input.run();
+            }
+            clock.time = generated.duration + 1;
+            live.update();
+
+            // 同じトラック・開始時の遅延補正で、記録した入力だけを流す
+            const replayed = new GameSimulation(generated, expert, new FakeClock(), { latency });
+            for (const event of live.getInputLog()) {
+                replayed.input(event);
+            }
+            replayed.update(generated.duration + 1);
+
+            const result = live.getState();
+            expect(result.perfectCount + result.goodCount + result.badCount).toBeGreaterThan(0);
+            expect(result.missCount).toBeGreaterThan(0);
+            expect(replayed.getState()).toEqual(result);
+            expect(replayed.getInputLog()).toEqual(live.getInputLog());
+            expect(replayed.getTimingStats()).toEqual(live.getTimingStats());
+        });
+    });
+
+    describe('見逃し', () => {
+        it('ミスになる時刻までは見逃しにならない', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('a', 1000, 0)]), config, clock);
+
+            simulation.update(1000 + MISS_DELAY);
+            expect(simulation.getState().missCount).toBe(0);
+            expect(simulation.getNotes()[0].active).toBe(true);
+
+            simulation.update(1000 + MISS_DELAY + 1);
+            expect(simulation.getState().missCount).toBe(1);
+            expect(simulation.getNotes()[0].active).toBe(false);
+        });
+
+        it('見逃した音符はコンボを途切れさせ、onMissで知らせる', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(
+                track([note('a', 1000, 0), note('b', 1500, 1), note('c', 2000, 2)]),
+                config,
+                clock
+            );
+            const missed: (string | null)[] = [];
+            simulation.setCallbacks({ onMiss: (_lane, missedNote) => missed.push(missedNote?.id ?? null) });
+
+            clock.time = 1000;
+            simulation.press(0);
+            clock.time = 1500;
+            simulation.press(1);
+            simulation.update(2000 + MISS_DELAY + 1);
+
+            expect(missed).toEqual(['c']);
+            expect(simulation.getState()).toMatchObject({ combo: 0, maxCombo: 2, missCount: 1 });
+        });
+
+        it('何フレーム分まとめて進めても、音符の時刻の順にミスになる', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(
+                track([note('b', 1500, 1), note('a', 1000, 0)]),
+                config,
+                clock
+            );
+            const missed: string[] = [];
+            simulation.setCallbacks({ onMiss: (_lane, missedNote) => missed.push(missedNote!.id) });
+
+            simulation.update(4000);
+            expect(missed).toEqual(['a', 'b']);
+        });
+
+        it('音符のないところを押すとミス', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('a', 3000, 0)]), config, clock);
+
+            clock.time = 1000;
+            simulation.press(0);
+            expect(simulation.getState().missCount).toBe(1);
+            expect(simulation.getNotes()[0].active).toBe(true);
+        });
+
+        it('visualの遅延補正の分だけミスになる時刻が早まる', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([note('a', 1000, 0)]), config, clock, {
+                latency: { audio: 0, visual: 50 }
+            });
+
+            simulation.update(1000 + MISS_DELAY - 49);
+            expect(simulation.getState().missCount).toBe(1);
+        });
+    });
+
+    describe('ゲーム終了', () => {
+        it('トラックの長さを過ぎたら終わる', () => {
+            const simulation = new GameSimulation(track([], 3000), config, new FakeClock());
+
+            expect(simulation.isFinished(3000)).toBe(false);
+            expect(simulation.isFinished(3001)).toBe(true);
+        });
+
+        it('終了時刻を指定したらその時刻で終わる', () => {
+            const simulation = new GameSimulation(track([], 3000), config, new FakeClock(), { endTime: 2000 });
+
+            expect(simulation.isFinished(1999)).toBe(false);
+            expect(simulation.isFinished(2000)).toBe(true);
+        });
+
+        it('省略すると時計の時刻で判定する', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(track([], 3000), config, clock);
+
+            clock.time = 2999;
+            expect(simulation.isFinished()).toBe(false);
+            clock.time = 3500;
+            expect(simulation.isFinished()).toBe(true);
+        });
+
+        it('最後まで何も押さなければ全音符がミスになる', () => {
+            const clock = new FakeClock();
+            const notes = [note('a', 1000, 0), note('b', 2000, 1, 2500), note('c', 3000, 2)];
+            const simulation = new GameSimulation(track(notes, 5000), config, clock);
+
+            clock.time = 5001;
+            simulation.update();
+            expect(simulation.isFinished()).toBe(true);
+            expect(simulation.getState()).toMatchObject({ score: 0, combo: 0, maxCombo: 0, missCount: 3 });
+        });
+
+        it('開始位置より前の音符は判定しない', () => {
+            const clock = new FakeClock();
+            const simulation = new GameSimulation(
+                track([note('a', 1000, 0), note('b', 3000, 1)]),
+                config,
+                clock,
+                { startTime: 2000 }
+            );
+
+            simulation.update(5001);
+            expect(simulation.getNotes().map((n) => n.id)).toEqual(['b']);
+            expect(simulation.getState().missCount).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,429 @@
+/**
+ * ゲームシミュレーション
+ * 判定・スコア・コンボ・ゲーム終了などのルールだけを扱う（Canvas・DOM・音声には依存しない）
+ *
+ * 入力は時刻付きのイベントとして受け取り、判定の結果をコールバックで知らせる
+ * 描画・入力デバイス・音はGameEngineがこのクラスの周りで扱う
+ */
+
+import type {
+    DifficultyConfig,
+    GameClock,
+    GameNote,
+    Judgment,
+    LatencyOffsets,
+    PitchStats,
+    ReplayEvent,
+    ScoreState,
+    TimingSample,
+    TimingStats,
+    Track
+} from '../types';
+import { NoteJudge } from './NoteJudge';
+import { calculateTimingStats } from './TimingStats';
+import { calculatePitchStats } from './PitchStats';
+
+export class GameSimulation {
+    // 判定ラインを過ぎてからミスになるまでの距離（px）
+    // bad判定の最大値（300ms）を考慮して、余裕を持たせる
+    static readonly MISS_DISTANCE = 200;
+
+    private track: Track;
+    private config: DifficultyConfig;
+    private clock: GameClock;
+    private judge: NoteJudge;
+    private endTime: number | undefined;
+
+    private state: ScoreState;
+    private notes: GameNote[];
+    private heldNotes: Map<number, GameNote> = new Map();   // ホールド中の音符（レーン番号 → 音符）
+    private timingSamples: TimingSample[] = [];     // 音符を押したときのズレ（リザルトの分析用）
+    private pitchSamples: number[] = [];            // マイク入力で歌った音のズレ（セント）
+    private latency: LatencyOffsets;                // 判定に使っている遅延補正
+    private inputLog: ReplayEvent[] = [];           // 反映した入力（リプレイに保存する）
+
+    // コールバック
+    private onHit?: (note: GameNote, judgment: Judgment, hitTime: number, velocity: number) => void;
+    private onHoldEnd?: (note: GameNote, judgment: Judgment, hitTime: number) => void;
+    private onMiss?: (lane: number, note: GameNote | null) => void;
+
+    /**
+     * @param options.latency 遅延補正（省略時は補正なし）
+     * @param options.startTime この時刻より前の音符は判定対象外にする（ミリ秒）
+     * @param options.endTime ゲームを終える時刻（省略時はトラックの長さを過ぎたら）
+     */
+    constructor(
+        track: Track,
+        config: DifficultyConfig,
+        clock: GameClock,
+        options: { latency?: LatencyOffsets; startTime?: number; endTime?: number } = {}
+    ) {
+        this.track = track;
+        this.config = config;
+        this.clock = clock;
+        this.judge = new NoteJudge(config);
+        this.endTime = options.endTime;
+        this.latency = { ...(options.latency ?? { audio: 0, visual: 0 }) };
+
+        // 同じトラックをやり直せるよう、音符はコピーして使う
+        const startTime = options.startTime ?? 0;
+        this.notes = track.notes
+            .filter((note) => note.time >= startTime)
+            .map((note) => ({ ...note, y: 0, active: true, holding: false }));
+
+        this.state = {
+            score: 0,
+            combo: 0,
+            maxCombo: 0,
+            perfectCount: 0,
+            goodCount: 0,
+            badCount: 0,
+            missCount: 0,
+            currentTime: 0
+        };
+    }
+
+    /**
+     * レーンを押す（ホールド中のレーンは無視）
+     * @param velocity 打鍵の強さ（0.0 ~ 1.0）
+     * @param frequency 歌った音の周波数（マイク入力のときのみ、音程も判定する）
+     * @param time 押した時刻（省略時は現在時刻。オートプレイはフレームの間の時刻を渡す）
+     */
+    press(lane: number, velocity: number = 1, frequency?: number, time: number = this.clock.now()): void {
+        if (lane < 0 || lane >= this.getLaneCount()) return;
+        if (this.heldNotes.has(lane)) return;
+
+        this.input({
+            type: 'down',
+            time,
+            lane,
+            ...(velocity !== 1 && { velocity }),
+            ...(frequency !== undefined && { frequency })
+        });
+    }
+
+    /**
+     * レーンを離す（ホールド中ならその時刻で終点を判定する）
+     * @param time 離した時刻（省略時は現在時刻）
+     */
+    release(lane: number, time: number = this.clock.now()): void {
+        if (!this.heldNotes.has(lane)) return;
+        this.input({ type: 'up', time, lane });
+    }
+
+    /**
+     * 歌い始め（マイク入力）
+     * レーンに関係なく最も近い音符を狙ったものとし、音程はその音符と比べる
+     * @returns 狙ったレーン（音符がなくミスになったらnull）
+     */
+    sing(frequency: number): number | null {
+        const time = this.clock.now();
+        const note = this.findNearestNote(null, this.getInputTime(time));
+        if (!note) {
+            this.input({ type: 'miss', time });
+            return null;
+        }
+        this.press(note.lane, 1, frequency);
+        return note.lane;
+    }
+
+    /**
+     * ポーズ（ホールド中の音符はこの時刻で離したものとして判定）
+     */
+    pause(): void {
+        this.input({ type: 'pause', time: this.clock.now() });
+    }
+
+    /**
+     * 遅延補正を変更（変わったときだけ入力として記録する）
+     */
+    setLatency(latency: LatencyOffsets): void {
+        if (latency.audio === this.latency.audio && latency.visual === this.latency.visual) return;
+        this.input({ type: 'latency', time: this.clock.now(), audio: latency.audio, visual: latency.visual });
+    }
+
+    /**
+     * 入力を反映（ライブ入力・リプレイ共通）
+     * 先に入力時刻までの見逃し・ホールドの終点を処理して、フレームの間隔によらず同じ順序で判定する
+     */
+    input(event: ReplayEvent): void {
+        this.inputLog.push(event);
+        this.update(event.time);
+
+        switch (event.type) {
+            case 'down':
+                this.pressLane(event.lane, event.time, event.velocity ?? 1, event.frequency);
+                break;
+            case 'up':
+                this.finishHold(event.lane, this.getInputTime(event.time));
+                break;
+            case 'miss':
+                this.handleMiss(-1, null);
+                break;
+            case 'pause': {
+                const inputTime = this.getInputTime(event.time);
+                for (const lane of [...this.heldNotes.keys()]) {
+                    this.finishHold(lane, inputTime);
+                }
+                break;
+            }
+            case 'latency':
+                this.latency = { audio: event.audio, visual: event.visual };
+                break;
+        }
+    }
+
+    /**
+     * 時刻を進める（入力がなくても決まるホールドの終点・見逃しを判定）
+     * 何フレームかまとめて進めても、起きた時刻の順に処理するのでコンボが途切れる順序は変わらない
+     */
+    update(currentTime: number = this.clock.now()): void {
+        this.state.currentTime = currentTime;
+
+        const inputTime = this.getInputTime(currentTime);
+        const due: { time: number; apply: () => void }[] = [];
+
+        // ホールドの終点に達したら、押し続けていたものとして判定
+        for (const [lane, note] of this.heldNotes) {
+            const endTime = note.endTime;
+            if (endTime !== undefined && inputTime >= endTime) {
+                due.push({ time: endTime, apply: () => this.finishHold(lane, endTime) });
+            }
+        }
+
+        // 判定ラインを大きく超えたらミス（判定用の時刻に換算して比べる）
+        const missDelay = this.getMissDelay();
+        for (const note of this.notes) {
+            if (note.active && !note.holding && inputTime > note.time + missDelay) {
+                due.push({
+                    time: note.time + missDelay,
+                    apply: () => {
+                        note.active = false;
+                        this.handleMiss(note.lane, note);
+                    }
+                });
+            }
+        }
+
+        due.sort((a, b) => a.time - b.time);
+        for (const judgment of due) {
+            judgment.apply();
+        }
+    }
+
+    /**
+     * ゲームが終わる時刻を過ぎたかどうか
+     */
+    isFinished(currentTime: number = this.clock.now()): boolean {
+        return this.endTime !== undefined
+            ? currentTime >= this.endTime
+            : currentTime > this.track.duration;
+    }
+
+    /**
+     * レーンを押したときの判定
+     * @param time 押した時刻（ソングクロック基準、遅延補正前）
+     */
+    private pressLane(lane: number, time: number, velocity: number, frequency?: number): void {
+        if (lane < 0 || lane >= this.getLaneCount()) return;
+        if (this.heldNotes.has(lane)) return;
+
+        // 入力時刻（ソングクロック基準、遅延補正済み）
+        const currentTime = this.getInputTime(time);
+
+        // そのレーンの最も近い音符を探す
+        const note = this.findNearestNote(lane, currentTime);
+        if (!note) {
+            // 音符がない場合はミス
+            this.handleMiss(lane, null);
+            return;
+        }
+
+        // 判定
+        const timingJudgment = this.judge.judge(currentTime, note.time);
+        this.timingSamples.push({ type: timingJudgment.type, offset: timingJudgment.timing });
+
+        // マイク入力は音程も判定する（タイミングと悪い方の判定になる）
+        const judgment = frequency !== undefined
+            ? this.judge.applyPitch(timingJudgment, frequency, note.frequency)
+            : timingJudgment;
+        if (judgment.pitch) {
+            this.pitchSamples.push(judgment.pitch.cents);
+        }
+
+        // ホールドは離すまで判定ラインに留める
+        note.active = false;
+        if (note.endTime !== undefined) {
+            note.holding = true;
+            this.heldNotes.set(lane, note);
+        }
+
+        this.updateScore(judgment);
+        this.onHit?.(note, judgment, currentTime, velocity);
+    }
+
+    /**
+     * ホールドの終点を判定
+     * @param releaseTime 離した時刻（終点より後なら終点ちょうどとみなす）
+     */
+    private finishHold(lane: number, releaseTime: number): void {
+        const note = this.heldNotes.get(lane);
+        if (!note) return;
+
+        this.heldNotes.delete(lane);
+        note.holding = false;
+
+        const endTime = note.endTime ?? note.time;
+        const hitTime = Math.min(releaseTime, endTime);
+        const judgment = this.judge.judge(hitTime, endTime);
+        this.updateScore(judgment);
+        this.onHoldEnd?.(note, judgment, hitTime);
+    }
+
+    /**
+     * 最も近い音符を探す
+     */
+    private findNearestNote(lane: number | null, currentTime: number): GameNote | null {
+        const maxDiff = this.config.judgmentWindow.bad;
+
+        let nearest: GameNote | null = null;
+        let minDiff = Infinity;
+
+        for (const note of this.notes) {
+            if ((lane === null || note.lane === lane) && note.active) {
+                const diff = Math.abs(note.time - currentTime);
+                if (diff < minDiff && diff <= maxDiff) {
+                    minDiff = diff;
+                    nearest = note;
+                }
+            }
+        }
+
+        return nearest;
+    }
+
+    /**
+     * ミス処理
+     * @param note 見逃した音符（音符のないところを押したならnull）
+     */
+    private handleMiss(lane: number, note: GameNote | null): void {
+        this.state.missCount++;
+        this.state.combo = 0;
+        this.onMiss?.(lane, note);
+    }
+
+    /**
+     * スコア更新
+     */
+    private updateScore(judgment: Judgment): void {
+        this.state.score += judgment.score;
+
+        if (judgment.combo) {
+            this.state.combo++;
+            if (this.state.combo > this.state.maxCombo) {
+                this.state.maxCombo = this.state.combo;
+            }
+        } else {
+            this.state.combo = 0;
+        }
+
+        // カウント更新
+        switch (judgment.type) {
+            case 'perfect':
+                this.state.perfectCount++;
+                break;
+            case 'good':
+                this.state.goodCount++;
+                break;
+            case 'bad':
+                this.state.badCount++;
+                break;
+            case 'miss':
+                this.state.missCount++;
+                break;
+        }
+    }
+
+    /**
+     * 音符の時刻を過ぎてからミスになるまでの時間（判定用の時刻、ミリ秒）
+     * 判定ラインからMISS_DISTANCEだけ下に表示される時刻に合わせる
+     */
+    private getMissDelay(): number {
+        const noteSpeedMs = this.config.noteSpeed / 1000; // px/ms
+        return GameSimulation.MISS_DISTANCE / noteSpeedMs - this.latency.visual;
+    }
+
+    /**
+     * 判定に使う入力時刻
+     * 音に合わせた入力の遅れ（audioオフセット）を差し引く
+     */
+    getInputTime(currentTime: number): number {
+        return currentTime - this.latency.audio;
+    }
+
+    /**
+     * 音符の表示位置に使う時刻
+     * 映像に合わせて押したときに、補正後の入力時刻が音符の時刻と一致するようにずらす
+     */
+    getRenderTime(currentTime: number): number {
+        const { audio, visual } = this.latency;
+        return currentTime + visual - audio;
+    }
+
+    /**
+     * 判定対象の音符（描画用、判定の状態を含む）
+     */
+    getNotes(): readonly GameNote[] {
+        return this.notes;
+    }
+
+    /**
+     * スコアと判定の集計
+     */
+    getState(): ScoreState {
+        return { ...this.state };
+    }
+
+    getTrack(): Track {
+        return this.track;
+    }
+
+    getLaneCount(): number {
+        return this.config.availableKeys.length;
+    }
+
+    /**
+     * ここまでに反映した入力（時刻順）
+     */
+    getInputLog(): ReplayEvent[] {
+        return [...this.inputLog];
+    }
+
+    /**
+     * タイミング分析
+     * ホールドの終点は遅く離しても0msとして扱うため含めない
+     */
+    getTimingStats(): TimingStats {
+        return calculateTimingStats(this.timingSamples, this.config.judgmentWindow.bad);
+    }
+
+    /**
+     * 音程分析（マイク入力で判定した音符のみ）
+     */
+    getPitchStats(): PitchStats {
+        return calculatePitchStats(this.pitchSamples, NoteJudge.PITCH_WINDOW.bad);
+    }
+
+    /**
+     * コールバック設定
+     */
+    setCallbacks(callbacks: {
+        onHit?: (note: GameNote, judgment: Judgment, hitTime: number, velocity: number) => void;
+        onHoldEnd?: (note: GameNote, judgment: Judgment, hitTime: number) => void;
+        onMiss?: (lane: number, note: GameNote | null) => void;
+    }): void {
+        this.onHit = callbacks.onHit;
+        this.onHoldEnd = callbacks.onHoldEnd;
+        this.onMiss = callbacks.onMiss;
+    }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { Difficulty, MIDIFileData } from '../types';
+import { DIFFICULTY_SETTINGS, MIDI_IMPORT_PRESETS } from '../types';
+import { ChartLoader } from './ChartLoader';
+import { MIDILoader } from './MIDILoader';
+
+// MIDIの音域の両端（オクターブ -1 と 9）の音符
+const EDGE_NOTES = [0, 5, 11, 120, 124, 127];
+
+/**
+ * 音符を2拍（120BPMで1秒）ずつ並べたMIDIファイル
+ */
+function createMIDI(noteNumbers: number[]): MIDIFileData {
+    return {
+        format: 0,
+        ticksPerBeat: 480,
+        tempos: [{ tick: 0, microsecondsPerBeat: 500000 }],
+        tracks: [{
+            index: 0,
+            name: 'テスト',
+            channels: [0],
+            notes: noteNumbers.map((noteNumber, i) => ({
+                noteNumber,
+                velocity: 100,
+                channel: 0,
+                startTick: i * 960,
+                endTick: i * 960 + 240
+            }))
+        }]
+    };
+}
+
+describe('MIDILoader.toChart', () => {
+    const loader = new MIDILoader();
+
+    it('MIDIの音域の両端の音符も、譜面の検証を通る', () => {
+        const chart = loader.toChart(createMIDI(EDGE_NOTES), 'テスト');
+        expect(Object.keys(chart.difficulties)).toEqual(Object.keys(DIFFICULTY_SETTINGS));
+        expect(new ChartLoader().validate(chart)).toEqual([]);
+    });
+
+    it.each(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[])('%s: オクターブはプリセットの範囲に収める', (difficulty) => {
+        const { min, max } = MIDI_IMPORT_PRESETS[difficulty].foldOctaves!;
+        const { notes } = loader.toChartDifficulty(createMIDI(EDGE_NOTES), difficulty);
+        for (const note of notes) {
+            expect(note.octave).toBeGreaterThanOrEqual(min);
+            expect(note.octave).toBeLessThanOrEqual(max);
+        }
+    });
+
+    it('折り返しの指定がなくても、オクターブは0〜8に収める', () => {
+        const { notes } = loader.toChartDifficulty(createMIDI(EDGE_NOTES), 'expert', {});
+        const keys = DIFFICULTY_SETTINGS.expert.availableKeys;
+        expect(notes.map((note) => [keys[note.lane], note.octave])).toEqual([
+            ['C', 0], ['F', 0], ['B', 0], ['C', 8], ['E', 8], ['G', 8]
+        ]);
+    });
+});
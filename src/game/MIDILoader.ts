@@ -0,0 +1,462 @@
+/**
+ * Standard MIDI File（.mid）の読み込みと譜面への変換を行うクラス
+ */
+
+import type {
+    Chart,
+    ChartDifficulty,
+    ChartNote,
+    Difficulty,
+    MIDIFileData,
+    MIDIImportOptions,
+    MIDINoteData,
+    MIDISelection,
+    MIDITrackData,
+    TempoChange
+} from '../types';
+import {
+    CHART_FORMAT_VERSION,
+    CHART_OCTAVE_RANGE,
+    DIFFICULTY_SETTINGS,
+    MIDI_IMPORT_PRESETS,
+    NOTES,
+    midiToNote
+} from '../types';
+
+/**
+ * MIDIファイルの解析エラー
+ */
+export class MIDIParseError extends Error {
+    readonly offset: number;    // エラーが起きたバイト位置
+
+    constructor(message: string, offset: number) {
+        super(`${message}（${offset}バイト目）`);
+        this.name = 'MIDIParseError';
+        this.offset = offset;
+    }
+}
+
+/**
+ * バイト列を先頭から読み進めるリーダー
+ */
+class ByteReader {
+    private view: DataView;
+    pos: number = 0;
+
+    constructor(buffer: ArrayBuffer) {
+        this.view = new DataView(buffer);
+    }
+
+    get length(): number {
+        return this.view.byteLength;
+    }
+
+    uint8(): number {
+        this.ensure(1);
+        return this.view.getUint8(this.pos++);
+    }
+
+    uint16(): number {
+        this.ensure(2);
+        const value = this.view.getUint16(this.pos);
+        this.pos += 2;
+        return value;
+    }
+
+    uint32(): number {
+        this.ensure(4);
+        const value = this.view.getUint32(this.pos);
+        this.pos += 4;
+        return value;
+    }
+
+    /**
+     * 可変長数値（7ビットずつ、最上位ビットが継続フラグ）
+     */
+    varInt(): number {
+        let value = 0;
+        for (let i = 0; i < 4; i++) {
+            const byte = this.uint8();
+            value = (value << 7) | (byte & 0x7f);
+            if ((byte & 0x80) === 0) return value;
+        }
+        throw new MIDIParseError('可変長数値が長すぎます', this.pos);
+    }
+
+    ascii(length: number): string {
+        return String.fromCharCode(...this.bytes(length));
+    }
+
+    bytes(length: number): Uint8Array {
+        this.ensure(length);
+        const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.pos, length);
+        this.pos += length;
+        return bytes;
+    }
+
+    private ensure(length: number): void {
+        if (this.pos + length > this.view.byteLength) {
+            throw new MIDIParseError('ファイルが途中で終わっています', this.pos);
+        }
+    }
+}
+
+export class MIDILoader {
+    // 打楽器用のチャンネル（GMではチャンネル10）
+    private static readonly DRUM_CHANNEL = 9;
+    // ホールドの終点と次の音符の間に空ける時間（ミリ秒）
+    private static readonly HOLD_GAP = 100;
+
+    /**
+     * バイナリからMIDIファイルを解析
+     * @throws MIDIParseError 形式が不正な場合
+     */
+    parse(buffer: ArrayBuffer): MIDIFileData {
+        const reader = new ByteReader(buffer);
+
+        // ヘッダーチャンク
+        if (reader.length < 14 || reader.ascii(4) !== 'MThd') {
+            throw new MIDIParseError('MIDIファイルではありません（MThdがありません）', 0);
+        }
+        const headerLength = reader.uint32();
+        const format = reader.uint16();
+        const trackCount = reader.uint16();
+        const division = reader.uint16();
+        reader.pos = 8 + headerLength;
+
+        if (format > 2) {
+            throw new MIDIParseError(`未対応のフォーマットです: ${format}`, 8);
+        }
+
+        const data: MIDIFileData = {
+            format,
+            ticksPerBeat: division,
+            tempos: [],
+            tracks: []
+        };
+
+        // 最上位ビットが立っていればSMPTE形式（フレーム/秒 × ティック/フレーム）
+        if (division & 0x8000) {
+            const framesPerSecond = 256 - (division >> 8);
+            const ticksPerFrame = division & 0xff;
+            data.ticksPerSecond = framesPerSecond * ticksPerFrame;
+            data.ticksPerBeat = data.ticksPerSecond / 2;  // 120 BPM相当として扱う
+        }
+
+        // トラックチャンク
+        for (let i = 0; i < trackCount && reader.pos < reader.length; i++) {
+            const chunkStart = reader.pos;
+            const chunkType = reader.ascii(4);
+            const chunkLength = reader.uint32();
+            const chunkEnd = reader.pos + chunkLength;
+
+            if (chunkType !== 'MTrk') {
+                // 不明なチャンクは読み飛ばす
+                reader.pos = chunkEnd;
+                i--;
+                continue;
+            }
+            if (chunkEnd > reader.length) {
+                throw new MIDIParseError(`トラック${i}が途中で終わっています`, chunkStart);
+            }
+
+            data.tracks.push(this.parseTrack(reader, chunkEnd, data.tracks.length, data.tempos));
+            reader.pos = chunkEnd;
+        }
+
+        // テンポ指定がなければ120 BPM
+        data.tempos.sort((a, b) => a.tick - b.tick);
+        if (data.tempos.length === 0 || data.tempos[0].tick > 0) {
+            data.tempos.unshift({ tick: 0, microsecondsPerBeat: 500000 });
+        }
+
+        return data;
+    }
+
+    /**
+     * ファイルから読み込み
+     */
+    async loadFromFile(file: File): Promise<MIDIFileData> {
+        const buffer = await file.arrayBuffer();
+        return this.parse(buffer);
+    }
+
+    /**
+     * トラックチャンクを解析
+     */
+    private parseTrack(
+        reader: ByteReader,
+        end: number,
+        index: number,
+        tempos: TempoChange[]
+    ): MIDITrackData {
+        const track: MIDITrackData = { index, name: '', notes: [], channels: [] };
+        // 鳴っている音符（チャンネル・ノート番号 → ノートオンの順）
+        const openNotes = new Map<number, MIDINoteData[]>();
+        const channels = new Set<number>();
+
+        let tick = 0;
+        let runningStatus = 0;
+
+        while (reader.pos < end) {
+            tick += reader.varInt();
+
+            let status = reader.uint8();
+            if (status < 0x80) {
+                // ランニングステータス（直前のステータスを使い回す）
+                if (runningStatus === 0) {
+                    throw new MIDIParseError('ステータスバイトがありません', reader.pos - 1);
+                }
+                reader.pos--;
+                status = runningStatus;
+            }
+
+            // メタイベント
+            if (status === 0xff) {
+                const type = reader.uint8();
+                const length = reader.varInt();
+                const bytes = reader.bytes(length);
+
+                if (type === 0x51 && length === 3) {
+                    tempos.push({ tick, microsecondsPerBeat: (bytes[0] << 16) | (bytes[1] << 8) | bytes[2] });
+                } else if (type === 0x03 && !track.name) {
+                    track.name = String.fromCharCode(...bytes).trim();
+                } else if (type === 0x2f) {
+                    break;
+                }
+                continue;
+            }
+
+            // システムエクスクルーシブ
+            if (status === 0xf0 || status === 0xf7) {
+                reader.pos += reader.varInt();
+                continue;
+            }
+
+            // チャンネルメッセージ
+            runningStatus = status;
+            const type = status & 0xf0;
+            const channel = status & 0x0f;
+            const data1 = reader.uint8();
+            const data2 = type === 0xc0 || type === 0xd0 ? 0 : reader.uint8();
+            const key = channel * 128 + data1;
+
+            if (type === 0x90 && data2 > 0) {
+                const note: MIDINoteData = { noteNumber: data1, velocity: data2, channel, startTick: tick, endTick: tick };
+                openNotes.set(key, [...(openNotes.get(key) ?? []), note]);
+            } else if (type === 0x80 || type === 0x90) {
+                // ノートオフ（ベロシティ0のノートオンを含む）
+                const note = openNotes.get(key)?.shift();
+                if (note) {
+                    note.endTick = tick;
+                    track.notes.push(note);
+                    channels.add(channel);
+                }
+            }
+        }
+
+        // ノートオフがない音符はトラックの最後で終わらせる
+        for (const notes of openNotes.values()) {
+            for (const note of notes) {
+                note.endTick = tick;
+                track.notes.push(note);
+                channels.add(note.channel);
+            }
+        }
+
+        track.notes.sort((a, b) => a.startTick - b.startTick || b.noteNumber - a.noteNumber);
+        track.channels = [...channels].sort((a, b) => a - b);
+        return track;
+    }
+
+    /**
+     * ティック → ミリ秒（テンポ変更を考慮）
+     */
+    tickToMs(midi: MIDIFileData, tick: number): number {
+        if (midi.ticksPerSecond) {
+            return tick / midi.ticksPerSecond * 1000;
+        }
+
+        let ms = 0;
+        for (let i = 0; i < midi.tempos.length; i++) {
+            const tempo = midi.tempos[i];
+            const nextTick = midi.tempos[i + 1]?.tick ?? Infinity;
+            if (tick <= tempo.tick) break;
+
+            const ticks = Math.min(tick, nextTick) - tempo.tick;
+            ms += ticks / midi.ticksPerBeat * tempo.microsecondsPerBeat / 1000;
+        }
+        return ms;
+    }
+
+    /**
+     * 最初のテンポ（BPM）
+     */
+    getBPM(midi: MIDIFileData): number {
+        return Math.round(60000000 / midi.tempos[0].microsecondsPerBeat);
+    }
+
+    /**
+     * 音符を含むトラックの一覧
+     */
+    getPlayableTracks(midi: MIDIFileData): MIDITrackData[] {
+        return midi.tracks.filter((track) => track.notes.length > 0);
+    }
+
+    /**
+     * 指定したトラック・チャンネルの音符を取得
+     * チャンネル指定がない場合、打楽器チャンネルは除く
+     */
+    private selectNotes(midi: MIDIFileData, selection: MIDISelection): MIDINoteData[] {
+        const track = selection.track !== undefined
+            ? midi.tracks[selection.track]
+            : [...midi.tracks].sort((a, b) => b.notes.length - a.notes.length)[0];
+        if (!track) {
+            throw new Error(`トラック${selection.track}がありません`);
+        }
+
+        return track.notes.filter((note) => selection.channel !== undefined
+            ? note.channel === selection.channel
+            : note.channel !== MIDILoader.DRUM_CHANNEL);
+    }
+
+    /**
+     * 難易度ごとの譜面データに変換
+     */
+    toChartDifficulty(
+        midi: MIDIFileData,
+        difficulty: Difficulty,
+        options: MIDIImportOptions = MIDI_IMPORT_PRESETS[difficulty],
+        selection: MIDISelection = {}
+    ): ChartDifficulty {
+        const availableKeys = DIFFICULTY_SETTINGS[difficulty].availableKeys;
+        const grid = options.quantize && !midi.ticksPerSecond
+            ? midi.ticksPerBeat / options.quantize
+            : 1;
+        const snap = (tick: number) => Math.round(tick / grid) * grid;
+
+        // 同じ時刻の音符をまとめる（クオンタイズ後の時刻）
+        const groups = new Map<number, MIDINoteData[]>();
+        for (const note of this.selectNotes(midi, selection)) {
+            const tick = snap(note.startTick);
+            groups.set(tick, [...(groups.get(tick) ?? []), note]);
+        }
+
+        const notes: ChartNote[] = [];
+        let lastTime = -Infinity;
+
+        for (const [tick, group] of [...groups].sort((a, b) => a[0] - b[0])) {
+            const time = Math.round(this.tickToMs(midi, tick));
+
+            // 間隔が短すぎる音符は間引く
+            if (options.minInterval !== undefined && time - lastTime < options.minInterval) continue;
+            lastTime = time;
+
+            // 高い音（メロディ）から優先して、同じレーンは1つだけ
+            const usedLanes = new Set<number>();
+            for (const note of [...group].sort((a, b) => b.noteNumber - a.noteNumber)) {
+                if (options.maxChord !== undefined && usedLanes.size >= options.maxChord) break;
+
+                const { lane, octave } = this.mapToLane(note.noteNumber, availableKeys, options);
+                if (usedLanes.has(lane)) continue;
+                usedLanes.add(lane);
+
+                const chartNote: ChartNote = { time, lane, octave };
+                const duration = Math.round(this.tickToMs(midi, Math.max(snap(note.endTick), tick)) - time);
+                if (options.holdThreshold !== undefined && duration >= options.holdThreshold) {
+                    chartNote.duration = duration;
+                }
+                notes.push(chartNote);
+            }
+        }
+
+        this.resolveHoldOverlaps(notes);
+        return { notes };
+    }
+
+    /**
+     * ノート番号 → レーンとオクターブ
+     * 使えない音名は最も近い音名に寄せ、オクターブは指定範囲に折り返す
+     * （指定がなくても譜面で使えるオクターブの範囲には収める）
+     */
+    private mapToLane(
+        noteNumber: number,
+        availableKeys: string[],
+        options: MIDIImportOptions
+    ): { lane: number; octave: number } {
+        let best = { lane: 0, semitones: Infinity, shift: 0 };
+        const { name, octave } = midiToNote(noteNumber);
+        const pitchClass = ((noteNumber % 12) + 12) % 12;
+
+        availableKeys.forEach((key, lane) => {
+            if (key === name) {
+                best = { lane, semitones: 0, shift: 0 };
+                return;
+            }
+            // 上下どちらに寄せるか（近い方、同じなら下）
+            const keyClass = Object.keys(NOTES).indexOf(key);
+            const up = (keyClass - pitchClass + 12) % 12;
+            const down = (pitchClass - keyClass + 12) % 12;
+            const shift = down <= up ? -down : up;
+            if (Math.abs(shift) < best.semitones) {
+                best = { lane, semitones: Math.abs(shift), shift };
+            }
+        });
+
+        // 寄せた結果Cをまたいだらオクターブも変わる
+        let mappedOctave = octave + Math.floor((pitchClass + best.shift) / 12);
+        const range = options.foldOctaves ?? CHART_OCTAVE_RANGE;
+        const min = Math.max(range.min, CHART_OCTAVE_RANGE.min);
+        const max = Math.min(range.max, CHART_OCTAVE_RANGE.max);
+        mappedOctave = Math.max(min, Math.min(max, mappedOctave));
+
+        return { lane: best.lane, octave: mappedOctave };
+    }
+
+    /**
+     * 同じレーンで次の音符と重なるホールドを短くする（短くなりすぎたら単音にする）
+     */
+    private resolveHoldOverlaps(notes: ChartNote[]): void {
+        const lastByLane = new Map<number, ChartNote>();
+
+        for (const note of notes) {
+            const previous = lastByLane.get(note.lane);
+            if (previous?.duration !== undefined && previous.time + previous.duration + MIDILoader.HOLD_GAP > note.time) {
+                const duration = note.time - previous.time - MIDILoader.HOLD_GAP;
+                if (duration >= MIDILoader.HOLD_GAP * 3) {
+                    previous.duration = duration;
+                } else {
+                    delete previous.duration;
+                }
+            }
+            lastByLane.set(note.lane, note);
+        }
+    }
+
+    /**
+     * すべての難易度を含む譜面に変換
+     * 音符が1つもない難易度は含めない
+     */
+    toChart(midi: MIDIFileData, title: string, selection: MIDISelection = {}): Chart {
+        const difficulties: Chart['difficulties'] = {};
+        for (const difficulty of Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]) {
+            const data = this.toChartDifficulty(midi, difficulty, MIDI_IMPORT_PRESETS[difficulty], selection);
+            if (data.notes.length > 0) {
+                difficulties[difficulty] = data;
+            }
+        }
+
+        return {
+            version: CHART_FORMAT_VERSION,
+            title,
+            artist: '',
+            bpm: this.getBPM(midi),
+            offset: 0,
+            metadata: {
+                description: 'MIDIファイルから変換',
+                createdAt: new Date().toISOString()
+            },
+            difficulties
+        };
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../types';
+import type { Difficulty } from '../types';
+import { NoteJudge } from './NoteJudge';
+
+describe('NoteJudge.judge', () => {
+    describe.each(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[])('%s', (difficulty) => {
+        const config = DIFFICULTY_SETTINGS[difficulty];
+        const { perfect, good, bad } = config.judgmentWindow;
+        const judge = new NoteJudge(config);
+        const target = 1000;
+
+        it('判定の幅ちょうどはその判定に入る（早い・遅いとも）', () => {
+            expect(judge.judge(target, target).type).toBe('perfect');
+            for (const sign of [-1, 1]) {
+                expect(judge.judge(target + sign * perfect, target).type).toBe('perfect');
+                expect(judge.judge(target + sign * good, target).type).toBe('good');
+                expect(judge.judge(target + sign * bad, target).type).toBe('bad');
+            }
+        });
+
+        it('判定の幅を少しでも超えると一段階下がる', () => {
+            for (const sign of [-1, 1]) {
+                expect(judge.judge(target + sign * (perfect + 0.5), target).type).toBe('good');
+                expect(judge.judge(target + sign * (good + 0.5), target).type).toBe('bad');
+                expect(judge.judge(target + sign * (bad + 0.5), target).type).toBe('miss');
+            }
+        });
+
+        it('ズレは符号付き（負 = 早い）', () => {
+            expect(judge.judge(target - 10, target).timing).toBe(-10);
+            expect(judge.judge(target + 10, target).timing).toBe(10);
+        });
+    });
+
+    it('判定ごとの点数とコンボ', () => {
+        const judge = new NoteJudge(DIFFICULTY_SETTINGS.normal);
+        const { perfect, good, bad } = DIFFICULTY_SETTINGS.normal.judgmentWindow;
+
+        expect(judge.judge(0, 0)).toMatchObject({ score: 100, combo: true });
+        expect(judge.judge(good, 0)).toMatchObject({ score: 50, combo: true });
+        expect(judge.judge(bad, 0)).toMatchObject({ score: 10, combo: false });
+        expect(judge.judge(bad + perfect, 0)).toMatchObject({ score: 0, combo: false });
+    });
+});
@@ -2,7 +2,7 @@
  * 音符の判定を行うクラス
  */
 
-import type { Judgment, JudgmentType, AudioEffects } from '../types';
+import type { Judgment, JudgmentType, AudioEffects, PitchJudgment } from '../types';
 import type { DifficultyConfig } from '../types';
 
 export class NoteJudge {
@@ -12,48 +12,86 @@ export class NoteJudge {
         this.config = config;
     }
 
+    /**
+     * 音程判定の範囲（セント）
+     */
+    static readonly PITCH_WINDOW = {
+        perfect: 20,
+        good: 50,
+        bad: 100
+    };
+
+    // 判定の良い順
+    private static readonly JUDGMENT_ORDER: JudgmentType[] = ['perfect', 'good', 'bad', 'miss'];
+
     /**
      * タイミング判定
+     * timingには符号付きのズレ（負 = 早い、正 = 遅い）を入れる
      */
     judge(playerTime: number, targetTime: number): Judgment {
-        const diff = Math.abs(playerTime - targetTime);
+        const timing = playerTime - targetTime;
+        const diff = Math.abs(timing);
         
         if (diff <= this.config.judgmentWindow.perfect) {
-            return {
-                type: 'perfect',
-                score: 100,
-                combo: true,
-                message: 'PERFECT!',
-                color: '#FFD700',
-                timing: diff
-            };
+            return this.createJudgment('perfect', timing);
         } else if (diff <= this.config.judgmentWindow.good) {
-            return {
-                type: 'good',
-                score: 50,
-                combo: true,
-                message: 'Good',
-                color: '#00FF00',
-                timing: diff
-            };
+            return this.createJudgment('good', timing);
         } else if (diff <= this.config.judgmentWindow.bad) {
-            return {
-                type: 'bad',
-                score: 10,
-                combo: false,
-                message: 'Bad',
-                color: '#FFFF00',
-                timing: diff
-            };
+            return this.createJudgment('bad', timing);
         } else {
-            return {
-                type: 'miss',
-                score: 0,
-                combo: false,
-                message: 'Miss',
-                color: '#FF0000',
-                timing: diff
-            };
+            return this.createJudgment('miss', timing);
+        }
+    }
+
+    /**
+     * 音程判定
+     * オクターブ違いは同じ音とみなす（声域に関係なく歌えるように）
+     */
+    judgePitch(frequency: number, targetFrequency: number): PitchJudgment {
+        const cents = NoteJudge.getCentsDeviation(frequency, targetFrequency);
+        const diff = Math.abs(cents);
+        
+        if (diff <= NoteJudge.PITCH_WINDOW.perfect) {
+            return { type: 'perfect', cents };
+        } else if (diff <= NoteJudge.PITCH_WINDOW.good) {
+            return { type: 'good', cents };
+        } else if (diff <= NoteJudge.PITCH_WINDOW.bad) {
+            return { type: 'bad', cents };
+        }
+        return { type: 'miss', cents };
+    }
+
+    /**
+     * タイミング判定に音程判定を加える（悪い方の判定になる）
+     */
+    applyPitch(judgment: Judgment, frequency: number, targetFrequency: number): Judgment {
+        const pitch = this.judgePitch(frequency, targetFrequency);
+        const order = NoteJudge.JUDGMENT_ORDER;
+        const type = order[Math.max(order.indexOf(judgment.type), order.indexOf(pitch.type))];
+        return { ...this.createJudgment(type, judgment.timing), pitch };
+    }
+
+    /**
+     * 目標の音からのズレ（セント、-600 ~ 600 にオクターブを畳み込む）
+     */
+    static getCentsDeviation(frequency: number, targetFrequency: number): number {
+        const cents = 1200 * Math.log2(frequency / targetFrequency);
+        return cents - 1200 * Math.round(cents / 1200);
+    }
+
+    /**
+     * 判定の種類から判定結果を作成
+     */
+    private createJudgment(type: JudgmentType, timing: number): Judgment {
+        switch (type) {
+            case 'perfect':
+                return { type, score: 100, combo: true, message: 'PERFECT!', color: '#FFD700', timing };
+            case 'good':
+                return { type, score: 50, combo: true, message: 'Good', color: '#00FF00', timing };
+            case 'bad':
+                return { type, score: 10, combo: false, message: 'Bad', color: '#FFFF00', timing };
+            default: // miss
+                return { type, score: 0, combo: false, message: 'Miss', color: '#FF0000', timing };
         }
     }
 
@@ -67,6 +105,8 @@ export class NoteJudge {
                     waveform: 'sine',
                     volume: 1.0,
                     reverb: 0.3,
+                    delay: 0.25,
+                    chorus: 0.1,
                     detune: 0,
                     filterFreq: 5000
                 };
@@ -75,6 +115,8 @@ export class NoteJudge {
                     waveform: 'sine',
                     volume: 0.8,
                     reverb: 0.2,
+                    delay: 0.15,
+                    chorus: 0.3,
                     detune: 5,
                     filterFreq: 3000
                 };
@@ -83,6 +125,8 @@ export class NoteJudge {
                     waveform: 'square',
                     volume: 0.5,
                     reverb: 0.1,
+                    delay: 0.05,
+                    chorus: 0.6,
                     detune: 20,
                     filterFreq: 1000
                 };
@@ -91,6 +135,8 @@ export class NoteJudge {
                     waveform: 'sawtooth',
                     volume: 0.3,
                     reverb: 0,
+                    delay: 0,
+                    chorus: 0.9,
                     detune: 50,
                     filterFreq: 500
                 };
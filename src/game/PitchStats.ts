@@ -0,0 +1,24 @@
+/**
+ * 音程分析
+ * マイク入力で歌った音の、目標の音からのズレを集計する
+ */
+
+import type { PitchStats } from '../types';
+
+/**
+ * 音程分析を計算
+ * @param cents 音符ごとの目標からのズレ（セント）
+ * @param range 精度0%とみなすズレ（セント、通常はBad判定の範囲）
+ */
+export function calculatePitchStats(cents: number[], range: number): PitchStats {
+    const count = cents.length;
+    if (count === 0) {
+        return { count: 0, mean: 0, meanAbs: 0, accuracy: 0 };
+    }
+
+    const mean = cents.reduce((sum, value) => sum + value, 0) / count;
+    const meanAbs = cents.reduce((sum, value) => sum + Math.abs(value), 0) / count;
+    const accuracy = cents.reduce((sum, value) => sum + Math.max(0, 1 - Math.abs(value) / range), 0) / count * 100;
+
+    return { count, mean, meanAbs, accuracy };
+}
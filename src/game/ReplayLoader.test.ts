@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { REPLAY_FORMAT_VERSION } from '../types';
+import { ReplayLoadError, ReplayLoader } from './ReplayLoader';
+
+/**
+ * 正しいリプレイに一部の項目を足したJSON文字列
+ */
+function replayJSON(overrides: Record<string, unknown> = {}): string {
+    return JSON.stringify({
+        version: REPLAY_FORMAT_VERSION,
+        date: '2026-10-19T00:00:00.000Z',
+        difficulty: 'normal',
+        trackName: 'テスト',
+        seed: 42,
+        latency: { audio: 0, visual: 0 },
+        events: [{ type: 'down', time: 1000, lane: 0 }, { type: 'pause', time: 1500 }],
+        endTime: 5000,
+        result: { score: 100, maxCombo: 1, perfectCount: 1, goodCount: 0, badCount: 0, missCount: 0 },
+        ...overrides
+    });
+}
+
+describe('ReplayLoader.parse', () => {
+    const loader = new ReplayLoader();
+
+    it('正しいリプレイを読み込める', () => {
+        expect(loader.parse(replayJSON()).events).toHaveLength(2);
+    });
+
+    it('保存した形式のまま読み直せる', () => {
+        const replay = loader.parse(replayJSON());
+        expect(loader.parse(loader.serialize(replay))).toEqual(replay);
+    });
+
+    it.each(['toString', 'constructor', 'beginner'])('難易度 %s は受け付けない', (difficulty) => {
+        expect(() => loader.parse(replayJSON({ difficulty }))).toThrow(ReplayLoadError);
+    });
+
+    it('不正な入力は位置付きで報告する', () => {
+        expect(() => loader.parse(replayJSON({ events: [{ type: 'down', time: 0, lane: 0.5 }] })))
+            .toThrow('events[0]');
+    });
+
+    it('シードも譜面もなければエラー', () => {
+        expect(() => loader.parse(replayJSON({ seed: undefined }))).toThrow(ReplayLoadError);
+    });
+
+    it('時刻順に並んでいない入力は受け付けない', () => {
+        const events = [{ type: 'down', time: 1000, lane: 0 }, { type: 'up', time: 999, lane: 0 }];
+        expect(() => loader.parse(replayJSON({ events }))).toThrow('events[1]: 入力が時刻順に並んでいません');
+    });
+
+    it('同じ時刻の入力は続けて並んでいてよい', () => {
+        const events = [{ type: 'down', time: 1000, lane: 0 }, { type: 'down', time: 1000, lane: 1 }];
+        expect(loader.parse(replayJSON({ events })).events).toEqual(events);
+    });
+
+    it('難易度のレーン数以上のレーンへの入力は受け付けない', () => {
+        expect(() => loader.parse(replayJSON({ events: [{ type: 'down', time: 0, lane: 5 }] })))
+            .toThrow('events[0]: レーン番号は0〜4である必要があります');
+        expect(() => loader.parse(replayJSON({ events: [{ type: 'up', time: 0, lane: -1 }] })))
+            .toThrow('events[0]');
+        expect(loader.parse(replayJSON({ difficulty: 'expert', events: [{ type: 'down', time: 0, lane: 11 }] })).events)
+            .toHaveLength(1);
+    });
+
+    it('保存したトラックの音符も難易度のレーン数以上のレーンは受け付けない', () => {
+        const note = { id: 'note_0', time: 1000, frequency: 261.63, noteName: 'C' };
+        const track = (lane: number) => ({ id: 'chart', name: 'テスト', bpm: 120, duration: 5000, notes: [{ ...note, lane }] });
+        expect(() => loader.parse(replayJSON({ seed: undefined, track: track(5) }))).toThrow('track.notes[0]');
+        expect(loader.parse(replayJSON({ seed: undefined, track: track(4) })).track?.notes).toHaveLength(1);
+    });
+});
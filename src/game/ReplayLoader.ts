@@ -0,0 +1,179 @@
+/**
+ * リプレイファイルの読み書きを行うクラス
+ */
+
+import type { Difficulty, ReplayData, ReplayEvent, ReplayTrack, Track } from '../types';
+import { DIFFICULTY_SETTINGS, REPLAY_FORMAT_VERSION } from '../types';
+import { isFiniteNumber, isObject } from '../utils';
+
+/**
+ * リプレイの読み込みエラー
+ */
+export class ReplayLoadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReplayLoadError';
+    }
+}
+
+export class ReplayLoader {
+    /**
+     * リプレイファイル（JSON文字列）を解析・検証
+     * 問題があればReplayLoadErrorを投げる
+     */
+    parse(text: string): ReplayData {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new ReplayLoadError('リプレイファイルがJSONとして読めません');
+        }
+
+        this.validate(data);
+        return data;
+    }
+
+    /**
+     * ファイルからリプレイを読み込み
+     */
+    async loadFromFile(file: File): Promise<ReplayData> {
+        const text = await file.text();
+        return this.parse(text);
+    }
+
+    /**
+     * リプレイをファイルに保存する文字列に変換
+     */
+    serialize(replay: ReplayData): string {
+        return JSON.stringify(replay);
+    }
+
+    /**
+     * リプレイに保存するトラック（表示用の状態を除く）
+     */
+    static toReplayTrack(track: Track): ReplayTrack {
+        return {
+            id: track.id,
+            name: track.name,
+            bpm: track.bpm,
+            duration: track.duration,
+            notes: track.notes.map(({ id, time, lane, frequency, noteName, endTime }) => (
+                endTime !== undefined
+                    ? { id, time, lane, frequency, noteName, endTime }
+                    : { id, time, lane, frequency, noteName }
+            ))
+        };
+    }
+
+    /**
+     * リプレイに保存したトラックを再生できる形に戻す
+     */
+    static toTrack(track: ReplayTrack, difficulty: Difficulty): Track {
+        return {
+            id: track.id,
+            name: track.name,
+            difficulty,
+            bpm: track.bpm,
+            duration: track.duration,
+            notes: track.notes.map((note) => ({ ...note, y: 0, active: true }))
+        };
+    }
+
+    /**
+     * リプレイデータを検証（最初に見つけた問題でReplayLoadErrorを投げる）
+     */
+    private validate(data: unknown): asserts data is ReplayData {
+        if (!isObject(data)) {
+            throw new ReplayLoadError('リプレイはJSONオブジェクトである必要があります');
+        }
+
+        if (data.version !== REPLAY_FORMAT_VERSION) {
+            throw new ReplayLoadError(`未対応のリプレイです（バージョン: ${data.version}）`);
+        }
+        if (typeof data.difficulty !== 'string' || !Object.hasOwn(DIFFICULTY_SETTINGS, data.difficulty)) {
+            throw new ReplayLoadError(`難易度（difficulty）は ${Object.keys(DIFFICULTY_SETTINGS).join(' / ')} のいずれかである必要があります`);
+        }
+        if (typeof data.trackName !== 'string') {
+            throw new ReplayLoadError('曲名（trackName）は文字列である必要があります');
+        }
+        if (!isFiniteNumber(data.endTime)) {
+            throw new ReplayLoadError('終了時刻（endTime）は数値である必要があります');
+        }
+        if (!isObject(data.latency) || !isFiniteNumber(data.latency.audio) || !isFiniteNumber(data.latency.visual)) {
+            throw new ReplayLoadError('遅延補正（latency）には audio と visual の数値が必要です');
+        }
+        if (!isObject(data.result)) {
+            throw new ReplayLoadError('記録時の結果（result）がありません');
+        }
+
+        const laneCount = DIFFICULTY_SETTINGS[data.difficulty as Difficulty].availableKeys.length;
+
+        // トラック（シードか音符のどちらかが必要）
+        if (data.track !== undefined) {
+            this.validateTrack(data.track, laneCount);
+        } else if (!isFiniteNumber(data.seed)) {
+            throw new ReplayLoadError('トラック（track）かシード（seed）のどちらかが必要です');
+        }
+
+        // 入力
+        if (!Array.isArray(data.events)) {
+            throw new ReplayLoadError('入力（events）は配列である必要があります');
+        }
+        // 再生は先頭から順に反映するため、時刻順でレーンが難易度の範囲内である必要がある
+        data.events.forEach((event: unknown, i: number, events: unknown[]) => {
+            if (!isReplayEvent(event)) {
+                throw new ReplayLoadError(`events[${i}]: 不正な入力です`);
+            }
+            if ((event.type === 'down' || event.type === 'up') && (event.lane < 0 || event.lane >= laneCount)) {
+                throw new ReplayLoadError(`events[${i}]: レーン番号は0〜${laneCount - 1}である必要があります`);
+            }
+            const previous = events[i - 1] as ReplayEvent | undefined;
+            if (previous && event.time < previous.time) {
+                throw new ReplayLoadError(`events[${i}]: 入力が時刻順に並んでいません`);
+            }
+        });
+    }
+
+    /**
+     * 保存したトラックを検証
+     */
+    private validateTrack(track: unknown, laneCount: number): void {
+        if (!isObject(track) || typeof track.id !== 'string' || typeof track.name !== 'string'
+            || !isFiniteNumber(track.bpm) || !isFiniteNumber(track.duration) || !Array.isArray(track.notes)) {
+            throw new ReplayLoadError('トラック（track）には id・name・bpm・duration・notes が必要です');
+        }
+
+        track.notes.forEach((note: unknown, i: number) => {
+            if (!isObject(note) || typeof note.id !== 'string' || typeof note.noteName !== 'string'
+                || !isFiniteNumber(note.time) || !isFiniteNumber(note.frequency)
+                || typeof note.lane !== 'number' || !Number.isInteger(note.lane)
+                || note.lane < 0 || note.lane >= laneCount
+                || (note.endTime !== undefined && !isFiniteNumber(note.endTime))) {
+                throw new ReplayLoadError(`track.notes[${i}]: 不正な音符です`);
+            }
+        });
+    }
+}
+
+/**
+ * 記録された入力として正しいかどうか
+ */
+function isReplayEvent(value: unknown): value is ReplayEvent {
+    if (!isObject(value) || !isFiniteNumber(value.time)) return false;
+
+    switch (value.type) {
+        case 'down':
+            return Number.isInteger(value.lane)
+                && (value.velocity === undefined || isFiniteNumber(value.velocity))
+                && (value.frequency === undefined || isFiniteNumber(value.frequency));
+        case 'up':
+            return Number.isInteger(value.lane);
+        case 'miss':
+        case 'pause':
+            return true;
+        case 'latency':
+            return isFiniteNumber(value.audio) && isFiniteNumber(value.visual);
+        default:
+            return false;
+    }
+}
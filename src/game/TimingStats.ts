@@ -0,0 +1,52 @@
+/**
+ * タイミング分析
+ * プレイ中の入力のズレから平均・標準偏差・早押し/遅押し・ヒストグラムを求める
+ */
+
+import type { TimingSample, TimingStats } from '../types';
+
+/**
+ * タイミング分析を計算
+ * @param samples プレイ中に記録した入力のズレ
+ * @param range ヒストグラムの範囲（±ミリ秒、通常はBad判定のウィンドウ）
+ * @param binSize ヒストグラム1本あたりの幅（ミリ秒）
+ */
+export function calculateTimingStats(
+    samples: TimingSample[],
+    range: number,
+    binSize: number = 10
+): TimingStats {
+    const count = samples.length;
+    const mean = count > 0
+        ? samples.reduce((sum, sample) => sum + sample.offset, 0) / count
+        : 0;
+    const variance = count > 0
+        ? samples.reduce((sum, sample) => sum + (sample.offset - mean) ** 2, 0) / count
+        : 0;
+
+    const early = { perfect: 0, good: 0, bad: 0 };
+    const late = { perfect: 0, good: 0, bad: 0 };
+
+    // 0ms を中心のビンに含めるため、半ビンずらして区切る
+    const binsPerSide = Math.ceil(range / binSize);
+    const start = -(binsPerSide + 0.5) * binSize;
+    const counts: number[] = new Array(binsPerSide * 2 + 1).fill(0);
+
+    for (const { type, offset } of samples) {
+        if (type !== 'miss' && offset !== 0) {
+            (offset < 0 ? early : late)[type]++;
+        }
+
+        const bin = Math.floor((offset - start) / binSize);
+        counts[Math.max(0, Math.min(counts.length - 1, bin))]++;
+    }
+
+    return {
+        count,
+        mean,
+        stdDev: Math.sqrt(variance),
+        early,
+        late,
+        histogram: { binSize, start, counts }
+    };
+}
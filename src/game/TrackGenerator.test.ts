@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../types';
+import type { Difficulty } from '../types';
+import { TrackGenerator } from './TrackGenerator';
+
+const SEEDS = [0, 1, 42, 12345, 4294967295];
+
+describe('TrackGenerator.generateTrack', () => {
+    const generator = new TrackGenerator();
+
+    describe.each(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[])('%s', (difficulty) => {
+        const config = DIFFICULTY_SETTINGS[difficulty];
+
+        it.each(SEEDS)('seed %i: 音符は時刻順', (seed) => {
+            const { notes } = generator.generateTrack(difficulty, config, seed);
+            expect(notes.length).toBeGreaterThan(0);
+            for (let i = 1; i < notes.length; i++) {
+                expect(notes[i].time).toBeGreaterThanOrEqual(notes[i - 1].time);
+            }
+        });
+
+        it.each(SEEDS)('seed %i: レーンは使える鍵盤の範囲内で、音名と一致する', (seed) => {
+            const { notes } = generator.generateTrack(difficulty, config, seed);
+            for (const note of notes) {
+                expect(Number.isInteger(note.lane)).toBe(true);
+                expect(note.lane).toBeGreaterThanOrEqual(0);
+                expect(note.lane).toBeLessThan(config.availableKeys.length);
+                expect(note.noteName).toBe(config.availableKeys[note.lane]);
+            }
+        });
+
+        it.each(SEEDS)('seed %i: 同じ時刻の音符（和音）はレーンが重ならない', (seed) => {
+            const { notes } = generator.generateTrack(difficulty, config, seed);
+            const lanesByTime = new Map<number, number[]>();
+            for (const note of notes) {
+                lanesByTime.set(note.time, [...(lanesByTime.get(note.time) ?? []), note.lane]);
+            }
+            for (const lanes of lanesByTime.values()) {
+                expect(new Set(lanes).size).toBe(lanes.length);
+            }
+        });
+
+        it.each(SEEDS)('seed %i: 曲の長さは最後の音符（ホールドの終点）より長い', (seed) => {
+            const track = generator.generateTrack(difficulty, config, seed);
+            const lastEnd = Math.max(...track.notes.map((note) => note.endTime ?? note.time));
+            expect(track.duration).toBeGreaterThan(lastEnd);
+        });
+    });
+
+    it('同じシードからは同じ譜面になる', () => {
+        const config = DIFFICULTY_SETTINGS.hard;
+        const a = generator.generateTrack('hard', config, 7);
+        const b = generator.generateTrack('hard', config, 7);
+        expect(b).toEqual(a);
+    });
+});
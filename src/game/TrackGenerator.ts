@@ -4,12 +4,22 @@
 
 import type { Track, GameNote, Difficulty, DifficultyConfig } from '../types';
 import { noteToFrequency } from '../types';
+import { SeededRandom } from '../utils';
 
 export class TrackGenerator {
+    private random: SeededRandom = new SeededRandom(0);
+
     /**
      * 難易度に応じたトラックを生成
+     * @param seed 乱数シード（同じシードなら同じ譜面になる。省略時はランダム）
      */
-    generateTrack(difficulty: Difficulty, config: DifficultyConfig): Track {
+    generateTrack(
+        difficulty: Difficulty,
+        config: DifficultyConfig,
+        seed: number = SeededRandom.createSeed()
+    ): Track {
+        this.random = new SeededRandom(seed);
+        
         const notes: GameNote[] = [];
         const availableKeys = config.availableKeys;
         const beatInterval = (60 / config.bpm) * 1000; // 1拍の長さ（ミリ秒）
@@ -46,6 +56,18 @@ export class TrackGenerator {
                     currentTime += beatInterval * pattern.duration;
                     break;
                     
+                case 'hold':
+                    // ホールド（長押し）
+                    notes.push(this.createNote(
+                        i,
+                        currentTime,
+                        this.randomLane(availableKeys),
+                        availableKeys,
+                        beatInterval * pattern.notes
+                    ));
+                    currentTime += beatInterval * pattern.duration;
+                    break;
+                    
                 case 'rapid':
                     // 連打
                     for (let j = 0; j < pattern.notes; j++) {
@@ -62,27 +84,33 @@ export class TrackGenerator {
         }
         
         return {
-            id: `track_${difficulty}_${Date.now()}`,
+            id: `track_${difficulty}_${seed}`,
             name: this.getTrackName(difficulty),
             difficulty,
             bpm: config.bpm,
             notes,
-            duration: currentTime + 2000 // 終了後2秒の余韻
+            duration: currentTime + 2000, // 終了後2秒の余韻
+            seed
         };
     }
 
     /**
      * パターンを取得
      * モバイル対応：同時押しを最小限に
+     * ホールドの場合、notesは押し続ける拍数
      */
     private getPattern(difficulty: Difficulty, index: number): {
-        type: 'single' | 'chord' | 'rapid';
+        type: 'single' | 'chord' | 'rapid' | 'hold';
         notes: number;
         duration: number;
     } {
         switch (difficulty) {
             case 'easy':
                 // 単音のみ、ゆったり（間隔を広げる）
+                // 5個に1回、1拍のホールド
+                if (index % 5 === 4) {
+                    return { type: 'hold', notes: 1, duration: 2.5 };
+                }
                 return { type: 'single', notes: 1, duration: 1.5 };
                 
             case 'normal':
@@ -90,6 +118,8 @@ export class TrackGenerator {
                 // 間隔を広げてモバイル対応
                 if (index % 20 === 0 && index > 0) {
                     return { type: 'chord', notes: 2, duration: 1.2 };
+                } else if (index % 7 === 3) {
+                    return { type: 'hold', notes: 1, duration: 2.0 }; // 1拍のホールド
                 }
                 return { type: 'single', notes: 1, duration: 1.0 };
                 
@@ -101,6 +131,8 @@ export class TrackGenerator {
                     return { type: 'chord', notes: 2, duration: 1.2 }; // 2音のみ
                 } else if (index % 15 === 0 && index > 0) {
                     return { type: 'rapid', notes: 3, duration: 1.0 }; // 3音まで
+                } else if (index % 9 === 4) {
+                    return { type: 'hold', notes: 1.5, duration: 2.0 }; // 1.5拍のホールド
                 }
                 return { type: 'single', notes: 1, duration: 0.8 };
                 
@@ -114,6 +146,8 @@ export class TrackGenerator {
                     return { type: 'chord', notes: 2, duration: 1.0 }; // 2音のみ
                 } else if (r % 18 === 0 && index > 0) {
                     return { type: 'rapid', notes: 4, duration: 0.8 }; // 4音まで
+                } else if (index % 11 === 5) {
+                    return { type: 'hold', notes: 1, duration: 1.5 }; // 1拍のホールド
                 }
                 return { type: 'single', notes: 1, duration: 0.6 };
         }
@@ -126,12 +160,13 @@ export class TrackGenerator {
         id: number,
         time: number,
         lane: number,
-        availableKeys: string[]
+        availableKeys: string[],
+        holdDuration?: number
     ): GameNote {
         const noteName = availableKeys[lane];
         const frequency = noteToFrequency(noteName, 4);
         
-        return {
+        const note: GameNote = {
             id: `note_${id}_${lane}`,
             time,
             lane,
@@ -140,13 +175,17 @@ export class TrackGenerator {
             y: 0,
             active: true
         };
+        if (holdDuration !== undefined) {
+            note.endTime = time + holdDuration;
+        }
+        return note;
     }
 
     /**
      * ランダムなレーンを選択
      */
     private randomLane(availableKeys: string[]): number {
-        return Math.floor(Math.random() * availableKeys.length);
+        return this.random.nextInt(availableKeys.length);
     }
 
     /**
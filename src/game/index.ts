@@ -3,6 +3,13 @@
  */
 
 export * from './GameEngine';
+export * from './GameSimulation';
+export * from './AutoPlayer';
 export * from './NoteJudge';
 export * from './TrackGenerator';
+export * from './ChartLoader';
 
+export * from './TimingStats';
+export * from './PitchStats';
+export * from './MIDILoader';
+export * from './ReplayLoader';
@@ -0,0 +1,223 @@
+/**
+ * ゲームパッドのボタン割り当て
+ * レーン数ごとの割り当てと振動の設定を管理し、localStorageに保存する
+ * ボタン番号は Standard Gamepad のレイアウト（0 = A, 12〜15 = 十字キー）で扱う
+ */
+
+import type { GamepadBindingConflict, GamepadLayout, LaneCount, PauseMenuAction } from '../types';
+import { SUPPORTED_LANE_COUNTS } from '../types';
+import { KeyBindings } from './KeyBindings';
+
+interface StoredGamepadBindings {
+    version: number;
+    layouts: Partial<Record<string, GamepadLayout>>;
+    vibration: boolean;
+}
+
+export class GamepadBindings {
+    private static readonly STORAGE_KEY = 'rhythm-synth-game.gamepadBindings';
+    private static readonly SCHEMA_VERSION = 1;
+
+    /**
+     * ゲーム操作に使うボタン（レーンには割り当てられない）
+     */
+    static readonly RESERVED_BUTTONS: Record<number, string> = {
+        8: 'ポーズ',        // Back / Select
+        9: 'ポーズ',        // Start / Menu
+        16: 'システム'      // Home（OS側で使われることが多い）
+    };
+
+    // ポーズに使うボタン（Back / Start）
+    private static readonly PAUSE_BUTTONS: readonly number[] = [8, 9];
+
+    // ポーズメニューの操作に使うボタン（Back / Start・A = 再開、Y = やり直す、B = タイトルに戻る）
+    private static readonly PAUSE_MENU_BUTTONS: Record<number, PauseMenuAction> = {
+        8: 'resume',
+        9: 'resume',
+        0: 'resume',
+        3: 'restart',
+        1: 'quit'
+    };
+
+    /**
+     * デフォルトの割り当て（十字キー → 右側のボタン → ショルダー・トリガーの順）
+     */
+    private static readonly DEFAULT_BUTTONS: GamepadLayout = [
+        14, 13, 12, 15,     // ← ↓ ↑ →
+        2, 0, 1, 3,         // X A B Y
+        4, 5, 6, 7          // LB RB LT RT
+    ];
+
+    // ボタンの表示名（Standard Gamepad）
+    private static readonly BUTTON_LABELS: Record<number, string> = {
+        0: 'A', 1: 'B', 2: 'X', 3: 'Y',
+        4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT',
+        8: 'Back', 9: 'Start', 10: 'L3', 11: 'R3',
+        12: '↑', 13: '↓', 14: '←', 15: '→', 16: 'Home'
+    };
+
+    private layouts: Map<LaneCount, GamepadLayout> = new Map();
+    private vibration: boolean = true;
+
+    constructor() {
+        this.load();
+    }
+
+    /**
+     * デフォルトの割り当てを取得
+     */
+    static getDefaultLayout(laneCount: number): GamepadLayout {
+        return GamepadBindings.DEFAULT_BUTTONS.slice(0, laneCount);
+    }
+
+    /**
+     * 割り当ての競合を検出
+     */
+    static findConflicts(layout: GamepadLayout): GamepadBindingConflict[] {
+        const lanesByButton = new Map<number, number[]>();
+        layout.forEach((button, lane) => {
+            lanesByButton.set(button, [...(lanesByButton.get(button) ?? []), lane]);
+        });
+
+        const conflicts: GamepadBindingConflict[] = [];
+        for (const [button, lanes] of lanesByButton) {
+            if (button in GamepadBindings.RESERVED_BUTTONS) {
+                conflicts.push({ button, lanes, reason: 'reserved' });
+            } else if (lanes.length > 1) {
+                conflicts.push({ button, lanes, reason: 'duplicate' });
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * ポーズ用のボタンか
+     */
+    static isPauseButton(button: number): boolean {
+        return GamepadBindings.PAUSE_BUTTONS.includes(button);
+    }
+
+    /**
+     * ポーズメニューでボタンに対応する操作（対応しないボタンはnull）
+     */
+    static getPauseMenuAction(button: number): PauseMenuAction | null {
+        return GamepadBindings.PAUSE_MENU_BUTTONS[button] ?? null;
+    }
+
+    /**
+     * ボタンの表示名を取得
+     */
+    static getLabel(button: number): string {
+        return GamepadBindings.BUTTON_LABELS[button] ?? `ボタン${button}`;
+    }
+
+    /**
+     * レーン数に対応する割り当てを取得
+     */
+    getLayout(laneCount: number): GamepadLayout {
+        if (KeyBindings.isSupportedLaneCount(laneCount)) {
+            const layout = this.layouts.get(laneCount);
+            if (layout) return [...layout];
+        }
+        return GamepadBindings.getDefaultLayout(laneCount);
+    }
+
+    /**
+     * ボタン番号 → レーン番号 の対応表を取得
+     */
+    getButtonMap(laneCount: number): Map<number, number> {
+        const buttonMap = new Map<number, number>();
+        this.getLayout(laneCount).forEach((button, lane) => {
+            buttonMap.set(button, lane);
+        });
+        return buttonMap;
+    }
+
+    /**
+     * 割り当てを保存
+     * @throws 競合がある場合
+     */
+    setLayout(laneCount: LaneCount, layout: GamepadLayout): void {
+        if (layout.length !== laneCount || layout.some((button) => !Number.isInteger(button) || button < 0)) {
+            throw new Error(`${laneCount}レーンすべてにボタンを割り当ててください`);
+        }
+        if (GamepadBindings.findConflicts(layout).length > 0) {
+            throw new Error('ボタンの割り当てが競合しています');
+        }
+
+        this.layouts.set(laneCount, [...layout]);
+        this.save();
+    }
+
+    /**
+     * 割り当てをデフォルトに戻す
+     */
+    resetLayout(laneCount: LaneCount): void {
+        this.layouts.delete(laneCount);
+        this.save();
+    }
+
+    /**
+     * 判定時に振動させるか
+     */
+    isVibrationEnabled(): boolean {
+        return this.vibration;
+    }
+
+    setVibrationEnabled(enabled: boolean): void {
+        this.vibration = enabled;
+        this.save();
+    }
+
+    /**
+     * localStorageから読み込み
+     * 壊れた割り当て（長さ違い・競合）は無視してデフォルトを使う
+     */
+    private load(): void {
+        try {
+            const raw = localStorage.getItem(GamepadBindings.STORAGE_KEY);
+            if (!raw) return;
+
+            const data = JSON.parse(raw) as StoredGamepadBindings;
+            if (data?.version !== GamepadBindings.SCHEMA_VERSION) {
+                console.warn(`⚠️ 未対応のゲームパッド設定です（バージョン: ${data?.version}）`);
+                return;
+            }
+
+            this.vibration = data.vibration !== false;
+
+            for (const laneCount of SUPPORTED_LANE_COUNTS) {
+                const layout = data.layouts?.[laneCount];
+                if (!Array.isArray(layout)) continue;
+
+                const valid = layout.length === laneCount
+                    && layout.every((button) => Number.isInteger(button) && button >= 0)
+                    && GamepadBindings.findConflicts(layout).length === 0;
+                if (valid) {
+                    this.layouts.set(laneCount, layout);
+                } else {
+                    console.warn(`⚠️ ${laneCount}レーンのゲームパッド設定が不正なため、デフォルトを使います`);
+                }
+            }
+        } catch (error) {
+            console.error('❌ ゲームパッド設定の読み込みに失敗しました:', error);
+        }
+    }
+
+    /**
+     * localStorageに書き込み
+     */
+    private save(): void {
+        const data: StoredGamepadBindings = {
+            version: GamepadBindings.SCHEMA_VERSION,
+            layouts: Object.fromEntries(this.layouts),
+            vibration: this.vibration
+        };
+
+        try {
+            localStorage.setItem(GamepadBindings.STORAGE_KEY, JSON.stringify(data));
+        } catch (error) {
+            console.error('❌ ゲームパッド設定の保存に失敗しました:', error);
+        }
+    }
+}
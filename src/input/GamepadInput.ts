@@ -0,0 +1,191 @@
+/**
+ * ゲームパッド入力
+ * Gamepad APIはイベントでボタンの状態を通知しないため、毎フレームポーリングして押下・解放を検出する
+ * 左スティックは十字キーとしても扱う（十字キーが軸として報告されるゲームパッド向け）
+ */
+
+import type { GamepadInputEvent, JudgmentType, PauseMenuAction } from '../types';
+import { GamepadBindings } from './GamepadBindings';
+
+// 判定ごとの振動（dual-rumble の強さ 0.0 ~ 1.0）
+interface RumbleEffect {
+    duration: number;
+    strongMagnitude: number;
+    weakMagnitude: number;
+}
+
+export class GamepadInput {
+    private static readonly AXIS_THRESHOLD = 0.5;
+
+    // 十字キーのボタン番号と、対応する左スティックの向き（軸番号・符号）
+    private static readonly DPAD_AXES: Record<number, { axis: number; sign: number }> = {
+        12: { axis: 1, sign: -1 },  // ↑
+        13: { axis: 1, sign: 1 },   // ↓
+        14: { axis: 0, sign: -1 },  // ←
+        15: { axis: 0, sign: 1 }    // →
+    };
+
+    private static readonly RUMBLE: Record<JudgmentType, RumbleEffect> = {
+        perfect: { duration: 40, strongMagnitude: 0, weakMagnitude: 0.4 },
+        good: { duration: 40, strongMagnitude: 0, weakMagnitude: 0.25 },
+        bad: { duration: 60, strongMagnitude: 0.3, weakMagnitude: 0.2 },
+        miss: { duration: 120, strongMagnitude: 0.6, weakMagnitude: 0 }
+    };
+
+    private bindings: GamepadBindings;
+    private getGamepads: () => (Gamepad | null)[];
+
+    private buttonMap: Map<number, number> = new Map();     // ボタン番号 → レーン番号
+    private pressed: Map<number, Set<number>> = new Map();  // ゲームパッド番号 → 押しているボタン
+    private lastUsed: number | null = null;                 // 最後に操作したゲームパッド（振動させる対象）
+
+    /**
+     * @param getGamepads ゲームパッドの取得方法（テストでは偽のゲームパッドを返す関数を渡す）
+     */
+    constructor(
+        bindings: GamepadBindings,
+        getGamepads: () => (Gamepad | null)[] = () => navigator.getGamepads?.() ?? []
+    ) {
+        this.bindings = bindings;
+        this.getGamepads = getGamepads;
+    }
+
+    /**
+     * レーン数に合わせてボタンの割り当てを読み込む
+     */
+    setLaneCount(laneCount: number): void {
+        this.buttonMap = this.bindings.getButtonMap(laneCount);
+        this.sync();
+    }
+
+    /**
+     * 現在押されているボタンを基準にする
+     * 開始・再開時に押しっぱなしのボタンは、押し直すまで入力にしない
+     */
+    sync(): void {
+        this.pressed.clear();
+        for (const gamepad of this.getConnected()) {
+            this.pressed.set(gamepad.index, this.readButtons(gamepad));
+        }
+    }
+
+    /**
+     * ボタンの状態を読み取り、前回からの変化をレーン入力に変換
+     */
+    poll(): GamepadInputEvent[] {
+        const events: GamepadInputEvent[] = [];
+
+        for (const { down, up } of this.detectChanges()) {
+            for (const button of up) {
+                const lane = this.buttonMap.get(button);
+                if (lane !== undefined) {
+                    events.push({ type: 'laneUp', lane });
+                }
+            }
+            for (const button of down) {
+                if (GamepadBindings.isPauseButton(button)) {
+                    events.push({ type: 'pause' });
+                    continue;
+                }
+                const lane = this.buttonMap.get(button);
+                if (lane !== undefined) {
+                    events.push({ type: 'laneDown', lane });
+                }
+            }
+        }
+
+        return events;
+    }
+
+    /**
+     * 新しく押されたボタンをポーズメニューの操作に変換（ポーズ中はレーン入力にしない）
+     */
+    pollPauseMenu(): PauseMenuAction[] {
+        return this.pollButtons()
+            .map((button) => GamepadBindings.getPauseMenuAction(button))
+            .filter((action): action is PauseMenuAction => action !== null);
+    }
+
+    /**
+     * 新しく押されたボタンを取得（ボタン割り当ての設定画面用）
+     */
+    pollButtons(): number[] {
+        return this.detectChanges().flatMap(({ down }) => down);
+    }
+
+    /**
+     * 判定に応じて振動させる（対応しているゲームパッドのみ）
+     */
+    vibrate(judgment: JudgmentType): void {
+        if (this.lastUsed === null || !this.bindings.isVibrationEnabled()) return;
+
+        const gamepad = this.getGamepads()[this.lastUsed];
+        const actuator = gamepad?.vibrationActuator;
+        if (!actuator?.playEffect) return;
+
+        actuator.playEffect('dual-rumble', GamepadInput.RUMBLE[judgment]).catch((error) => {
+            console.warn('⚠️ ゲームパッドを振動させられませんでした:', error);
+        });
+    }
+
+    /**
+     * 接続中のゲームパッド名
+     */
+    getConnectedNames(): string[] {
+        return this.getConnected().map((gamepad) => gamepad.id);
+    }
+
+    /**
+     * 前回のポーリングから押された・離されたボタンを検出
+     */
+    private detectChanges(): { down: number[]; up: number[] }[] {
+        const changes: { down: number[]; up: number[] }[] = [];
+        const connected = new Set<number>();
+
+        for (const gamepad of this.getConnected()) {
+            connected.add(gamepad.index);
+            const previous = this.pressed.get(gamepad.index) ?? new Set<number>();
+            const current = this.readButtons(gamepad);
+
+            const down = [...current].filter((button) => !previous.has(button));
+            const up = [...previous].filter((button) => !current.has(button));
+            if (down.length > 0) {
+                this.lastUsed = gamepad.index;
+            }
+
+            this.pressed.set(gamepad.index, current);
+            changes.push({ down, up });
+        }
+
+        // 切断されたゲームパッドのボタンは離したものとする
+        for (const [index, previous] of [...this.pressed]) {
+            if (connected.has(index)) continue;
+            this.pressed.delete(index);
+            changes.push({ down: [], up: [...previous] });
+        }
+
+        return changes;
+    }
+
+    /**
+     * 押されているボタンの一覧（左スティックの傾きは十字キーとして扱う）
+     */
+    private readButtons(gamepad: Gamepad): Set<number> {
+        const buttons = new Set<number>();
+        gamepad.buttons.forEach((button, index) => {
+            if (button.pressed) buttons.add(index);
+        });
+
+        for (const [button, { axis, sign }] of Object.entries(GamepadInput.DPAD_AXES)) {
+            const value = gamepad.axes[axis] ?? 0;
+            if (value * sign > GamepadInput.AXIS_THRESHOLD) {
+                buttons.add(Number(button));
+            }
+        }
+        return buttons;
+    }
+
+    private getConnected(): Gamepad[] {
+        return this.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected);
+    }
+}
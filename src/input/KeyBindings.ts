@@ -0,0 +1,227 @@
+/**
+ * キーバインディング
+ * レーン数ごとのキー割り当てを管理し、localStorageに保存する
+ * キーは KeyboardEvent.code で扱うため、キーボード配列に関係なく同じ物理キーが使われる
+ */
+
+import type { KeyBindingConflict, KeyLayout, LaneCount } from '../types';
+import { SUPPORTED_LANE_COUNTS } from '../types';
+
+// Keyboard Map API（Chromium系のみ。lib.domに型がないため最小限を定義）
+interface KeyboardLayoutMap {
+    get(code: string): string | undefined;
+}
+
+interface NavigatorKeyboard {
+    getLayoutMap(): Promise<KeyboardLayoutMap>;
+}
+
+interface StoredKeyBindings {
+    version: number;
+    layouts: Partial<Record<string, KeyLayout>>;
+}
+
+export class KeyBindings {
+    private static readonly STORAGE_KEY = 'rhythm-synth-game.keyBindings';
+    private static readonly SCHEMA_VERSION = 1;
+
+    /**
+     * ゲーム操作に使うキー（レーンには割り当てられない）
+     */
+    static readonly RESERVED_CODES: Record<string, string> = {
+        Escape: 'ポーズ',
+        KeyP: 'ポーズ'
+    };
+
+    /**
+     * デフォルトの割り当て（ASDFGHJKL、9つ目以降は B N M）
+     */
+    private static readonly DEFAULT_KEYS: KeyLayout = [
+        'KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH',
+        'KeyJ', 'KeyK', 'KeyL', 'KeyB', 'KeyN', 'KeyM'
+    ];
+
+    // 記号キーの表示名
+    private static readonly CODE_LABELS: Record<string, string> = {
+        Semicolon: ';', Quote: "'", Comma: ',', Period: '.', Slash: '/',
+        BracketLeft: '[', BracketRight: ']', Backslash: '\\', Backquote: '`',
+        Minus: '-', Equal: '=', IntlRo: 'ろ', IntlYen: '¥',
+        Space: 'Space', Enter: 'Enter', Tab: 'Tab', Backspace: 'BS',
+        ShiftLeft: 'LShift', ShiftRight: 'RShift',
+        ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓'
+    };
+
+    private layouts: Map<LaneCount, KeyLayout> = new Map();
+    private layoutMap: KeyboardLayoutMap | null = null;
+
+    constructor() {
+        this.load();
+        this.loadLayoutMap();
+    }
+
+    /**
+     * キー設定に対応するレーン数か
+     */
+    static isSupportedLaneCount(laneCount: number): laneCount is LaneCount {
+        return (SUPPORTED_LANE_COUNTS as readonly number[]).includes(laneCount);
+    }
+
+    /**
+     * デフォルトの割り当てを取得
+     */
+    static getDefaultLayout(laneCount: number): KeyLayout {
+        return KeyBindings.DEFAULT_KEYS.slice(0, laneCount);
+    }
+
+    /**
+     * 割り当ての競合を検出
+     */
+    static findConflicts(layout: KeyLayout): KeyBindingConflict[] {
+        const lanesByCode = new Map<string, number[]>();
+        layout.forEach((code, lane) => {
+            if (!code) return;
+            lanesByCode.set(code, [...(lanesByCode.get(code) ?? []), lane]);
+        });
+
+        const conflicts: KeyBindingConflict[] = [];
+        for (const [code, lanes] of lanesByCode) {
+            if (code in KeyBindings.RESERVED_CODES) {
+                conflicts.push({ code, lanes, reason: 'reserved' });
+            } else if (lanes.length > 1) {
+                conflicts.push({ code, lanes, reason: 'duplicate' });
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * レーン数に対応する割り当てを取得
+     */
+    getLayout(laneCount: number): KeyLayout {
+        if (KeyBindings.isSupportedLaneCount(laneCount)) {
+            const layout = this.layouts.get(laneCount);
+            if (layout) return [...layout];
+        }
+        return KeyBindings.getDefaultLayout(laneCount);
+    }
+
+    /**
+     * キー（code） → レーン番号 の対応表を取得
+     */
+    getKeyMap(laneCount: number): Map<string, number> {
+        const keyMap = new Map<string, number>();
+        this.getLayout(laneCount).forEach((code, lane) => {
+            keyMap.set(code, lane);
+        });
+        return keyMap;
+    }
+
+    /**
+     * 鍵盤に表示するラベルを取得
+     */
+    getLabels(laneCount: number): string[] {
+        return this.getLayout(laneCount).map((code) => this.getLabel(code));
+    }
+
+    /**
+     * キー（code）の表示名を取得
+     * Keyboard Map APIが使える場合は実際のキーボード配列の文字を表示する
+     */
+    getLabel(code: string): string {
+        const mapped = this.layoutMap?.get(code);
+        if (mapped && mapped.trim()) return mapped.toUpperCase();
+
+        if (code in KeyBindings.CODE_LABELS) return KeyBindings.CODE_LABELS[code];
+        if (code.startsWith('Key')) return code.slice(3);
+        if (code.startsWith('Digit')) return code.slice(5);
+        if (code.startsWith('Numpad')) return `Num${code.slice(6)}`;
+        return code;
+    }
+
+    /**
+     * 割り当てを保存
+     * @throws 競合がある場合
+     */
+    setLayout(laneCount: LaneCount, layout: KeyLayout): void {
+        if (layout.length !== laneCount || layout.some((code) => !code)) {
+            throw new Error(`${laneCount}レーンすべてにキーを割り当ててください`);
+        }
+        if (KeyBindings.findConflicts(layout).length > 0) {
+            throw new Error('キーの割り当てが競合しています');
+        }
+
+        this.layouts.set(laneCount, [...layout]);
+        this.save();
+    }
+
+    /**
+     * 割り当てをデフォルトに戻す
+     */
+    resetLayout(laneCount: LaneCount): void {
+        this.layouts.delete(laneCount);
+        this.save();
+    }
+
+    /**
+     * localStorageから読み込み
+     * 壊れた割り当て（長さ違い・競合）は無視してデフォルトを使う
+     */
+    private load(): void {
+        try {
+            const raw = localStorage.getItem(KeyBindings.STORAGE_KEY);
+            if (!raw) return;
+
+            const data = JSON.parse(raw) as StoredKeyBindings;
+            if (data?.version !== KeyBindings.SCHEMA_VERSION) {
+                console.warn(`⚠️ 未対応のキー設定です（バージョン: ${data?.version}）`);
+                return;
+            }
+
+            for (const laneCount of SUPPORTED_LANE_COUNTS) {
+                const layout = data.layouts?.[laneCount];
+                if (!Array.isArray(layout)) continue;
+
+                const valid = layout.length === laneCount
+                    && layout.every((code) => typeof code === 'string' && code !== '')
+                    && KeyBindings.findConflicts(layout).length === 0;
+                if (valid) {
+                    this.layouts.set(laneCount, layout);
+                } else {
+                    console.warn(`⚠️ ${laneCount}レーンのキー設定が不正なため、デフォルトを使います`);
+                }
+            }
+        } catch (error) {
+            console.error('❌ キー設定の読み込みに失敗しました:', error);
+        }
+    }
+
+    /**
+     * localStorageに書き込み
+     */
+    private save(): void {
+        const data: StoredKeyBindings = {
+            version: KeyBindings.SCHEMA_VERSION,
+            layouts: Object.fromEntries(this.layouts)
+        };
+
+        try {
+            localStorage.setItem(KeyBindings.STORAGE_KEY, JSON.stringify(data));
+        } catch (error) {
+            console.error('❌ キー設定の保存に失敗しました:', error);
+        }
+    }
+
+    /**
+     * キーボード配列の文字を取得（対応ブラウザのみ）
+     */
+    private async loadLayoutMap(): Promise<void> {
+        const keyboard = (navigator as Navigator & { keyboard?: NavigatorKeyboard }).keyboard;
+        if (!keyboard?.getLayoutMap) return;
+
+        try {
+            this.layoutMap = await keyboard.getLayoutMap();
+        } catch (error) {
+            console.warn('⚠️ キーボード配列を取得できませんでした:', error);
+        }
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * 遅延補正の設定
+ * キャリブレーションや手動調整で決めたオフセットをlocalStorageに保存する
+ */
+
+import type { LatencyOffsets } from '../types';
+
+export class LatencySettings {
+    private static readonly STORAGE_KEY = 'rhythm-synth-game.latency';
+    private static readonly SCHEMA_VERSION = 1;
+
+    // 設定できるオフセットの範囲（±ミリ秒）
+    static readonly MAX_OFFSET = 500;
+
+    private offsets: LatencyOffsets = { audio: 0, visual: 0 };
+
+    constructor() {
+        this.load();
+    }
+
+    /**
+     * 現在のオフセットを取得
+     */
+    get(): LatencyOffsets {
+        return { ...this.offsets };
+    }
+
+    /**
+     * オフセットを更新して保存（整数ミリ秒・範囲内に丸める）
+     */
+    set(offsets: Partial<LatencyOffsets>): LatencyOffsets {
+        this.offsets = {
+            audio: LatencySettings.clamp(offsets.audio ?? this.offsets.audio),
+            visual: LatencySettings.clamp(offsets.visual ?? this.offsets.visual)
+        };
+        this.save();
+        return this.get();
+    }
+
+    private static clamp(offset: number): number {
+        if (!Number.isFinite(offset)) return 0;
+        const max = LatencySettings.MAX_OFFSET;
+        return Math.round(Math.max(-max, Math.min(max, offset)));
+    }
+
+    /**
+     * localStorageから読み込み
+     */
+    private load(): void {
+        try {
+            const raw = localStorage.getItem(LatencySettings.STORAGE_KEY);
+            if (!raw) return;
+
+            const data = JSON.parse(raw);
+            if (data?.version !== LatencySettings.SCHEMA_VERSION) {
+                console.warn(`⚠️ 未対応の遅延補正設定です（バージョン: ${data?.version}）`);
+                return;
+            }
+
+            this.offsets = {
+                audio: LatencySettings.clamp(Number(data.audio)),
+                visual: LatencySettings.clamp(Number(data.visual))
+            };
+        } catch (error) {
+            console.error('❌ 遅延補正設定の読み込みに失敗しました:', error);
+        }
+    }
+
+    /**
+     * localStorageに書き込み
+     */
+    private save(): void {
+        try {
+            localStorage.setItem(LatencySettings.STORAGE_KEY, JSON.stringify({
+                version: LatencySettings.SCHEMA_VERSION,
+                ...this.offsets
+            }));
+        } catch (error) {
+            console.error('❌ 遅延補正設定の保存に失敗しました:', error);
+        }
+    }
+}
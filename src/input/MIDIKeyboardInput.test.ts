@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MIDIKeyboardInput } from './MIDIKeyboardInput';
+
+/**
+ * テスト用の偽のMIDI入力デバイス
+ */
+class FakeMIDIInput {
+    readonly id: string;
+    readonly name: string;
+    onmidimessage: ((event: MIDIMessageEvent) => void) | null = null;
+
+    constructor(id: string, name: string) {
+        this.id = id;
+        this.name = name;
+    }
+
+    send(...bytes: number[]): void {
+        this.onmidimessage?.({ data: new Uint8Array(bytes) } as MIDIMessageEvent);
+    }
+}
+
+/**
+ * テスト用の偽のMIDIAccess（inputs と onstatechange だけを使う）
+ */
+class FakeMIDIAccess {
+    inputs: Map<string, FakeMIDIInput> = new Map();
+    onstatechange: (() => void) | null = null;
+
+    constructor(inputs: FakeMIDIInput[]) {
+        for (const input of inputs) this.inputs.set(input.id, input);
+    }
+
+    connect(input: FakeMIDIInput): void {
+        this.inputs.set(input.id, input);
+        this.onstatechange?.();
+    }
+}
+
+/**
+ * localStorage の代わり（Nodeには無いため）
+ */
+function createStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        clear: () => items.clear(),
+        getItem: (key) => items.get(key) ?? null,
+        key: (index) => [...items.keys()][index] ?? null,
+        removeItem: (key) => { items.delete(key); },
+        setItem: (key, value) => { items.set(key, String(value)); }
+    };
+}
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+
+describe('MIDIKeyboardInput', () => {
+    let piano: FakeMIDIInput;
+    let pad: FakeMIDIInput;
+    let access: FakeMIDIAccess;
+    let midi: MIDIKeyboardInput;
+    let events: string[];
+
+    beforeEach(async () => {
+        vi.stubGlobal('localStorage', createStorage());
+        piano = new FakeMIDIInput('piano', 'Piano');
+        pad = new FakeMIDIInput('pad', '');
+        access = new FakeMIDIAccess([piano, pad]);
+
+        midi = new MIDIKeyboardInput(async () => access as unknown as MIDIAccess);
+        events = [];
+        midi.setCallbacks({
+            onLaneDown: (lane, velocity) => events.push(`down ${lane} ${velocity.toFixed(2)}`),
+            onLaneUp: (lane) => events.push(`up ${lane}`)
+        });
+        midi.setLanes(['C', 'D', 'E', 'F', 'G']);
+        await midi.connect();
+    });
+
+    afterEach(() => {
+        midi.dispose();
+        vi.unstubAllGlobals();
+    });
+
+    it('入力デバイスの一覧（名前がなければID）', async () => {
+        expect(await midi.connect()).toEqual([
+            { id: 'piano', name: 'Piano' },
+            { id: 'pad', name: 'pad' }
+        ]);
+    });
+
+    it('ノートオンを音名でレーンに変換し、ベロシティを0.0 ~ 1.0にする', () => {
+        piano.send(NOTE_ON, 60, 127);   // C4
+        piano.send(NOTE_ON, 67, 64);    // G4
+        expect(events).toEqual(['down 0 1.00', 'down 4 0.50']);
+    });
+
+    it('オクターブが違っても同じ音名なら同じレーン', () => {
+        piano.send(NOTE_ON, 38, 100);   // D2
+        piano.send(NOTE_OFF, 38, 0);
+        piano.send(NOTE_ON, 86, 100);   // D6
+        expect(events).toEqual(['down 1 0.79', 'up 1', 'down 1 0.79']);
+    });
+
+    it('レーンにない音名は無視する', () => {
+        piano.send(NOTE_ON, 61, 100);   // C#4
+        piano.send(NOTE_OFF, 61, 0);
+        piano.send(NOTE_ON, 69, 100);   // A4
+        expect(events).toEqual([]);
+    });
+
+    it('ノートオフ・ベロシティ0のノートオンでレーンを離す', () => {
+        piano.send(NOTE_ON, 64, 100);
+        piano.send(NOTE_OFF, 64, 40);
+        piano.send(NOTE_ON | 0x3, 65, 100);     // チャンネル4
+        piano.send(NOTE_ON | 0x3, 65, 0);
+        expect(events).toEqual(['down 2 0.79', 'up 2', 'down 3 0.79', 'up 3']);
+    });
+
+    it('同じ音名の鍵盤を複数押したら、すべて離すまでレーンを離さない', () => {
+        piano.send(NOTE_ON, 60, 100);
+        piano.send(NOTE_ON, 72, 100);
+        piano.send(NOTE_OFF, 60, 0);
+        expect(events).toEqual(['down 0 0.79']);
+        piano.send(NOTE_OFF, 72, 0);
+        expect(events).toEqual(['down 0 0.79', 'up 0']);
+    });
+
+    it('押していない鍵盤のノートオフ・ノート以外のメッセージは無視する', () => {
+        piano.send(NOTE_OFF, 60, 0);
+        piano.send(0xb0, 64, 127);      // コントロールチェンジ（サステインペダル）
+        piano.send(0xe0, 0, 64);        // ピッチベンド
+        piano.send(NOTE_ON, 60);        // 短すぎるメッセージ
+        expect(events).toEqual([]);
+    });
+
+    it('デバイスを選ぶと、ほかのデバイスの入力は無視する', () => {
+        midi.selectDevice('pad');
+        piano.send(NOTE_ON, 60, 100);
+        pad.send(NOTE_ON, 62, 100);
+        expect(events).toEqual(['down 1 0.79']);
+    });
+
+    it('選んだデバイスは保存され、次に作ったときにも使う', () => {
+        midi.selectDevice('pad');
+        expect(new MIDIKeyboardInput(async () => access as unknown as MIDIAccess).getSelectedDevice()).toBe('pad');
+
+        midi.selectDevice(null);
+        expect(localStorage.getItem('rhythm-synth-game.midiDevice')).toBeNull();
+    });
+
+    it('デバイスやレーンを切り替えると、押している鍵盤は離したことにする', () => {
+        piano.send(NOTE_ON, 60, 100);
+        midi.selectDevice('piano');
+        piano.send(NOTE_OFF, 60, 0);    // 離したことにした鍵盤のノートオフは無視する
+        expect(events).toEqual(['down 0 0.79', 'up 0']);
+
+        piano.send(NOTE_ON, 62, 100);
+        midi.setLanes(['C', 'E', 'G']);
+        piano.send(NOTE_ON, 64, 100);   // 新しいレーンでは E がレーン1
+        expect(events.slice(2)).toEqual(['down 1 0.79', 'up 1', 'down 1 0.79']);
+    });
+
+    it('あとから接続したデバイスも受け付け、一覧の変化を通知する', () => {
+        const devices: string[][] = [];
+        midi.setCallbacks({
+            onLaneDown: (lane) => events.push(`down ${lane}`),
+            onDevicesChange: (list) => devices.push(list.map((device) => device.id))
+        });
+
+        const synth = new FakeMIDIInput('synth', 'Synth');
+        access.connect(synth);
+        synth.send(NOTE_ON, 60, 100);
+
+        expect(devices).toEqual([['piano', 'pad', 'synth']]);
+        expect(events).toEqual(['down 0']);
+    });
+
+    it('接続を解除すると受信処理を外す', () => {
+        midi.dispose();
+        expect(piano.onmidimessage).toBeNull();
+        expect(access.onstatechange).toBeNull();
+        expect(midi.getDevices()).toEqual([]);
+    });
+});
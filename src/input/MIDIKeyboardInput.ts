@@ -0,0 +1,203 @@
+/**
+ * MIDIキーボード入力
+ * Web MIDI APIのノートオン/ノートオフを、音名（ピッチクラス）でレーンに変換する
+ */
+
+import type { MIDIDeviceInfo } from '../types';
+import { midiToNote } from '../types';
+
+export class MIDIKeyboardInput {
+    private static readonly STORAGE_KEY = 'rhythm-synth-game.midiDevice';
+
+    private requestAccess: () => Promise<MIDIAccess>;
+    private access: MIDIAccess | null = null;
+    private selectedId: string | null = null;   // nullならすべてのデバイスを受け付ける
+
+    private lanes: string[] = [];               // レーンの音名（インデックス = レーン番号）
+    private heldCounts: Map<number, number> = new Map();   // レーンごとの押している鍵盤の数
+
+    // コールバック
+    private onLaneDown?: (lane: number, velocity: number) => void;
+    private onLaneUp?: (lane: number) => void;
+    private onDevicesChange?: (devices: MIDIDeviceInfo[]) => void;
+
+    /**
+     * @param requestAccess MIDIAccessの取得方法（テストでは偽のMIDIAccessを返す関数を渡す）
+     */
+    constructor(requestAccess: () => Promise<MIDIAccess> = () => navigator.requestMIDIAccess()) {
+        this.requestAccess = requestAccess;
+
+        try {
+            this.selectedId = localStorage.getItem(MIDIKeyboardInput.STORAGE_KEY);
+        } catch (error) {
+            console.error('❌ MIDIデバイスの設定を読み込めませんでした:', error);
+        }
+    }
+
+    /**
+     * Web MIDI APIが使えるか
+     */
+    static isSupported(): boolean {
+        return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+    }
+
+    /**
+     * MIDIデバイスに接続（ブラウザの許可が必要）
+     * @returns 接続されている入力デバイス
+     */
+    async connect(): Promise<MIDIDeviceInfo[]> {
+        if (!this.access) {
+            this.access = await this.requestAccess();
+            this.access.onstatechange = () => {
+                this.attachInputs();
+                if (this.onDevicesChange) {
+                    this.onDevicesChange(this.getDevices());
+                }
+            };
+        }
+
+        this.attachInputs();
+        return this.getDevices();
+    }
+
+    /**
+     * 入力デバイスの一覧
+     */
+    getDevices(): MIDIDeviceInfo[] {
+        if (!this.access) return [];
+        return [...this.access.inputs.values()].map((input) => ({
+            id: input.id,
+            name: input.name || input.id
+        }));
+    }
+
+    /**
+     * 使用するデバイスを選択（nullならすべて）
+     */
+    selectDevice(id: string | null): void {
+        this.selectedId = id;
+        this.releaseAll();
+
+        try {
+            if (id === null) {
+                localStorage.removeItem(MIDIKeyboardInput.STORAGE_KEY);
+            } else {
+                localStorage.setItem(MIDIKeyboardInput.STORAGE_KEY, id);
+            }
+        } catch (error) {
+            console.error('❌ MIDIデバイスの設定を保存できませんでした:', error);
+        }
+    }
+
+    getSelectedDevice(): string | null {
+        return this.selectedId;
+    }
+
+    /**
+     * レーンの音名を設定（難易度ごとの availableKeys）
+     */
+    setLanes(noteNames: string[]): void {
+        this.releaseAll();
+        this.lanes = [...noteNames];
+    }
+
+    /**
+     * MIDIメッセージを処理
+     */
+    handleMessage(data: Uint8Array): void {
+        if (data.length < 3) return;
+
+        const type = data[0] & 0xf0;
+        const noteNumber = data[1];
+        const velocity = data[2];
+
+        if (type === 0x90 && velocity > 0) {
+            this.noteOn(noteNumber, velocity);
+        } else if (type === 0x80 || type === 0x90) {
+            // ノートオフ（ベロシティ0のノートオンを含む）
+            this.noteOff(noteNumber);
+        }
+    }
+
+    private noteOn(noteNumber: number, velocity: number): void {
+        const lane = this.lanes.indexOf(midiToNote(noteNumber).name);
+        if (lane === -1) return;
+
+        // 同じ音名の鍵盤を複数押している場合は最初の1つだけ入力にする
+        const count = this.heldCounts.get(lane) ?? 0;
+        this.heldCounts.set(lane, count + 1);
+        if (count === 0 && this.onLaneDown) {
+            this.onLaneDown(lane, velocity / 127);
+        }
+    }
+
+    private noteOff(noteNumber: number): void {
+        const lane = this.lanes.indexOf(midiToNote(noteNumber).name);
+        const count = this.heldCounts.get(lane);
+        if (count === undefined) return;
+
+        // すべて離したらレーンを離す（ホールドの終点判定）
+        if (count > 1) {
+            this.heldCounts.set(lane, count - 1);
+            return;
+        }
+        this.heldCounts.delete(lane);
+        if (this.onLaneUp) {
+            this.onLaneUp(lane);
+        }
+    }
+
+    /**
+     * 押している鍵盤をすべて離したことにする
+     */
+    private releaseAll(): void {
+        for (const lane of [...this.heldCounts.keys()]) {
+            this.heldCounts.delete(lane);
+            if (this.onLaneUp) {
+                this.onLaneUp(lane);
+            }
+        }
+    }
+
+    /**
+     * すべての入力デバイスにメッセージの受信処理を設定
+     */
+    private attachInputs(): void {
+        if (!this.access) return;
+
+        for (const input of this.access.inputs.values()) {
+            input.onmidimessage = (event: MIDIMessageEvent) => {
+                if (!event.data) return;
+                if (this.selectedId !== null && input.id !== this.selectedId) return;
+                this.handleMessage(event.data);
+            };
+        }
+    }
+
+    /**
+     * 接続を解除
+     */
+    dispose(): void {
+        if (this.access) {
+            for (const input of this.access.inputs.values()) {
+                input.onmidimessage = null;
+            }
+            this.access.onstatechange = null;
+            this.access = null;
+        }
+        this.releaseAll();
+    }
+
+    /**
+     * コールバック設定
+     */
+    setCallbacks(callbacks: {
+        onLaneDown?: (lane: number, velocity: number) => void;
+        onLaneUp?: (lane: number) => void;
+        onDevicesChange?: (devices: MIDIDeviceInfo[]) => void;
+    }): void {
+        this.onLaneDown = callbacks.onLaneDown;
+        this.onLaneUp = callbacks.onLaneUp;
+        this.onDevicesChange = callbacks.onDevicesChange;
+    }
+}
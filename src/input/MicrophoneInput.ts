@@ -0,0 +1,131 @@
+/**
+ * マイク入力
+ * マイクの音をAnalyserNodeで取り込み、音高検出で歌い始め・歌い終わりを検出する
+ * 検出した音の高さは判定に使い、レーンの選択には使わない（最も近い音符を狙ったものとする）
+ */
+
+import type { PitchInputEvent } from '../types';
+import { PitchDetector } from '../audio';
+
+export class MicrophoneInput {
+    private static readonly FFT_SIZE = 2048;
+    private static readonly MIN_CLARITY = 0.8;          // これより周期性が弱い音は無視（息・雑音）
+    private static readonly NOTE_CHANGE_CENTS = 70;     // 発声中にこれ以上音が変わったら次の音とする
+    private static readonly RELEASE_FRAMES = 4;         // 音が途切れてから歌い終わりとするまでのフレーム数
+
+    private context: AudioContext;
+    private detector: PitchDetector;
+    private stream: MediaStream | null = null;
+    private source: MediaStreamAudioSourceNode | null = null;
+    private analyser: AnalyserNode | null = null;
+    private buffer: Float32Array<ArrayBuffer> = new Float32Array(MicrophoneInput.FFT_SIZE);
+
+    private singingFrequency: number | null = null;     // 発声中の音の高さ（歌い始めの周波数）
+    private silentFrames: number = 0;
+
+    constructor(context: AudioContext, detector: PitchDetector = new PitchDetector()) {
+        this.context = context;
+        this.detector = detector;
+    }
+
+    /**
+     * マイクが使えるか
+     */
+    static isSupported(): boolean {
+        return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+    }
+
+    /**
+     * マイク入力を開始（ブラウザの許可が必要）
+     * 声をそのまま拾うため、エコーキャンセルなどの加工は切る
+     */
+    async start(): Promise<void> {
+        if (this.stream) return;
+
+        this.stream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+                echoCancellation: false,
+                noiseSuppression: false,
+                autoGainControl: false
+            }
+        });
+
+        this.source = this.context.createMediaStreamSource(this.stream);
+        this.analyser = this.context.createAnalyser();
+        this.analyser.fftSize = MicrophoneInput.FFT_SIZE;
+        this.source.connect(this.analyser);     // スピーカーには出力しない
+        this.reset();
+
+        console.log('🎤 マイク入力開始');
+    }
+
+    /**
+     * マイク入力を停止
+     */
+    stop(): void {
+        this.source?.disconnect();
+        this.stream?.getTracks().forEach((track) => track.stop());
+        this.source = null;
+        this.analyser = null;
+        this.stream = null;
+        this.reset();
+    }
+
+    isActive(): boolean {
+        return this.analyser !== null;
+    }
+
+    /**
+     * 発声中の状態を忘れる（開始・再開時は歌い直してもらう）
+     */
+    reset(): void {
+        this.singingFrequency = null;
+        this.silentFrames = 0;
+    }
+
+    /**
+     * 現在の音を解析し、歌い始め・歌い終わりを返す
+     */
+    poll(): PitchInputEvent[] {
+        if (!this.analyser) return [];
+
+        this.analyser.getFloatTimeDomainData(this.buffer);
+        const detection = this.detector.detect(this.buffer, this.context.sampleRate);
+        const frequency = detection && detection.clarity >= MicrophoneInput.MIN_CLARITY
+            ? detection.frequency
+            : null;
+
+        return this.update(frequency);
+    }
+
+    /**
+     * 検出した音の高さから発声の状態を更新
+     */
+    private update(frequency: number | null): PitchInputEvent[] {
+        // 音が途切れた（短い途切れは同じ発声として扱う）
+        if (frequency === null) {
+            if (this.singingFrequency === null) return [];
+            this.silentFrames++;
+            if (this.silentFrames < MicrophoneInput.RELEASE_FRAMES) return [];
+            this.reset();
+            return [{ type: 'release' }];
+        }
+
+        this.silentFrames = 0;
+
+        // 歌い始め
+        if (this.singingFrequency === null) {
+            this.singingFrequency = frequency;
+            return [{ type: 'onset', frequency }];
+        }
+
+        // 発声したまま別の音に移った（レガート）
+        const cents = Math.abs(1200 * Math.log2(frequency / this.singingFrequency));
+        if (cents >= MicrophoneInput.NOTE_CHANGE_CENTS) {
+            this.singingFrequency = frequency;
+            return [{ type: 'release' }, { type: 'onset', frequency }];
+        }
+
+        return [];
+    }
+}
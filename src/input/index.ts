@@ -0,0 +1,10 @@
+/**
+ * 入力モジュールのエクスポート
+ */
+
+export * from './KeyBindings';
+export * from './LatencySettings';
+export * from './MIDIKeyboardInput';
+export * from './GamepadBindings';
+export * from './GamepadInput';
+export * from './MicrophoneInput';
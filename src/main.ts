@@ -4,13 +4,52 @@
  */
 
 import './style.css';
-import type { Difficulty, RecordedNote } from './types';
-import { DIFFICULTY_SETTINGS } from './types';
+import type {
+    AutoPlayOptions,
+    BGMTake,
+    Chart,
+    Difficulty,
+    GameState,
+    MIDIFileData,
+    MIDIJudgmentMode,
+    PlayHistory,
+    RecordedNote,
+    ReplayData,
+    Track,
+    WAVExportOptions
+} from './types';
+import { DEFAULT_AUTOPLAY_OPTIONS, DIFFICULTY_SETTINGS, INSTRUMENT_PATCHES, getAudibleNotes, getInstrumentPatch, noteToFrequency } from './types';
 import { SynthEngine, SpectrumVisualizer } from './audio';
-import { GameEngine } from './game';
+import {
+    GameEngine,
+    ChartLoader,
+    ChartLoadError,
+    MIDILoader,
+    MIDIParseError,
+    ReplayLoader,
+    ReplayLoadError
+} from './game';
 import { ParticleSystem } from './effects';
-import { UIManager } from './ui';
-import { WAVExporter } from './utils';
+import { UIManager, KeyBindingPanel, CalibrationPanel, GamepadPanel, EffectsPanel } from './ui';
+import {
+    KeyBindings,
+    LatencySettings,
+    MIDIKeyboardInput,
+    GamepadBindings,
+    GamepadInput,
+    MicrophoneInput
+} from './input';
+import { ChartEditor } from './editor';
+import {
+    WAVExporter,
+    CompressedAudioExporter,
+    MIDIExporter,
+    SeededRandom,
+    HistoryStore,
+    InstrumentStore,
+    MasterEffectsStore,
+    downloadBlob
+} from './utils';
 
 class App {
     private synth!: SynthEngine;
@@ -19,18 +58,44 @@ class App {
     private particles!: ParticleSystem;
     private ui!: UIManager;
     private wavExporter!: WAVExporter;
-    private bgmAudio: HTMLAudioElement | null = null;
+    private compressedExporter!: CompressedAudioExporter;
+    private midiExporter!: MIDIExporter;
+    private chartLoader!: ChartLoader;
+    private midiLoader!: MIDILoader;
+    private replayLoader!: ReplayLoader;
+    private editor!: ChartEditor;
+    private historyStore!: HistoryStore;
+    private instrumentStore!: InstrumentStore;
+    private keyBindings!: KeyBindings;
+    private latency!: LatencySettings;
+    private keyBindingPanel!: KeyBindingPanel;
+    private calibrationPanel!: CalibrationPanel;
+    private gamepadPanel!: GamepadPanel;
+    private effectsPanel!: EffectsPanel;
+    private midiInput!: MIDIKeyboardInput;
+    private microphone!: MicrophoneInput;
     
     private currentDifficulty: Difficulty = 'normal';
     private currentRecording: RecordedNote[] = [];
+    private currentBGM: BGMTake | null = null;
+    private currentReplay: ReplayData | null = null;    // 直前のプレイのリプレイ
+    private replay: ReplayData | null = null;           // 再生中のリプレイ
+    private loadedChart: Chart | null = null;
+    private loadedMIDI: { data: MIDIFileData; title: string } | null = null;  // 譜面の元になったMIDIファイル
+    private seed: number | undefined;   // URLパラメータで指定された乱数シード
+    private editorSourceChart: Chart | null = null;  // エディターに読み込んだ譜面
+    private testPlay: { track: Track; startTime: number; autoPlay?: AutoPlayOptions } | null = null;  // エディターからのテストプレイ
+    private autoPlayEnabled: boolean = false;   // タイトル画面でオートプレイをオンにしたか
+    private autoPlayOptions: AutoPlayOptions = { ...DEFAULT_AUTOPLAY_OPTIONS };
 
     constructor() {
         // キャンバス要素を取得
         const visualizerCanvas = document.getElementById('visualizer') as HTMLCanvasElement;
         const gameCanvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
         const particleCanvas = document.getElementById('particleCanvas') as HTMLCanvasElement;
+        const editorCanvas = document.getElementById('editorCanvas') as HTMLCanvasElement;
 
-        if (!visualizerCanvas || !gameCanvas || !particleCanvas) {
+        if (!visualizerCanvas || !gameCanvas || !particleCanvas || !editorCanvas) {
             console.error('キャンバス要素が見つかりません');
             return;
         }
@@ -39,12 +104,49 @@ class App {
         this.synth = new SynthEngine();
         this.visualizer = new SpectrumVisualizer(visualizerCanvas, this.synth);
         this.particles = new ParticleSystem(particleCanvas);
-        this.game = new GameEngine(gameCanvas, this.synth, this.particles);
+        this.keyBindings = new KeyBindings();
+        this.latency = new LatencySettings();
+        const gamepadBindings = new GamepadBindings();
+        const gamepad = new GamepadInput(gamepadBindings);
+        this.microphone = new MicrophoneInput(this.synth.getContext());
+        this.game = new GameEngine(
+            gameCanvas,
+            this.synth,
+            this.particles,
+            this.keyBindings,
+            this.latency,
+            gamepad,
+            this.microphone
+        );
         this.ui = new UIManager();
         this.wavExporter = new WAVExporter();
+        this.compressedExporter = new CompressedAudioExporter();
+        this.midiExporter = new MIDIExporter();
+        this.chartLoader = new ChartLoader();
+        this.midiLoader = new MIDILoader();
+        this.replayLoader = new ReplayLoader();
+        this.editor = new ChartEditor(editorCanvas, this.synth);
+        this.historyStore = new HistoryStore();
+        this.instrumentStore = new InstrumentStore();
+        this.keyBindingPanel = new KeyBindingPanel(this.keyBindings);
+        this.calibrationPanel = new CalibrationPanel(this.synth, this.latency);
+        this.gamepadPanel = new GamepadPanel(gamepadBindings, gamepad);
+        const masterEffectsStore = new MasterEffectsStore();
+        this.synth.setMasterEffects(masterEffectsStore.get());
+        this.effectsPanel = new EffectsPanel(masterEffectsStore, this.synth);
+        this.midiInput = new MIDIKeyboardInput();
+        
+        // URLパラメータからシードを取得（例: ?seed=12345, ?seed=2026-10-19）
+        const seedParam = new URLSearchParams(window.location.search).get('seed');
+        if (seedParam) {
+            this.seed = SeededRandom.parseSeed(seedParam);
+            console.log(`🎲 シード指定: ${seedParam} → ${this.seed}`);
+        }
 
         // コールバック設定
         this.setupCallbacks();
+        this.applyInstrument();
+        this.ui.showCompressedFormats(CompressedAudioExporter.getSupportedFormats());
 
         // 初期化完了
         console.log('🎵 Rhythm Synth Game - 初期化完了');
@@ -58,11 +160,78 @@ class App {
         // UIコールバック
         this.ui.setCallbacks({
             onDifficultySelect: (difficulty) => this.startGame(difficulty),
-            onRetry: () => this.startGame(this.currentDifficulty),
+            onRetry: () => this.retry(),
             onBackToTitle: () => this.backToTitle(),
             onPlayRecording: () => this.playRecording(),
-            onDownloadWAV: () => this.downloadWAV(),
-            onKeyTouch: (lane) => this.game.processLaneInput(lane)
+            onDownloadWAV: (options) => this.downloadWAV(options),
+            onDownloadStems: (options) => this.downloadStems(options),
+            onDownloadCompressed: (options, formatId, bitrate) => this.downloadCompressed(options, formatId, bitrate),
+            onDownloadMIDI: (judgments) => this.downloadMIDI(judgments),
+            onWatchReplay: () => this.watchReplay(),
+            onSaveReplay: () => this.saveReplay(),
+            onReplayFileSelect: (file) => this.loadReplay(file),
+            onKeyTouch: (lane) => this.game.processLaneInput(lane),
+            onKeyRelease: (lane) => this.game.releaseLane(lane),
+            onPause: () => this.game.pause(),
+            onResume: () => this.resumeGame(),
+            onRestart: () => this.startGame(this.currentDifficulty),
+            onQuit: () => this.quitGame(),
+            onChartFileSelect: (file) => this.loadChart(file),
+            onChartClear: () => this.clearChart(),
+            onMIDITrackSelect: (track) => this.selectMIDITrack(track),
+            onOpenEditor: () => this.openEditor(),
+            onEditorSettingsChange: (settings) => this.editor.updateSettings(settings),
+            onEditorPreview: () => this.toggleEditorPreview(),
+            onEditorTestPlay: () => this.startTestPlay(),
+            onEditorAutoPlay: () => this.startTestPlay(true),
+            onEditorSave: () => this.saveEditorChart(),
+            onEditorBack: () => {
+                this.editor.stopPreview();
+                this.backToTitle();
+            },
+            onOpenHistory: () => this.openHistory(),
+            onOpenKeyBindings: () => {
+                this.keyBindingPanel.open();
+                this.ui.showKeyBindingScreen();
+            },
+            onOpenCalibration: () => {
+                this.calibrationPanel.open();
+                this.ui.showCalibrationScreen();
+            },
+            onOpenGamepad: () => {
+                this.gamepadPanel.open();
+                this.ui.showGamepadScreen();
+            },
+            onOpenEffects: () => {
+                this.effectsPanel.open();
+                this.ui.showEffectsScreen();
+            },
+            onLatencyChange: (offsets) => {
+                this.ui.showLatencyOffsets(this.latency.set(offsets));
+            },
+            onMIDIConnect: () => this.connectMIDI(),
+            onMIDIDeviceSelect: (id) => this.midiInput.selectDevice(id),
+            onMicToggle: (enabled) => this.toggleMicrophone(enabled),
+            onAutoPlayChange: (enabled, options) => {
+                this.autoPlayEnabled = enabled;
+                this.autoPlayOptions = options;
+            },
+            onInstrumentSelect: (patchId) => this.selectInstrument(patchId)
+        });
+        
+        // MIDIキーボードコールバック（キーボード・タッチと同じ入力処理を通す）
+        this.midiInput.setCallbacks({
+            onLaneDown: (lane, velocity) => this.game.processLaneInput(lane, velocity),
+            onLaneUp: (lane) => this.game.releaseLane(lane),
+            onDevicesChange: (devices) => {
+                this.ui.showMIDIDevices(devices, this.midiInput.getSelectedDevice());
+                this.ui.showMIDIStatus(`🎹 ${devices.length}台のMIDIデバイスを検出`);
+            }
+        });
+        
+        // エディターコールバック
+        this.editor.setCallbacks({
+            onPreviewStateChange: (previewing) => this.ui.setEditorPreviewing(previewing)
         });
 
         // ゲームコールバック
@@ -70,11 +239,19 @@ class App {
             onScoreUpdate: (score, combo) => {
                 this.ui.updateScore(score, combo);
             },
-            onJudgment: (message) => {
-                this.ui.showJudgment(message, '#FFD700');
+            onJudgment: (judgment) => {
+                // Perfect以外は早い/遅いを併せて表示
+                const timing = judgment.type !== 'perfect' ? judgment.timing : undefined;
+                this.ui.showJudgment(judgment.message, '#FFD700', timing, judgment.pitch?.cents);
+            },
+            onGameEnd: (state, recording, history) => {
+                this.onGameEnd(state, recording, history);
             },
-            onGameEnd: (state, recording) => {
-                this.onGameEnd(state, recording);
+            onPause: () => {
+                this.onGamePause();
+            },
+            onPauseMenu: (action) => {
+                this.ui.selectPauseMenu(action);
             }
         });
     }
@@ -92,14 +269,29 @@ class App {
             this.game.dispose();
             
             // BGMを停止（既に再生中の場合は）
-            this.stopBGM();
+            this.synth.stopBGM();
             
             // オーディオコンテキストを再開（ユーザーインタラクション後に必要）
             await this.synth.resume();
             console.log('✅ オーディオコンテキスト再開');
             
+            // BGMを先にデコードしておく（譜面に音源の指定があればそれを使う、テストプレイ・リプレイはBGMなし）
+            const replay = this.replay;
+            const bgm = this.testPlay || replay ? null : await this.loadBGM(this.loadedChart?.audio);
+            
+            // オートプレイ（テストプレイはエディターのボタンで選ぶ、リプレイでは使わない）
+            const autoPlay = replay ? undefined
+                : this.testPlay ? this.testPlay.autoPlay
+                : this.autoPlayEnabled ? this.autoPlayOptions : undefined;
+            
+            // リプレイは記録したときの音色で鳴らす
+            if (replay) {
+                this.synth.setPatch(getInstrumentPatch(replay.instrument));
+            }
+            
             // ゲーム画面を表示
             this.ui.showGameScreen(difficulty);
+            this.ui.showPlayModeBadge(replay ? 'REPLAY' : autoPlay ? 'AUTO' : null);
             console.log('✅ ゲーム画面表示');
             
             // ゲーム画面が表示されるのを待ってから設定
@@ -109,49 +301,468 @@ class App {
                 const tempConfig = DIFFICULTY_SETTINGS[difficulty];
                 
                 // キーボードを設定（難易度設定から直接取得）
-                this.ui.setupKeyboard(tempConfig.availableKeys);
+                this.ui.setupKeyboard(
+                    tempConfig.availableKeys,
+                    this.keyBindings.getLabels(tempConfig.availableKeys.length)
+                );
+                this.midiInput.setLanes(tempConfig.availableKeys);
                 console.log(`✅ キーボード設定完了: ${tempConfig.availableKeys.join(', ')}`);
                 
                 // スペクトラムビジュアライザーを開始
                 this.visualizer.start();
                 console.log('✅ ビジュアライザー開始');
                 
-                // BGMを開始
-                this.startBGM();
+                // テストプレイはエディターのカーソル位置から（BGMなし）
+                if (this.testPlay) {
+                    this.game.start(difficulty, this.testPlay);
+                    console.log('🎮 テストプレイ開始！');
+                    return;
+                }
+                
+                // リプレイは記録した入力で進める
+                if (replay) {
+                    this.game.start(difficulty, { replay });
+                    console.log('🎬 リプレイ再生開始！');
+                    return;
+                }
                 
                 // ゲーム開始（この時点で難易度設定が更新される）
-                this.game.start(difficulty);
-                console.log('🎮 ゲーム開始！');
+                const track = this.loadedChart
+                    ? this.chartLoader.toTrack(this.loadedChart, difficulty)
+                    : undefined;
+                this.game.start(difficulty, { track, seed: this.seed, autoPlay });
+                console.log(autoPlay ? '🤖 オートプレイ開始！' : '🎮 ゲーム開始！');
+                
+                // BGMを開始（演奏と同じAudioContextで、ソングクロックに合わせて鳴らす）
+                if (bgm) {
+                    this.synth.startBGM(bgm, this.game.getClock());
+                    console.log('🎵 BGM再生開始');
+                }
             }, 100);
         } catch (error) {
             console.error('❌ ゲーム開始エラー:', error);
         }
     }
 
+    /**
+     * MIDIキーボードに接続
+     */
+    private async connectMIDI(): Promise<void> {
+        if (!MIDIKeyboardInput.isSupported()) {
+            this.ui.showMIDIStatus('⚠️ このブラウザはWeb MIDI APIに対応していません');
+            return;
+        }
+        
+        try {
+            const devices = await this.midiInput.connect();
+            this.ui.showMIDIDevices(devices, this.midiInput.getSelectedDevice());
+            this.ui.showMIDIStatus(devices.length > 0
+                ? `🎹 ${devices.length}台のMIDIデバイスを検出`
+                : '⚠️ MIDIデバイスが見つかりません。接続すると自動で認識されます');
+            console.log(`✅ MIDI接続: ${devices.map((device) => device.name).join(', ')}`);
+        } catch (error) {
+            console.error('❌ MIDI接続エラー:', error);
+            this.ui.showMIDIStatus('❌ MIDIキーボードに接続できませんでした');
+        }
+    }
+
+    /**
+     * マイク入力（音程判定モード）の切り替え
+     */
+    private async toggleMicrophone(enabled: boolean): Promise<void> {
+        if (!enabled) {
+            this.microphone.stop();
+            this.ui.setMicEnabled(false, '');
+            return;
+        }
+        
+        if (!MicrophoneInput.isSupported()) {
+            this.ui.setMicEnabled(false, '⚠️ このブラウザはマイク入力に対応していません');
+            return;
+        }
+        
+        try {
+            await this.synth.resume();
+            await this.microphone.start();
+            this.ui.setMicEnabled(true, '🎤 音符に合わせて歌ってください（ヘッドホン推奨）');
+        } catch (error) {
+            console.error('❌ マイク入力エラー:', error);
+            this.ui.setMicEnabled(false, '❌ マイクを使用できませんでした');
+        }
+    }
+
+    /**
+     * 譜面ファイルを読み込み
+     */
+    private async loadChart(file: File): Promise<void> {
+        console.log(`📂 譜面を読み込み中: ${file.name}`);
+        
+        // MIDIファイルは譜面に変換して読み込む
+        if (/\.midi?$/i.test(file.name)) {
+            await this.loadMIDI(file);
+            return;
+        }
+        
+        try {
+            this.loadedMIDI = null;
+            this.ui.showMIDITracks([]);
+            this.loadedChart = await this.chartLoader.loadFromFile(file);
+            this.ui.showChartInfo(this.loadedChart);
+            this.applyInstrument();
+            console.log(`✅ 譜面読み込み完了: ${this.loadedChart.title}`);
+        } catch (error) {
+            this.loadedChart = null;
+            this.ui.showChartInfo(null);
+            this.applyInstrument();
+            
+            if (error instanceof ChartLoadError) {
+                console.error('❌ 譜面の検証エラー:', error.errors);
+                this.ui.showChartErrors(error.errors);
+            } else {
+                console.error('❌ 譜面読み込みエラー:', error);
+                this.ui.showChartErrors([{ line: 0, path: '', message: `${file.name} を読み込めませんでした` }]);
+            }
+        }
+    }
+
+    /**
+     * MIDIファイルを読み込んで譜面に変換
+     * 最初は音符が最も多いトラックを使う
+     */
+    private async loadMIDI(file: File): Promise<void> {
+        try {
+            const data = await this.midiLoader.loadFromFile(file);
+            const tracks = this.midiLoader.getPlayableTracks(data);
+            if (tracks.length === 0) {
+                throw new MIDIParseError('音符が含まれていません', 0);
+            }
+            
+            this.loadedMIDI = { data, title: file.name.replace(/\.midi?$/i, '') };
+            const track = [...tracks].sort((a, b) => b.notes.length - a.notes.length)[0];
+            this.ui.showMIDITracks(tracks, track.index);
+            this.selectMIDITrack(track.index);
+        } catch (error) {
+            this.loadedMIDI = null;
+            this.loadedChart = null;
+            this.ui.showMIDITracks([]);
+            this.ui.showChartInfo(null);
+            this.applyInstrument();
+            
+            console.error('❌ MIDI読み込みエラー:', error);
+            const message = error instanceof MIDIParseError
+                ? error.message
+                : `${file.name} を読み込めませんでした`;
+            this.ui.showChartErrors([{ line: 0, path: '', message }]);
+        }
+    }
+
+    /**
+     * 譜面にするMIDIトラックを選択
+     */
+    private selectMIDITrack(track: number): void {
+        if (!this.loadedMIDI) return;
+        
+        const { data, title } = this.loadedMIDI;
+        const trackName = data.tracks[track].name;
+        this.loadedChart = this.midiLoader.toChart(data, trackName ? `${title} - ${trackName}` : title, { track });
+        this.ui.showChartInfo(this.loadedChart);
+        this.applyInstrument();
+        console.log(`✅ MIDIトラック${track}を譜面に変換しました`);
+    }
+
+    /**
+     * 今の曲の音色を演奏に反映
+     * プレイヤーが選んだ音色 → 譜面の指定 → クラシック の順に決める
+     */
+    private applyInstrument(): void {
+        const track = this.loadedChart?.title ?? InstrumentStore.RANDOM_TRACK;
+        const patch = getInstrumentPatch(this.instrumentStore.get(track) ?? this.loadedChart?.instrument);
+        this.synth.setPatch(patch);
+        this.ui.showInstrument(patch.id);
+    }
+
+    /**
+     * 今の曲の音色を選択（試し弾きをする）
+     */
+    private async selectInstrument(patchId: string): Promise<void> {
+        const patch = INSTRUMENT_PATCHES[patchId];
+        if (!patch) return;
+        
+        const track = this.loadedChart?.title ?? InstrumentStore.RANDOM_TRACK;
+        this.instrumentStore.set(track, patch.id);
+        this.applyInstrument();
+        
+        await this.synth.resume();
+        this.synth.playSimpleNote(noteToFrequency('C', 4), 0.6);
+        console.log(`🎹 音色: ${patch.name}`);
+    }
+
+    /**
+     * 読み込んだ譜面を破棄してランダム生成に戻す
+     */
+    private clearChart(): void {
+        this.loadedChart = null;
+        this.loadedMIDI = null;
+        this.ui.showMIDITracks([]);
+        this.ui.showChartInfo(null);
+        this.applyInstrument();
+        console.log('🎲 ランダム譜面に戻しました');
+    }
+
+    /**
+     * 譜面エディターを開く
+     */
+    private async openEditor(): Promise<void> {
+        this.visualizer.stop();
+        this.synth.stopBGM();
+        this.testPlay = null;
+        await this.synth.resume();
+        
+        // 新しく読み込んだ譜面があればエディターに渡す（なければ編集中の譜面を続ける）
+        if (this.loadedChart && this.loadedChart !== this.editorSourceChart) {
+            this.editor.open(this.loadedChart);
+            this.editorSourceChart = this.loadedChart;
+        }
+        
+        this.ui.showEditorScreen(this.editor.getSettings());
+        
+        // 画面が表示されてからキャンバスサイズを確定
+        setTimeout(() => this.editor.open(), 50);
+    }
+
+    /**
+     * エディターのプレビュー再生を切り替え
+     */
+    private toggleEditorPreview(): void {
+        if (this.editor.isPreviewing()) {
+            this.editor.stopPreview();
+        } else {
+            this.editor.startPreview();
+        }
+    }
+
+    /**
+     * エディターのカーソル位置からテストプレイ
+     * @param autoPlay ボットに演奏させる（タイトル画面のばらつき・見逃しの設定を使う）
+     */
+    private startTestPlay(autoPlay: boolean = false): void {
+        this.editor.stopPreview();
+        
+        const chart = this.editor.getChart();
+        const difficulty = this.editor.getSettings().difficulty;
+        this.testPlay = {
+            track: this.chartLoader.toTrack(chart, difficulty),
+            startTime: this.editor.getCursorTime() + chart.offset,
+            ...(autoPlay && { autoPlay: this.autoPlayOptions })
+        };
+        
+        this.startGame(difficulty);
+    }
+
+    /**
+     * テストプレイを終えてエディターに戻る
+     */
+    private backToEditor(): void {
+        this.game.stop();
+        this.visualizer.stop();
+        this.testPlay = null;
+        this.ui.showEditorScreen(this.editor.getSettings());
+        setTimeout(() => this.editor.open(), 50);
+    }
+
+    /**
+     * エディターの譜面を保存（JSONダウンロード）し、プレイ用の譜面として使う
+     */
+    private saveEditorChart(): void {
+        const chart = this.editor.getChart();
+        
+        const errors = this.chartLoader.validate(chart);
+        if (errors.length > 0) {
+            console.error('❌ 譜面の検証エラー:', errors);
+            alert(errors.map((error) => `${error.path}: ${error.message}`).join('\n'));
+            return;
+        }
+        
+        const json = JSON.stringify(chart, null, 2);
+        const filename = `${chart.title.replace(/[\\/:*?"<>|]/g, '_')}.json`;
+        downloadBlob(new Blob([json], { type: 'application/json' }), filename);
+        
+        // 保存した譜面をそのままタイトル画面からプレイできるようにする
+        this.loadedChart = chart;
+        this.editorSourceChart = chart;
+        this.ui.showChartInfo(chart);
+        this.applyInstrument();
+        
+        console.log(`💾 譜面を保存しました: ${filename}`);
+    }
+
+    /**
+     * 一時停止時の処理
+     */
+    private onGamePause(): void {
+        this.visualizer.stop();
+        this.synth.pauseBGM();
+        this.ui.showLatencyOffsets(this.latency.get());
+        this.ui.showPauseOverlay();
+    }
+
+    /**
+     * ポーズから再開（カウントダウン後）
+     */
+    private resumeGame(): void {
+        this.ui.startCountdown(() => {
+            // カウントダウン中にタブが隠れた場合はポーズのまま
+            if (document.hidden) {
+                this.ui.showPauseOverlay();
+                return;
+            }
+            
+            this.visualizer.start();
+            this.game.resume();
+            this.synth.resumeBGM(this.game.getClock());
+        });
+    }
+
+    /**
+     * ゲームを中断してタイトルに戻る
+     */
+    private quitGame(): void {
+        if (this.testPlay) {
+            this.backToEditor();
+            return;
+        }
+        
+        this.game.stop();
+        this.backToTitle();
+    }
+
     /**
      * ゲーム終了時の処理
      */
-    private onGameEnd(state: any, recording: RecordedNote[]): void {
+    private onGameEnd(state: GameState, recording: RecordedNote[], history: PlayHistory): void {
         console.log('🎉 ゲーム終了', state);
         
-        // 録音を保存
+        // テストプレイはリザルトを出さずにエディターへ戻る
+        if (this.testPlay) {
+            this.backToEditor();
+            return;
+        }
+        
+        // 録音・リプレイを保存
         this.currentRecording = recording;
+        this.currentReplay = this.game.getReplay();
         
         // スペクトラムビジュアライザーを停止
         this.visualizer.stop();
         
-        // BGMを停止
-        this.stopBGM();
+        // BGMを停止（書き出し用に流れた区間を保存）
+        this.currentBGM = this.synth.getBGMTake();
+        this.ui.setBGMExportAvailable(this.currentBGM !== null);
+        this.ui.showExportProgress(null);
+        this.synth.stopBGM();
+        
+        // プレイ履歴を保存（リプレイの再生・オートプレイは履歴や自己ベストに残さない）
+        const autoPlayed = this.game.isAutoPlaying();
+        const personalBest = this.replay || autoPlayed ? undefined : this.historyStore.add(history);
+        this.ui.showReplayInfo(this.replay
+            ? this.describeReplay(this.replay, state)
+            : autoPlayed ? '🤖 オートプレイの結果です（プレイ履歴・自己ベストには残りません）' : null);
         
         // リザルト画面を表示
-        this.ui.showResultScreen(state);
+        this.ui.showResultScreen(
+            state,
+            history.seed,
+            personalBest,
+            this.game.getTimingStats(),
+            this.game.getPitchStats()
+        );
+    }
+
+    /**
+     * リプレイの記録時の結果と再生した結果を比べた説明
+     */
+    private describeReplay(replay: ReplayData, state: GameState): string {
+        const { result } = replay;
+        const matched = result.score === state.score
+            && result.maxCombo === state.maxCombo
+            && result.perfectCount === state.perfectCount
+            && result.goodCount === state.goodCount
+            && result.badCount === state.badCount
+            && result.missCount === state.missCount;
+        const date = new Date(replay.date).toLocaleString();
+        return `🎬 ${date} のリプレイ（${replay.trackName}）: `
+            + (matched ? '記録時の結果と一致しました' : `⚠️ 記録時の結果（スコア ${result.score}）と一致しません`);
+    }
+
+    /**
+     * もう一度プレイ（リプレイの後は自分でプレイする）
+     */
+    private retry(): void {
+        if (this.replay) {
+            this.replay = null;
+            this.applyInstrument();
+        }
+        this.startGame(this.currentDifficulty);
+    }
+
+    /**
+     * リプレイを再生
+     */
+    private startReplay(replay: ReplayData): void {
+        console.log(`🎬 リプレイ: ${replay.trackName}（${replay.difficulty}、${replay.events.length}入力）`);
+        this.testPlay = null;
+        this.replay = replay;
+        this.startGame(replay.difficulty);
+    }
+
+    /**
+     * 直前のプレイのリプレイを見る
+     */
+    private watchReplay(): void {
+        if (!this.currentReplay) {
+            alert('リプレイがありません');
+            return;
+        }
+        this.startReplay(this.currentReplay);
+    }
+
+    /**
+     * 直前のプレイのリプレイをファイルに保存
+     */
+    private saveReplay(): void {
+        if (!this.currentReplay) {
+            alert('リプレイがありません');
+            return;
+        }
+        
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const filename = `rhythm-synth-${this.currentReplay.difficulty}-${timestamp}.replay.json`;
+        const json = this.replayLoader.serialize(this.currentReplay);
+        downloadBlob(new Blob([json], { type: 'application/json' }), filename);
+        console.log(`✅ リプレイをダウンロードしました: ${filename}`);
+    }
+
+    /**
+     * リプレイファイルを読み込んで再生
+     */
+    private async loadReplay(file: File): Promise<void> {
+        try {
+            const replay = await this.replayLoader.loadFromFile(file);
+            this.startReplay(replay);
+        } catch (error) {
+            console.error('❌ リプレイ読み込みエラー:', error);
+            alert(error instanceof ReplayLoadError
+                ? `リプレイを読み込めませんでした: ${error.message}`
+                : `${file.name} を読み込めませんでした`);
+        }
     }
 
     /**
      * 録音を再生
      */
     private playRecording(): void {
-        if (this.currentRecording.length === 0) {
+        const notes = getAudibleNotes(this.currentRecording);
+        if (notes.length === 0) {
             alert('録音データがありません');
             return;
         }
@@ -165,8 +776,8 @@ class App {
         this.synth.playRecording(this.currentRecording);
         
         // 再生終了後にビジュアライザーを停止
-        const duration = this.currentRecording[this.currentRecording.length - 1].timestamp 
-                        - this.currentRecording[0].timestamp 
+        const duration = notes[notes.length - 1].timestamp 
+                        - notes[0].timestamp 
                         + 1000; // 余韻
         setTimeout(() => {
             this.visualizer.stop();
@@ -174,10 +785,10 @@ class App {
     }
 
     /**
-     * WAVファイルをダウンロード
+     * WAVファイルをダウンロード（演奏時と同じエフェクト・レーン数の定位で書き出す）
      */
-    private async downloadWAV(): Promise<void> {
-        if (this.currentRecording.length === 0) {
+    private async downloadWAV(options: WAVExportOptions): Promise<void> {
+        if (getAudibleNotes(this.currentRecording).length === 0) {
             alert('録音データがありません');
             return;
         }
@@ -187,56 +798,150 @@ class App {
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const filename = `rhythm-synth-${this.currentDifficulty}-${timestamp}.wav`;
         
-        await this.wavExporter.exportToWAV(this.currentRecording, filename);
+        await this.wavExporter.exportToWAV(this.currentRecording, filename, this.getWAVExportOptions(options));
         
         console.log(`✅ WAVファイルをダウンロードしました: ${filename}`);
     }
 
     /**
-     * BGMを開始
+     * 圧縮した音声ファイルをダウンロード（非対応・失敗時はWAVで保存）
      */
-    private startBGM(): void {
+    private async downloadCompressed(options: WAVExportOptions, formatId: string | null, bitrate: number): Promise<void> {
+        if (getAudibleNotes(this.currentRecording).length === 0) {
+            alert('録音データがありません');
+            return;
+        }
+        
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const basename = `rhythm-synth-${this.currentDifficulty}-${timestamp}`;
+        const exportOptions = this.getWAVExportOptions(options);
+        
+        const format = CompressedAudioExporter.getSupportedFormats().find((f) => f.id === formatId);
+        if (!format) {
+            await this.saveWAVFallback(`${basename}.wav`, exportOptions, '⚠️ 圧縮形式に対応していないため、WAVで保存しました');
+            return;
+        }
+        
         try {
-            // 既存のBGMを停止
-            this.stopBGM();
-            
-            // 新しいAudioオブジェクトを作成（ベースパスを考慮）
-            this.bgmAudio = new Audio(`${import.meta.env.BASE_URL}sound.mp3`);
-            this.bgmAudio.loop = true; // ループ再生
-            this.bgmAudio.volume = 0.5; // 音量を50%に設定（必要に応じて調整）
+            console.log(`💾 ${format.label}（${bitrate} kbps）を生成中...`);
+            this.ui.showExportProgress(0, 'レンダリング中...');
+            const buffer = await this.wavExporter.render(this.currentRecording, exportOptions);
             
-            // 再生開始
-            this.bgmAudio.play().then(() => {
-                console.log('🎵 BGM再生開始');
-            }).catch((error) => {
-                console.error('❌ BGM再生エラー:', error);
-                // エラーが発生した場合、BGMをnullに設定
-                this.bgmAudio = null;
+            const blob = await this.compressedExporter.encode(buffer, format, bitrate, (progress) => {
+                this.ui.showExportProgress(progress, `圧縮中... ${Math.round(progress * 100)}%`);
             });
+            
+            const filename = `${basename}.${format.extension}`;
+            downloadBlob(blob, filename);
+            this.ui.showExportProgress(null, `✅ ${format.label} で保存しました（${(blob.size / 1024 / 1024).toFixed(1)} MB）`);
+            console.log(`✅ 圧縮ファイルをダウンロードしました: ${filename}`);
         } catch (error) {
-            console.error('❌ BGM初期化エラー:', error);
-            this.bgmAudio = null;
+            console.error('❌ 圧縮エラー:', error);
+            await this.saveWAVFallback(`${basename}.wav`, exportOptions, `❌ ${(error as Error).message}。WAVで保存しました`);
+        }
+    }
+
+    /**
+     * 圧縮できないときの代わりにWAVで保存（WAVの保存にも失敗したらそのエラーを表示）
+     */
+    private async saveWAVFallback(filename: string, options: WAVExportOptions, message: string): Promise<void> {
+        try {
+            await this.wavExporter.exportToWAV(this.currentRecording, filename, options);
+            this.ui.showExportProgress(null, message);
+        } catch (error) {
+            console.error('❌ WAVの保存エラー:', error);
+            this.ui.showExportProgress(null, `❌ WAVでも保存できませんでした: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * 演奏とBGMを別々のWAVファイルでダウンロード
+     */
+    private async downloadStems(options: WAVExportOptions): Promise<void> {
+        if (getAudibleNotes(this.currentRecording).length === 0) {
+            alert('録音データがありません');
+            return;
         }
+        
+        console.log('💾 ステムを生成中...');
+        
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const filename = `rhythm-synth-${this.currentDifficulty}-${timestamp}.wav`;
+        
+        await this.wavExporter.exportStems(this.currentRecording, filename, this.getWAVExportOptions(options));
+        
+        console.log('✅ ステムをダウンロードしました');
     }
 
     /**
-     * BGMを停止
+     * 画面で選んだ形式に、演奏時のエフェクト・レーン数・BGMを加える
      */
-    private stopBGM(): void {
-        if (this.bgmAudio) {
-            this.bgmAudio.pause();
-            this.bgmAudio.currentTime = 0;
-            this.bgmAudio = null;
-            console.log('🔇 BGM停止');
+    private getWAVExportOptions(options: WAVExportOptions): WAVExportOptions {
+        return {
+            ...options,
+            effects: this.synth.getMasterEffects(),
+            masterVolume: this.synth.getMasterVolume(),
+            laneCount: DIFFICULTY_SETTINGS[this.currentDifficulty].availableKeys.length,
+            bgm: this.currentBGM ?? undefined
+        };
+    }
+
+    /**
+     * 録音をMIDIファイルでダウンロード
+     */
+    private downloadMIDI(judgments: MIDIJudgmentMode): void {
+        if (getAudibleNotes(this.currentRecording).length === 0) {
+            alert('録音データがありません');
+            return;
+        }
+        
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const filename = `rhythm-synth-${this.currentDifficulty}-${timestamp}.mid`;
+        const track = this.game.getTrack();
+        
+        this.midiExporter.exportToMIDI(this.currentRecording, filename, {
+            judgments,
+            bpm: track?.bpm,
+            trackName: track?.name
+        });
+        
+        console.log(`✅ MIDIファイルをダウンロードしました: ${filename}`);
+    }
+
+    /**
+     * BGMの音源を読み込む（失敗したらBGMなしでプレイ）
+     */
+    private async loadBGM(audioFile: string = 'sound.mp3'): Promise<AudioBuffer | null> {
+        try {
+            // ベースパスを考慮
+            return await this.synth.loadBGM(`${import.meta.env.BASE_URL}${audioFile}`);
+        } catch (error) {
+            console.error('❌ BGM読み込みエラー:', error);
+            return null;
         }
     }
 
+    /**
+     * プレイ履歴画面を開く
+     */
+    private openHistory(): void {
+        this.ui.showHistoryScreen(this.historyStore.load(), this.historyStore.getPersonalBests());
+    }
+
     /**
      * タイトル画面に戻る
      */
     private backToTitle(): void {
+        this.testPlay = null;
+        if (this.replay) {
+            this.replay = null;
+            this.applyInstrument();
+        }
+        this.calibrationPanel.stop();
+        this.gamepadPanel.stop();
+        this.effectsPanel.stop();
         this.visualizer.stop();
-        this.stopBGM();
+        this.synth.stopBGM();
         this.ui.showTitleScreen();
         console.log('🏠 タイトル画面に戻りました');
     }
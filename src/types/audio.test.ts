@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { NOTES, frequencyToMidi, noteToFrequency } from './audio';
+
+describe('noteToFrequency', () => {
+    it('オクターブ4は基準の周波数（A4 = 440Hz）', () => {
+        expect(noteToFrequency('A')).toBe(440);
+        expect(noteToFrequency('C', 4)).toBeCloseTo(261.63, 2);
+    });
+
+    it.each([0, 1, 2, 3, 5, 6, 7, 8])('オクターブ%iは2倍ずつ変わる', (octave) => {
+        for (const name of Object.keys(NOTES)) {
+            expect(noteToFrequency(name, octave)).toBeCloseTo(NOTES[name] * 2 ** (octave - 4), 6);
+        }
+    });
+
+    it('平均律の周波数と0.05%以内で一致する', () => {
+        const names = Object.keys(NOTES);
+        for (let octave = 0; octave <= 8; octave++) {
+            names.forEach((name, i) => {
+                const midi = (octave + 1) * 12 + i;
+                const equalTempered = 440 * 2 ** ((midi - 69) / 12);
+                expect(Math.abs(noteToFrequency(name, octave) / equalTempered - 1)).toBeLessThan(0.0005);
+                expect(frequencyToMidi(noteToFrequency(name, octave))).toBe(midi);
+            });
+        }
+    });
+
+    it('オクターブ境界（B3 → C4）で周波数が上がる', () => {
+        expect(noteToFrequency('B', 3)).toBeLessThan(noteToFrequency('C', 4));
+        expect(noteToFrequency('C', 5) / noteToFrequency('B', 4)).toBeCloseTo(2 ** (1 / 12), 3);
+    });
+
+    it('存在しない音名はエラー', () => {
+        expect(() => noteToFrequency('H')).toThrow('Invalid note: H');
+    });
+});
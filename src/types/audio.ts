@@ -8,26 +8,167 @@ export type WaveformType = 'sine' | 'square' | 'sawtooth' | 'triangle';
 // 音符データ
 export interface AudioNote {
     frequency: number;      // 周波数（Hz）
-    duration: number;       // 長さ（秒）
+    duration: number;       // 長さ（秒、リリースを含む）
     waveform: WaveformType; // 波形
     timestamp: number;      // 再生タイミング（ミリ秒）
 }
 
-// 録音された音符（判定情報付き）
-export interface RecordedNote extends AudioNote {
+// 録音した判定（時刻はソングクロック基準のミリ秒）
+export interface RecordedJudgment {
     judgment: JudgmentType; // 判定結果
+    targetTime: number;     // 音符の時刻
+    hitTime?: number;       // 入力した時刻（遅延補正済み、ミスはなし）
+    offset?: number;        // ズレ（hitTime - targetTime、負 = 早い、正 = 遅い）
+}
+
+// 録音された音符（判定情報付き、ゲームエンジンが記録する）
+export interface RecordedNote extends AudioNote, RecordedJudgment {
     effects: AudioEffects;  // 適用されたエフェクト
+    patch?: string;         // 鳴らした音色のID（省略時は 'classic'）
+    lane: number;           // 演奏したレーン（WAV出力の定位に使う）
+    noteId: string;         // 音符のID
+    release?: RecordedJudgment; // ホールドの終点の判定
+    silent?: boolean;       // 鳴らしていない記録（見逃した音符）。再生・書き出しでは飛ばす
+}
+
+// 圧縮した音声ファイルの形式（MediaRecorderで書き出す）
+export interface CompressedAudioFormat {
+    id: string;
+    label: string;
+    mimeType: string;       // MediaRecorder.isTypeSupported() に渡す値
+    extension: string;
+}
+
+// 書き出せる圧縮形式の候補（ブラウザが対応しているものだけ使う）
+export const COMPRESSED_AUDIO_FORMATS: CompressedAudioFormat[] = [
+    { id: 'ogg', label: 'Ogg / Opus', mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+    { id: 'webm', label: 'WebM / Opus', mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+    { id: 'm4a', label: 'M4A / AAC', mimeType: 'audio/mp4;codecs=mp4a.40.2', extension: 'm4a' }
+];
+
+// 圧縮形式のビットレートの選択肢（kbps）
+export const COMPRESSED_AUDIO_BITRATES = [64, 96, 128, 192];
+
+// BGMを途切れずに再生した区間（ポーズで区切られる）
+export interface BGMSegment {
+    timestamp: number;      // 再生を始めたオーディオ時刻（ミリ秒、RecordedNote.timestampと同じ基準）
+    offset: number;         // 音源の再生位置（秒）
+    duration: number;       // 再生した長さ（秒）
+}
+
+// プレイ中に流れたBGM（書き出しで演奏と時刻を合わせるため）
+export interface BGMTake {
+    buffer: AudioBuffer;
+    loop: boolean;
+    volume: number;         // 再生時の音量 0.0 ~ 1.0
+    segments: BGMSegment[];
+}
+
+// WAVの量子化ビット数（32は浮動小数点）
+export type WAVBitDepth = 16 | 24 | 32;
+
+// WAVに書き出す内容（ステムは演奏・BGMの片方だけ）
+export type WAVStem = 'mix' | 'performance' | 'bgm';
+
+// WAVファイル書き出しのオプション
+export interface WAVExportOptions {
+    sampleRate?: number;            // 既定: 44100
+    bitDepth?: WAVBitDepth;         // 既定: 16
+    stereo?: boolean;               // レーンごとに左右へ振り分ける（既定: true）
+    laneCount?: number;             // 定位を決めるレーン数（省略時は録音から推定）
+    normalize?: boolean;            // ピークを揃える（既定: false）
+    effects?: MasterEffectsSettings;    // 演奏時と同じマスターエフェクト
+    bgm?: BGMTake;                  // 一緒に書き出すBGM
+    stem?: WAVStem;                 // 既定: 'mix'
+    performanceVolume?: number;     // 演奏の音量 0.0 ~ 1.0（既定: 1）
+    masterVolume?: number;          // プレイ中のマスター音量（既定: 1、演奏の音量に掛けてBGMとのバランスを揃える）
+    bgmVolume?: number;             // BGMの音量 0.0 ~ 1.0（既定: 1、再生時の音量に掛ける）
 }
 
 // オーディオエフェクト
 export interface AudioEffects {
     waveform: WaveformType;
     volume: number;         // 0.0 ~ 1.0
-    reverb: number;         // 0.0 ~ 1.0
+    reverb: number;         // リバーブへ送る量 0.0 ~ 1.0
+    delay: number;          // ディレイへ送る量 0.0 ~ 1.0
+    chorus: number;         // コーラスへ送る量 0.0 ~ 1.0
     detune: number;         // セント単位（-100 ~ 100）
     filterFreq: number;     // フィルター周波数（Hz）
 }
 
+// マスターエフェクトの設定（wetは各エフェクトの戻り音量、dryは原音の音量 0.0 ~ 1.0）
+export interface MasterEffectsSettings {
+    dry: number;
+    reverb: {
+        wet: number;
+        decay: number;          // 残響の長さ（秒）
+    };
+    delay: {
+        wet: number;
+        time: number;           // ディレイタイム（秒）
+        feedback: number;       // 繰り返しの量 0.0 ~ 0.9
+    };
+    chorus: {
+        wet: number;
+        rate: number;           // 揺れの速さ（Hz）
+        depth: number;          // 揺れの深さ（ミリ秒）
+    };
+    compressor: {
+        threshold: number;      // dB
+        ratio: number;
+    };
+}
+
+// マスターエフェクトの初期設定
+export const DEFAULT_MASTER_EFFECTS: MasterEffectsSettings = {
+    dry: 1,
+    reverb: { wet: 0.5, decay: 1.8 },
+    delay: { wet: 0.4, time: 0.25, feedback: 0.35 },
+    chorus: { wet: 0.6, rate: 0.8, depth: 3 },
+    compressor: { threshold: -18, ratio: 4 }
+};
+
+// エンベロープ（秒、sustainは最大値に対する割合 0.0 ~ 1.0）
+export interface Envelope {
+    attack: number;
+    decay: number;
+    sustain: number;
+    release: number;
+}
+
+// 音色を構成するオシレーター
+export interface OscillatorLayer {
+    waveform?: WaveformType;    // 省略時は判定に応じた波形（AudioEffects.waveform）
+    octave?: number;            // オクターブのずらし
+    detune?: number;            // セント単位
+    gain: number;               // 0.0 ~ 1.0
+}
+
+// 音色（パッチ）
+export interface InstrumentPatch {
+    id: string;
+    name: string;
+    oscillators: OscillatorLayer[];
+    unison: {
+        voices: number;         // オシレーター1つあたりの重ねる数
+        spread: number;         // 一番低い音と高い音のデチューン幅（セント）
+    };
+    fm?: {
+        ratio: number;          // モジュレーターの周波数（音の高さに対する倍率）
+        index: number;          // 変調の深さ（音の高さに対する倍率）
+        decay: number;          // 変調が弱まるまでの時間（秒、0なら一定）
+    };
+    envelope: Envelope;
+    filter: {
+        type: BiquadFilterType;
+        cutoff: number;         // Perfect判定のときのカットオフ周波数（Hz、判定が悪いほど下がる）
+        resonance: number;      // Q
+        envelopeAmount: number; // エンベロープで開く量（オクターブ）
+        envelope: Envelope;
+    };
+    polyphony: number;          // 同時発音数（超えたら古い音から止める）
+}
+
 // 判定タイプ
 export type JudgmentType = 'perfect' | 'good' | 'bad' | 'miss';
 
@@ -38,7 +179,28 @@ export interface Judgment {
     combo: boolean;         // コンボが続くか
     message: string;
     color: string;
-    timing: number;         // タイミングのズレ（ミリ秒）
+    timing: number;         // タイミングのズレ（入力時刻 - 目標時刻、ミリ秒。負 = 早い、正 = 遅い）
+    pitch?: PitchJudgment;  // 音程の判定（マイク入力のときのみ）
+}
+
+// 音程の判定結果
+export interface PitchJudgment {
+    type: JudgmentType;
+    cents: number;          // 目標の音からのズレ（セント、正 = 高い。オクターブ違いは問わない）
+}
+
+// 音高検出の結果
+export interface PitchDetection {
+    frequency: number;      // 周波数（Hz）
+    clarity: number;        // 周期性の強さ（0.0 ~ 1.0、高いほど確か）
+}
+
+// 音高検出の設定
+export interface PitchDetectorOptions {
+    threshold?: number;     // 正規化差分がこれを下回る最初の周期を採用（小さいほど厳しい）
+    minFrequency?: number;  // 検出する最低周波数（Hz）
+    maxFrequency?: number;  // 検出する最高周波数（Hz）
+    minRMS?: number;        // これより小さい音量は無音とみなす
 }
 
 // 音階データ
@@ -74,3 +236,132 @@ export function noteToFrequency(note: string, octave: number = 4): number {
     return baseFreq * Math.pow(2, octave - 4);
 }
 
+
+// MIDIノート番号を音名とオクターブに変換する関数（60 = C4）
+export function midiToNote(noteNumber: number): { name: string; octave: number } {
+    const names = Object.keys(NOTES);
+    return {
+        name: names[((noteNumber % 12) + 12) % 12],
+        octave: Math.floor(noteNumber / 12) - 1
+    };
+}
+
+// 周波数を最も近いMIDIノート番号に変換する関数（A4 = 69）
+export function frequencyToMidi(frequency: number): number {
+    return Math.round(69 + 12 * Math.log2(frequency / NOTES['A']));
+}
+
+// 音色のプリセット
+export const INSTRUMENT_PATCHES: Record<string, InstrumentPatch> = {
+    classic: {
+        id: 'classic',
+        name: 'クラシック',
+        oscillators: [{ gain: 1 }],
+        unison: { voices: 1, spread: 0 },
+        envelope: { attack: 0.01, decay: 0.1, sustain: 0.7, release: 0.2 },
+        filter: {
+            type: 'lowpass',
+            cutoff: 5000,
+            resonance: 1,
+            envelopeAmount: 0,
+            envelope: { attack: 0, decay: 0, sustain: 1, release: 0 }
+        },
+        polyphony: 16
+    },
+    piano: {
+        id: 'piano',
+        name: 'ピアノ風',
+        oscillators: [
+            { waveform: 'triangle', gain: 0.7 },
+            { waveform: 'sine', octave: 1, gain: 0.25 },
+            { waveform: 'sawtooth', detune: 3, gain: 0.1 }
+        ],
+        unison: { voices: 1, spread: 0 },
+        envelope: { attack: 0.005, decay: 1.2, sustain: 0.15, release: 0.3 },
+        filter: {
+            type: 'lowpass',
+            cutoff: 1200,
+            resonance: 0.7,
+            envelopeAmount: 2.5,
+            envelope: { attack: 0.005, decay: 0.6, sustain: 0, release: 0.3 }
+        },
+        polyphony: 16
+    },
+    pluck: {
+        id: 'pluck',
+        name: 'プラック',
+        oscillators: [
+            { waveform: 'sawtooth', gain: 0.6 },
+            { waveform: 'square', octave: -1, gain: 0.3 }
+        ],
+        unison: { voices: 2, spread: 8 },
+        envelope: { attack: 0.002, decay: 0.3, sustain: 0, release: 0.15 },
+        filter: {
+            type: 'lowpass',
+            cutoff: 500,
+            resonance: 6,
+            envelopeAmount: 4,
+            envelope: { attack: 0.002, decay: 0.15, sustain: 0, release: 0.1 }
+        },
+        polyphony: 12
+    },
+    pad: {
+        id: 'pad',
+        name: 'パッド',
+        oscillators: [
+            { waveform: 'sawtooth', gain: 0.5 },
+            { waveform: 'triangle', octave: -1, gain: 0.4 }
+        ],
+        unison: { voices: 4, spread: 24 },
+        envelope: { attack: 0.25, decay: 0.5, sustain: 0.8, release: 0.8 },
+        filter: {
+            type: 'lowpass',
+            cutoff: 1500,
+            resonance: 0.5,
+            envelopeAmount: 1,
+            envelope: { attack: 0.6, decay: 1, sustain: 0.5, release: 0.8 }
+        },
+        polyphony: 8
+    },
+    chiptune: {
+        id: 'chiptune',
+        name: 'チップチューン',
+        oscillators: [{ waveform: 'square', gain: 0.6 }],
+        unison: { voices: 1, spread: 0 },
+        envelope: { attack: 0.001, decay: 0.05, sustain: 0.6, release: 0.05 },
+        filter: {
+            type: 'lowpass',
+            cutoff: 12000,
+            resonance: 0,
+            envelopeAmount: 0,
+            envelope: { attack: 0, decay: 0, sustain: 1, release: 0 }
+        },
+        polyphony: 4
+    },
+    bell: {
+        id: 'bell',
+        name: 'FMベル',
+        oscillators: [{ waveform: 'sine', gain: 0.8 }],
+        unison: { voices: 1, spread: 0 },
+        fm: { ratio: 3.5, index: 4, decay: 0.6 },
+        envelope: { attack: 0.002, decay: 1.5, sustain: 0, release: 0.8 },
+        filter: {
+            type: 'lowpass',
+            cutoff: 8000,
+            resonance: 0,
+            envelopeAmount: 0,
+            envelope: { attack: 0, decay: 0, sustain: 1, release: 0 }
+        },
+        polyphony: 12
+    }
+};
+
+// 音色のIDからプリセットを取得する関数（不明なIDは classic）
+export function getInstrumentPatch(id?: string): InstrumentPatch {
+    return (id !== undefined && INSTRUMENT_PATCHES[id]) || INSTRUMENT_PATCHES.classic;
+}
+
+// 録音のうち実際に鳴らした音符（見逃した音符の記録を除く）
+export function getAudibleNotes(recording: RecordedNote[]): RecordedNote[] {
+    return recording.filter((note) => !note.silent);
+}
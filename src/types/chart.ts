@@ -0,0 +1,54 @@
+/**
+ * 譜面ファイル関連の型定義
+ */
+
+import type { Difficulty } from './game';
+
+// 譜面フォーマットのバージョン
+export const CHART_FORMAT_VERSION = 1;
+
+// 音符に指定できるオクターブの範囲
+export const CHART_OCTAVE_RANGE = { min: 0, max: 8 } as const;
+
+// 譜面内の音符
+export interface ChartNote {
+    time: number;               // 判定ラインに到達する時刻（ミリ秒、offset適用前）
+    lane: number;               // レーン番号（0-indexed）
+    octave?: number;            // オクターブ（省略時は4）
+    duration?: number;          // ホールドの長さ（ミリ秒、省略時は単音）
+}
+
+// 難易度ごとの譜面データ
+export interface ChartDifficulty {
+    level?: number;             // 表示用のレベル
+    duration?: number;          // 曲の長さ（ミリ秒、省略時は最後の音符から算出）
+    notes: ChartNote[];
+}
+
+// 譜面のメタデータ
+export interface ChartMetadata {
+    charter?: string;           // 譜面作者
+    description?: string;
+    tags?: string[];
+    createdAt?: string;         // ISO 8601形式
+}
+
+// 譜面ファイル
+export interface Chart {
+    version: number;
+    title: string;
+    artist: string;
+    bpm: number;
+    offset: number;             // 全音符に加算するオフセット（ミリ秒）
+    audio?: string;             // 音源ファイル（publicディレクトリからの相対パス）
+    instrument?: string;        // 音色のID（INSTRUMENT_PATCHES のキー）
+    metadata?: ChartMetadata;
+    difficulties: Partial<Record<Difficulty, ChartDifficulty>>;
+}
+
+// 譜面の検証エラー
+export interface ChartError {
+    line: number;               // 行番号（1始まり）
+    path: string;               // エラー箇所（例: 'difficulties.easy.notes[3].lane'）
+    message: string;
+}
@@ -2,6 +2,8 @@
  * ゲーム関連の型定義
  */
 
+import type { JudgmentType } from './audio';
+
 // 難易度
 export type Difficulty = 'easy' | 'normal' | 'hard' | 'expert';
 
@@ -27,6 +29,8 @@ export interface GameNote {
     noteName: string;           // 音名（表示用）
     y: number;                  // 現在のY座標
     active: boolean;            // アクティブ（まだ判定されていない）
+    endTime?: number;           // ホールド終了時刻（ミリ秒、ホールドノーツのみ）
+    holding?: boolean;          // ホールド中（始点を判定済みで押し続けている）
 }
 
 // トラック（楽曲データ）
@@ -37,10 +41,17 @@ export interface Track {
     bpm: number;
     notes: GameNote[];
     duration: number;           // 曲の長さ（ミリ秒）
+    seed?: number;              // 生成に使った乱数シード（ランダム生成時のみ）
 }
 
 // ゲーム状態
-export interface GameState {
+export interface GameState extends ScoreState {
+    isPlaying: boolean;
+    isPaused: boolean;
+}
+
+// スコアと判定の集計（ゲームシミュレーションが管理する）
+export interface ScoreState {
     score: number;
     combo: number;
     maxCombo: number;
@@ -48,11 +59,14 @@ export interface GameState {
     goodCount: number;
     badCount: number;
     missCount: number;
-    isPlaying: boolean;
-    isPaused: boolean;
     currentTime: number;        // 経過時間（ミリ秒）
 }
 
+// ゲームの時刻の取得元（ソングクロック基準のミリ秒。テストやヘッドレス実行では任意の時計を渡せる）
+export interface GameClock {
+    now(): number;
+}
+
 // ゲーム設定
 export interface GameConfig {
     canvasWidth: number;
@@ -68,8 +82,11 @@ export interface GameConfig {
 export interface PlayHistory {
     date: Date;
     difficulty: Difficulty;
+    trackId: string;
+    trackName: string;
+    seed?: number;              // ランダム生成トラックの乱数シード
     score: number;
-    accuracy: number;
+    accuracy: number;           // 0 ~ 100（%）
     perfectCount: number;
     goodCount: number;
     badCount: number;
@@ -77,6 +94,75 @@ export interface PlayHistory {
     maxCombo: number;
 }
 
+// 自己ベスト（曲名・難易度ごと）
+export interface PersonalBest {
+    trackName: string;
+    difficulty: Difficulty;
+    score: number;
+    accuracy: number;
+    maxCombo: number;
+    playCount: number;
+    lastPlayed: Date;
+}
+
+// 自己ベストの更新状況
+export interface PersonalBestUpdate {
+    score: boolean;
+    accuracy: boolean;
+    maxCombo: boolean;
+}
+
+// 1回の入力のタイミング（リザルトの分析用）
+export interface TimingSample {
+    type: JudgmentType;
+    offset: number;             // 入力時刻 - 目標時刻（ミリ秒、負 = 早い）
+}
+
+// タイミング分析の結果
+export interface TimingStats {
+    count: number;
+    mean: number;               // 平均のズレ（ミリ秒、負 = 走り気味）
+    stdDev: number;             // 標準偏差（ミリ秒）
+    early: Record<HitJudgmentType, number>;    // 判定ごとの早押し数
+    late: Record<HitJudgmentType, number>;     // 判定ごとの遅押し数
+    histogram: {
+        binSize: number;        // 1本あたりの幅（ミリ秒）
+        start: number;          // 最初のビンの左端（ミリ秒）
+        counts: number[];
+    };
+}
+
+// 音程分析の結果（マイク入力）
+export interface PitchStats {
+    count: number;
+    mean: number;               // 平均のズレ（セント、正 = 高め）
+    meanAbs: number;            // ズレの大きさの平均（セント）
+    accuracy: number;           // 音程精度（0 ~ 100、ズレがBad判定の範囲に近いほど低い）
+}
+
+// オートプレイの人間らしさ（どちらも0なら全音符を音符の時刻ちょうどに押す）
+export interface AutoPlayOptions {
+    timingError: number;        // 押す・離す時刻のばらつき（標準偏差、ミリ秒）
+    missRate: number;           // 押さずに見逃す音符の割合（0.0 ~ 1.0）
+}
+
+// オートプレイの初期設定（ばらつき・見逃しなし）
+export const DEFAULT_AUTOPLAY_OPTIONS: AutoPlayOptions = {
+    timingError: 0,
+    missRate: 0
+};
+
+// 音符を押して得られる判定（Missは除く）
+export type HitJudgmentType = Exclude<JudgmentType, 'miss'>;
+
+// 精度を計算（Perfect + Good の割合、0 ~ 100）
+export function calculateAccuracy(
+    counts: Pick<GameState, 'perfectCount' | 'goodCount' | 'badCount' | 'missCount'>
+): number {
+    const total = counts.perfectCount + counts.goodCount + counts.badCount + counts.missCount;
+    return total > 0 ? (counts.perfectCount + counts.goodCount) / total * 100 : 0;
+}
+
 // 難易度別設定
 export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultyConfig> = {
     easy: {
@@ -4,4 +4,7 @@
 
 export * from './audio';
 export * from './game';
-
+export * from './chart';
+export * from './input';
+export * from './midi';
+export * from './replay';
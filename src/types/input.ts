@@ -0,0 +1,58 @@
+/**
+ * 入力関連の型定義
+ */
+
+// キー設定に対応するレーン数（Easy / Normal / Hard / Expert）
+export const SUPPORTED_LANE_COUNTS = [3, 5, 7, 12] as const;
+export type LaneCount = typeof SUPPORTED_LANE_COUNTS[number];
+
+// レーンごとのキー割り当て（KeyboardEvent.code、インデックス = レーン番号）
+export type KeyLayout = string[];
+
+// キー割り当ての競合
+export interface KeyBindingConflict {
+    code: string;
+    lanes: number[];                        // 競合しているレーン
+    reason: 'duplicate' | 'reserved';       // 重複 / ゲーム操作用のキー
+}
+
+// 遅延補正（ミリ秒、正の値 = 合図よりプレイヤーの入力が遅れて届く）
+export interface LatencyOffsets {
+    audio: number;              // 音に合わせたときの遅れ（判定に使用）
+    visual: number;             // 映像に合わせたときの遅れ（音符の表示位置に使用）
+}
+
+// 接続されているMIDI入力デバイス
+export interface MIDIDeviceInfo {
+    id: string;
+    name: string;
+}
+
+// レーンごとのゲームパッドのボタン割り当て（Standard Gamepadのボタン番号、インデックス = レーン番号）
+export type GamepadLayout = number[];
+
+// ゲームパッドのボタン割り当ての競合
+export interface GamepadBindingConflict {
+    button: number;
+    lanes: number[];                        // 競合しているレーン
+    reason: 'duplicate' | 'reserved';       // 重複 / ゲーム操作用のボタン
+}
+
+// ポーリングで検出したゲームパッドの入力
+export type GamepadInputEvent =
+    | { type: 'laneDown'; lane: number }
+    | { type: 'laneUp'; lane: number }
+    | { type: 'pause' };
+
+// ポーズメニューの操作（再開 / やり直す / タイトルに戻る）
+export type PauseMenuAction = 'resume' | 'restart' | 'quit';
+
+// オートプレイのボットの入力（time は判定に使う入力時刻、ミリ秒）
+export type AutoPlayInputEvent =
+    | { type: 'laneDown'; lane: number; time: number }
+    | { type: 'laneUp'; lane: number; time: number };
+
+// マイク入力で検出した発声（歌い始め・歌い終わり）
+export type PitchInputEvent =
+    | { type: 'onset'; frequency: number }
+    | { type: 'release' };
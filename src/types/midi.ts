@@ -0,0 +1,100 @@
+/**
+ * MIDIファイル関連の型定義
+ */
+
+import type { Difficulty } from './game';
+
+// テンポ変更
+export interface TempoChange {
+    tick: number;
+    microsecondsPerBeat: number;
+}
+
+// MIDIファイル内の音符（ノートオン〜ノートオフ）
+export interface MIDINoteData {
+    noteNumber: number;         // 0 ~ 127（60 = C4）
+    velocity: number;           // 1 ~ 127
+    channel: number;            // 0 ~ 15
+    startTick: number;
+    endTick: number;
+}
+
+// MIDIファイル内のトラック
+export interface MIDITrackData {
+    index: number;
+    name: string;
+    notes: MIDINoteData[];
+    channels: number[];         // 音符が含まれるチャンネル
+}
+
+// 解析したMIDIファイル
+export interface MIDIFileData {
+    format: number;             // 0 / 1 / 2
+    ticksPerBeat: number;       // 4分音符あたりのティック数
+    ticksPerSecond?: number;    // SMPTE形式のタイムベースの場合のみ
+    tempos: TempoChange[];      // ティック順（先頭は必ずtick 0）
+    tracks: MIDITrackData[];
+}
+
+// 読み込むトラック・チャンネルの指定
+export interface MIDISelection {
+    track?: number;             // トラック番号（省略時は音符が最も多いトラック）
+    channel?: number;           // チャンネル（省略時はすべて）
+}
+
+// 難易度ごとの変換オプション
+export interface MIDIImportOptions {
+    quantize?: number;          // 1拍あたりの分割数に合わせて時刻を丸める（4 = 16分音符）
+    minInterval?: number;       // これより短い間隔の音符は間引く（ミリ秒）
+    maxChord?: number;          // 同時に鳴らす音符の最大数（高い音から残す）
+    holdThreshold?: number;     // これ以上の長さの音符はホールドにする（ミリ秒）
+    foldOctaves?: {             // この範囲外のオクターブは範囲内に折り返す（省略時も譜面で使える0〜8に収める）
+        min: number;
+        max: number;
+    };
+}
+
+// 難易度別の変換オプション
+export const MIDI_IMPORT_PRESETS: Record<Difficulty, MIDIImportOptions> = {
+    easy: {
+        quantize: 2,
+        minInterval: 450,
+        maxChord: 1,
+        holdThreshold: 1200,
+        foldOctaves: { min: 4, max: 4 }
+    },
+    normal: {
+        quantize: 4,
+        minInterval: 250,
+        maxChord: 1,
+        holdThreshold: 900,
+        foldOctaves: { min: 4, max: 4 }
+    },
+    hard: {
+        quantize: 4,
+        minInterval: 150,
+        maxChord: 2,
+        holdThreshold: 700,
+        foldOctaves: { min: 3, max: 5 }
+    },
+    expert: {
+        quantize: 8,
+        minInterval: 80,
+        maxChord: 3,
+        holdThreshold: 600,
+        foldOctaves: { min: 2, max: 6 }
+    }
+};
+
+// 判定結果の書き出し方
+export type MIDIJudgmentMode =
+    | 'none'                    // 書き出さない
+    | 'channels'                // 判定ごとに別チャンネル（Perfect: 1, Good: 2, Bad: 3, Miss: 4）
+    | 'markers';                // 判定をマーカー（テキスト）として書き出す
+
+// MIDIファイル書き出しのオプション
+export interface MIDIExportOptions {
+    judgments?: MIDIJudgmentMode;
+    bpm?: number;               // 書き出すテンポ（DAWでの小節線の位置に影響、既定: 120）
+    trackName?: string;
+}
@@ -0,0 +1,61 @@
+/**
+ * リプレイ関連の型定義
+ */
+
+import type { Difficulty } from './game';
+import type { LatencyOffsets } from './input';
+
+// リプレイファイルの形式バージョン
+export const REPLAY_FORMAT_VERSION = 1;
+
+// 記録する入力（time はソングクロックの時刻、遅延補正前のミリ秒）
+export type ReplayEvent =
+    | { type: 'down'; time: number; lane: number; velocity?: number; frequency?: number }
+    | { type: 'up'; time: number; lane: number }
+    | { type: 'miss'; time: number }            // 狙う音符のない入力（マイクで音符のないところで歌った）
+    | { type: 'pause'; time: number }           // ポーズ（ホールド中の音符はこの時刻で離したことになる）
+    | { type: 'latency'; time: number; audio: number; visual: number };  // ポーズ中に遅延補正を変えた
+
+// リプレイに保存する音符（表示用の状態は持たない）
+export interface ReplayNote {
+    id: string;
+    time: number;
+    lane: number;
+    frequency: number;
+    noteName: string;
+    endTime?: number;
+}
+
+// リプレイに保存するトラック（ランダム生成の曲はシードから作り直すので持たない）
+export interface ReplayTrack {
+    id: string;
+    name: string;
+    bpm: number;
+    duration: number;
+    notes: ReplayNote[];
+}
+
+// 記録時の結果（再生結果と照らし合わせる）
+export interface ReplayResult {
+    score: number;
+    maxCombo: number;
+    perfectCount: number;
+    goodCount: number;
+    badCount: number;
+    missCount: number;
+}
+
+// リプレイ
+export interface ReplayData {
+    version: number;
+    date: string;               // 記録した日時（ISO 8601）
+    difficulty: Difficulty;
+    trackName: string;
+    seed?: number;              // ランダム生成の曲のシード
+    track?: ReplayTrack;        // 読み込んだ譜面の曲（seed がない場合）
+    latency: LatencyOffsets;    // 開始時の遅延補正（同じ判定を再現するため）
+    instrument?: string;        // 記録時の音色のID
+    events: ReplayEvent[];      // 時刻順
+    endTime: number;            // ゲームが終了したソングクロックの時刻（ミリ秒）
+    result: ReplayResult;
+}
@@ -0,0 +1,249 @@
+/**
+ * 遅延キャリブレーション画面
+ * メトロノームに合わせたタップから、音と映像それぞれの遅延を測定する
+ *
+ * 1. 音: クリック音だけを鳴らし、音に合わせてタップ
+ * 2. 映像: 音を止めて円の点滅だけを表示し、点滅に合わせてタップ
+ */
+
+import type { LatencyOffsets } from '../types';
+import { SynthEngine, SongClock } from '../audio';
+import { LatencySettings } from '../input';
+
+type CalibrationPhase = 'audio' | 'visual';
+
+export class CalibrationPanel {
+    private static readonly BEAT_INTERVAL = 600;    // 100 BPM（ミリ秒）
+    private static readonly COUNT_IN_BEATS = 4;     // 測定しない最初の拍
+    private static readonly MEASURED_BEATS = 16;
+    private static readonly MIN_TAPS = 8;
+    private static readonly LEAD_IN_TIME = 1000;    // 最初の拍までの待ち時間（ミリ秒）
+    private static readonly SCHEDULE_AHEAD = 200;   // クリック音を先読みで予約する時間（ミリ秒）
+    private static readonly FLASH_TIME = 100;       // 点滅の長さ（ミリ秒）
+    private static readonly OUTLIER_RANGE = 80;     // 中央値からこれ以上ずれたタップは除外（ミリ秒）
+
+    private synth: SynthEngine;
+    private latency: LatencySettings;
+    private clock: SongClock;
+
+    private screen: HTMLElement;
+    private beatElement: HTMLElement;
+    private statusElement: HTMLElement;
+    private resultElement: HTMLElement;
+    private currentElement: HTMLElement;
+    private startButton: HTMLButtonElement;
+    private saveButton: HTMLButtonElement;
+
+    private phase: CalibrationPhase | null = null;
+    private nextBeat: number = 0;           // 次に予約する拍
+    private taps: number[] = [];            // 拍からのずれ（ミリ秒）
+    private result: Partial<LatencyOffsets> = {};
+    private animationId: number | null = null;
+
+    constructor(synth: SynthEngine, latency: LatencySettings) {
+        this.synth = synth;
+        this.latency = latency;
+        this.clock = new SongClock(synth.getContext());
+
+        this.screen = document.getElementById('calibrationScreen')!;
+        this.beatElement = document.getElementById('calibrationBeat')!;
+        this.statusElement = document.getElementById('calibrationStatus')!;
+        this.resultElement = document.getElementById('calibrationResult')!;
+        this.currentElement = document.getElementById('calibrationCurrent')!;
+        this.startButton = document.getElementById('calibrationStart') as HTMLButtonElement;
+        this.saveButton = document.getElementById('calibrationSave') as HTMLButtonElement;
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * イベントリスナーの設定
+     */
+    private setupEventListeners(): void {
+        this.startButton.addEventListener('click', () => this.start());
+        this.saveButton.addEventListener('click', () => this.save());
+
+        // タップ（画面の円・任意のキー）
+        this.beatElement.addEventListener('pointerdown', (e) => {
+            e.preventDefault();
+            this.tap();
+        });
+
+        window.addEventListener('keydown', (e) => {
+            if (this.phase === null || !this.screen.classList.contains('active')) return;
+            if (e.repeat || e.code === 'Escape') return;
+            e.preventDefault();
+            this.tap();
+        });
+    }
+
+    /**
+     * 画面を開く
+     */
+    open(): void {
+        this.stop();
+        this.result = {};
+        this.saveButton.disabled = true;
+        this.resultElement.textContent = '';
+        this.setStatus('「測定開始」を押すと、クリック音が鳴り始めます');
+        this.showCurrentOffsets();
+    }
+
+    /**
+     * 測定を開始（音 → 映像の順）
+     */
+    private async start(): Promise<void> {
+        await this.synth.resume();
+        this.result = {};
+        this.saveButton.disabled = true;
+        this.resultElement.textContent = '';
+        this.startButton.disabled = true;
+        this.beginPhase('audio');
+    }
+
+    /**
+     * 測定を中止
+     */
+    stop(): void {
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
+        }
+        this.phase = null;
+        this.clock.stop();
+        this.beatElement.classList.remove('flash');
+        this.startButton.disabled = false;
+    }
+
+    /**
+     * 測定フェーズを開始
+     */
+    private beginPhase(phase: CalibrationPhase): void {
+        this.phase = phase;
+        this.nextBeat = 0;
+        this.taps = [];
+        this.clock.start(-CalibrationPanel.LEAD_IN_TIME);
+        this.tick();
+    }
+
+    /**
+     * 毎フレームの処理（クリック音の予約・点滅・終了判定）
+     */
+    private tick = (): void => {
+        if (this.phase === null) return;
+
+        const now = this.clock.now();
+        const interval = CalibrationPanel.BEAT_INTERVAL;
+        const totalBeats = CalibrationPanel.COUNT_IN_BEATS + CalibrationPanel.MEASURED_BEATS;
+
+        // 音のフェーズはクリック音を先読みで予約
+        while (this.nextBeat < totalBeats
+            && this.nextBeat * interval < now + CalibrationPanel.SCHEDULE_AHEAD) {
+            if (this.phase === 'audio') {
+                this.synth.playClick(this.clock.toAudioTime(this.nextBeat * interval), this.nextBeat % 4 === 0);
+            }
+            this.nextBeat++;
+        }
+
+        // 映像のフェーズは拍の頭で点滅
+        const beat = Math.floor(now / interval);
+        const sinceBeat = now - beat * interval;
+        const flashing = this.phase === 'visual' && beat >= 0 && beat < totalBeats
+            && sinceBeat < CalibrationPanel.FLASH_TIME;
+        this.beatElement.classList.toggle('flash', flashing);
+
+        // 進行状況
+        const label = this.phase === 'audio' ? '🔊 音に合わせてタップ' : '👀 点滅に合わせてタップ';
+        if (beat < CalibrationPanel.COUNT_IN_BEATS) {
+            this.setStatus(`${label}（準備: ${Math.max(0, CalibrationPanel.COUNT_IN_BEATS - beat)}）`);
+        } else {
+            this.setStatus(`${label}（${this.taps.length} / ${CalibrationPanel.MEASURED_BEATS}）`);
+        }
+
+        // 最後の拍の半拍後で終了
+        if (now > (totalBeats - 0.5) * interval) {
+            this.finishPhase();
+            return;
+        }
+
+        this.animationId = requestAnimationFrame(this.tick);
+    };
+
+    /**
+     * タップを記録（最も近い拍からのずれ）
+     */
+    private tap(): void {
+        if (this.phase === null) return;
+
+        const now = this.clock.now();
+        const beat = Math.round(now / CalibrationPanel.BEAT_INTERVAL);
+        if (beat < CalibrationPanel.COUNT_IN_BEATS
+            || beat >= CalibrationPanel.COUNT_IN_BEATS + CalibrationPanel.MEASURED_BEATS) {
+            return;
+        }
+
+        this.taps.push(now - beat * CalibrationPanel.BEAT_INTERVAL);
+    }
+
+    /**
+     * フェーズ終了（次のフェーズへ進むか結果を表示）
+     */
+    private finishPhase(): void {
+        const phase = this.phase!;
+        const taps = this.taps;
+        this.stop();
+
+        if (taps.length < CalibrationPanel.MIN_TAPS) {
+            this.setStatus(`⚠️ タップが少なすぎます（${taps.length}回）。もう一度測定してください`);
+            return;
+        }
+
+        this.result[phase] = CalibrationPanel.estimateOffset(taps);
+
+        if (phase === 'audio') {
+            this.startButton.disabled = true;
+            this.beginPhase('visual');
+            return;
+        }
+
+        this.resultElement.textContent =
+            `測定結果: 音 ${this.formatOffset(this.result.audio!)} / 映像 ${this.formatOffset(this.result.visual!)}`;
+        this.setStatus('✅ 測定完了。「保存」で設定に反映されます');
+        this.saveButton.disabled = false;
+    }
+
+    /**
+     * 測定結果を保存
+     */
+    private save(): void {
+        this.latency.set(this.result);
+        this.saveButton.disabled = true;
+        this.setStatus('✅ 保存しました');
+        this.showCurrentOffsets();
+    }
+
+    /**
+     * タップのずれからオフセットを推定
+     * 中央値から大きく外れたタップ（打ち損じ）を除いて平均する
+     */
+    private static estimateOffset(taps: number[]): number {
+        const sorted = [...taps].sort((a, b) => a - b);
+        const median = sorted[Math.floor(sorted.length / 2)];
+        const inliers = sorted.filter((tap) => Math.abs(tap - median) <= CalibrationPanel.OUTLIER_RANGE);
+        return Math.round(inliers.reduce((sum, tap) => sum + tap, 0) / inliers.length);
+    }
+
+    private showCurrentOffsets(): void {
+        const { audio, visual } = this.latency.get();
+        this.currentElement.textContent =
+            `現在の設定: 音 ${this.formatOffset(audio)} / 映像 ${this.formatOffset(visual)}`;
+    }
+
+    private formatOffset(offset: number): string {
+        return `${offset > 0 ? '+' : ''}${offset}ms`;
+    }
+
+    private setStatus(message: string): void {
+        this.statusElement.textContent = message;
+    }
+}
@@ -0,0 +1,197 @@
+/**
+ * エフェクト設定パネル
+ * マスターエフェクトのWet/Dryやパラメーターを調整する（変更はすぐに音へ反映し、保存するまで確定しない）
+ */
+
+import type { AudioEffects, MasterEffectsSettings } from '../types';
+import { noteToFrequency } from '../types';
+import { SynthEngine } from '../audio';
+import { MasterEffectsStore } from '../utils';
+
+// スライダー1本分の定義
+interface EffectControl {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+    get: (settings: MasterEffectsSettings) => number;
+    set: (settings: MasterEffectsSettings, value: number) => void;
+}
+
+// 見出しごとのスライダー
+const EFFECT_GROUPS: { title: string; controls: EffectControl[] }[] = [
+    {
+        title: '原音',
+        controls: [
+            { label: 'Dry', min: 0, max: 1, step: 0.05, unit: '', get: (s) => s.dry, set: (s, v) => { s.dry = v; } }
+        ]
+    },
+    {
+        title: 'リバーブ',
+        controls: [
+            { label: 'Wet', min: 0, max: 1, step: 0.05, unit: '', get: (s) => s.reverb.wet, set: (s, v) => { s.reverb.wet = v; } },
+            { label: '残響', min: 0.1, max: 6, step: 0.1, unit: '秒', get: (s) => s.reverb.decay, set: (s, v) => { s.reverb.decay = v; } }
+        ]
+    },
+    {
+        title: 'ディレイ',
+        controls: [
+            { label: 'Wet', min: 0, max: 1, step: 0.05, unit: '', get: (s) => s.delay.wet, set: (s, v) => { s.delay.wet = v; } },
+            { label: '間隔', min: 0.05, max: 1, step: 0.01, unit: '秒', get: (s) => s.delay.time, set: (s, v) => { s.delay.time = v; } },
+            { label: '繰り返し', min: 0, max: 0.9, step: 0.05, unit: '', get: (s) => s.delay.feedback, set: (s, v) => { s.delay.feedback = v; } }
+        ]
+    },
+    {
+        title: 'コーラス',
+        controls: [
+            { label: 'Wet', min: 0, max: 1, step: 0.05, unit: '', get: (s) => s.chorus.wet, set: (s, v) => { s.chorus.wet = v; } },
+            { label: '速さ', min: 0.05, max: 8, step: 0.05, unit: 'Hz', get: (s) => s.chorus.rate, set: (s, v) => { s.chorus.rate = v; } },
+            { label: '深さ', min: 0, max: 10, step: 0.5, unit: 'ms', get: (s) => s.chorus.depth, set: (s, v) => { s.chorus.depth = v; } }
+        ]
+    },
+    {
+        title: 'コンプレッサー',
+        controls: [
+            { label: 'スレッショルド', min: -60, max: 0, step: 1, unit: 'dB', get: (s) => s.compressor.threshold, set: (s, v) => { s.compressor.threshold = v; } },
+            { label: 'レシオ', min: 1, max: 20, step: 0.5, unit: ':1', get: (s) => s.compressor.ratio, set: (s, v) => { s.compressor.ratio = v; } }
+        ]
+    }
+];
+
+// 試聴に使う音（すべてのエフェクトに送る）
+const PREVIEW_EFFECTS: AudioEffects = {
+    waveform: 'sine',
+    volume: 0.8,
+    reverb: 0.5,
+    delay: 0.5,
+    chorus: 0.5,
+    detune: 0,
+    filterFreq: 5000
+};
+const PREVIEW_NOTES = ['C', 'E', 'G'];
+const PREVIEW_INTERVAL = 180;   // ミリ秒
+
+export class EffectsPanel {
+    private store: MasterEffectsStore;
+    private synth: SynthEngine;
+    private controlsElement: HTMLElement;
+    private statusElement: HTMLElement;
+
+    private draft: MasterEffectsSettings;
+
+    constructor(store: MasterEffectsStore, synth: SynthEngine) {
+        this.store = store;
+        this.synth = synth;
+        this.controlsElement = document.getElementById('effectsControls')!;
+        this.statusElement = document.getElementById('effectsStatus')!;
+        this.draft = store.get();
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * イベントリスナーの設定
+     */
+    private setupEventListeners(): void {
+        document.getElementById('effectsSave')?.addEventListener('click', () => {
+            this.draft = this.store.set(this.draft);
+            this.setStatus('✅ 保存しました');
+        });
+
+        document.getElementById('effectsReset')?.addEventListener('click', () => {
+            this.draft = this.store.reset();
+            this.synth.setMasterEffects(this.draft);
+            this.render();
+            this.setStatus('デフォルトの設定に戻しました');
+        });
+
+        document.getElementById('effectsPreview')?.addEventListener('click', () => this.preview());
+    }
+
+    /**
+     * 保存済みの設定を表示
+     */
+    open(): void {
+        this.draft = this.store.get();
+        this.setStatus('');
+        this.render();
+    }
+
+    /**
+     * 保存していない変更を取り消す
+     */
+    stop(): void {
+        this.draft = this.store.get();
+        this.synth.setMasterEffects(this.draft);
+    }
+
+    /**
+     * 表示を更新
+     */
+    private render(): void {
+        this.controlsElement.replaceChildren(...EFFECT_GROUPS.map((group) => {
+            const fieldset = document.createElement('fieldset');
+            fieldset.className = 'effects-group';
+
+            const legend = document.createElement('legend');
+            legend.textContent = group.title;
+            fieldset.append(legend);
+
+            for (const control of group.controls) {
+                fieldset.append(this.createSlider(control));
+            }
+            return fieldset;
+        }));
+    }
+
+    /**
+     * スライダーを作成（動かすとすぐに音へ反映）
+     */
+    private createSlider(control: EffectControl): HTMLElement {
+        const label = document.createElement('label');
+        label.className = 'effects-control';
+
+        const name = document.createElement('span');
+        name.textContent = control.label;
+
+        const input = document.createElement('input');
+        input.type = 'range';
+        input.min = control.min.toString();
+        input.max = control.max.toString();
+        input.step = control.step.toString();
+        input.value = control.get(this.draft).toString();
+
+        const value = document.createElement('span');
+        value.className = 'effects-value';
+        value.textContent = `${control.get(this.draft)}${control.unit}`;
+
+        input.addEventListener('input', () => {
+            const next = structuredClone(this.draft);
+            control.set(next, Number(input.value));
+            this.draft = MasterEffectsStore.clamp(next);
+            this.synth.setMasterEffects(this.draft);
+            value.textContent = `${control.get(this.draft)}${control.unit}`;
+            this.setStatus('');
+        });
+
+        label.append(name, input, value);
+        return label;
+    }
+
+    /**
+     * 和音を分散して鳴らして試聴
+     */
+    private async preview(): Promise<void> {
+        await this.synth.resume();
+        PREVIEW_NOTES.forEach((note, i) => {
+            setTimeout(() => {
+                this.synth.playNote(noteToFrequency(note, 4), 0.3, PREVIEW_EFFECTS);
+            }, i * PREVIEW_INTERVAL);
+        });
+    }
+
+    private setStatus(message: string): void {
+        this.statusElement.textContent = message;
+    }
+}
@@ -0,0 +1,216 @@
+/**
+ * ゲームパッド設定パネル
+ * レーン数ごとのボタン割り当てと、判定時の振動を設定する
+ */
+
+import type { GamepadBindingConflict, GamepadLayout, LaneCount } from '../types';
+import { DIFFICULTY_SETTINGS, SUPPORTED_LANE_COUNTS } from '../types';
+import { GamepadBindings, GamepadInput } from '../input';
+
+export class GamepadPanel {
+    private bindings: GamepadBindings;
+    private gamepad: GamepadInput;
+    private screen: HTMLElement;
+    private laneCountsElement: HTMLElement;
+    private slotsElement: HTMLElement;
+    private conflictsElement: HTMLElement;
+    private statusElement: HTMLElement;
+    private connectionElement: HTMLElement;
+    private vibrationInput: HTMLInputElement;
+    private saveButton: HTMLButtonElement;
+
+    private laneCount: LaneCount = 5;
+    private draft: GamepadLayout = [];
+    private capturingLane: number | null = null;    // ボタン入力待ちのレーン
+    private animationId: number | null = null;
+
+    constructor(bindings: GamepadBindings, gamepad: GamepadInput) {
+        this.bindings = bindings;
+        this.gamepad = gamepad;
+        this.screen = document.getElementById('gamepadScreen')!;
+        this.laneCountsElement = document.getElementById('gamepadLaneCounts')!;
+        this.slotsElement = document.getElementById('gamepadSlots')!;
+        this.conflictsElement = document.getElementById('gamepadConflicts')!;
+        this.statusElement = document.getElementById('gamepadStatus')!;
+        this.connectionElement = document.getElementById('gamepadConnection')!;
+        this.vibrationInput = document.getElementById('gamepadVibration') as HTMLInputElement;
+        this.saveButton = document.getElementById('gamepadSave') as HTMLButtonElement;
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * イベントリスナーの設定
+     */
+    private setupEventListeners(): void {
+        // レーン数の切り替え
+        this.laneCountsElement.replaceChildren(...SUPPORTED_LANE_COUNTS.map((laneCount) => {
+            const button = document.createElement('button');
+            button.className = 'btn btn-secondary';
+            button.dataset.lanes = laneCount.toString();
+            button.textContent = `${laneCount}レーン`;
+            button.addEventListener('click', () => this.open(laneCount));
+            return button;
+        }));
+
+        this.saveButton.addEventListener('click', () => this.save());
+
+        document.getElementById('gamepadReset')?.addEventListener('click', () => {
+            this.bindings.resetLayout(this.laneCount);
+            this.open(this.laneCount);
+            this.setStatus('デフォルトの割り当てに戻しました');
+        });
+
+        this.vibrationInput.addEventListener('change', () => {
+            this.bindings.setVibrationEnabled(this.vibrationInput.checked);
+            if (this.vibrationInput.checked) {
+                this.gamepad.vibrate('perfect');
+            }
+        });
+
+        // Escapeで入力待ちをキャンセル
+        window.addEventListener('keydown', (e) => {
+            if (this.capturingLane === null || !this.screen.classList.contains('active')) return;
+            if (e.code !== 'Escape') return;
+
+            e.preventDefault();
+            e.stopPropagation();
+            this.capturingLane = null;
+            this.setStatus('');
+            this.render();
+        }, { capture: true });
+    }
+
+    /**
+     * 指定したレーン数の割り当てを表示し、ゲームパッドのポーリングを始める
+     */
+    open(laneCount: LaneCount = this.laneCount): void {
+        this.laneCount = laneCount;
+        this.draft = this.bindings.getLayout(laneCount);
+        this.capturingLane = null;
+        this.vibrationInput.checked = this.bindings.isVibrationEnabled();
+        this.setStatus('');
+        this.render();
+
+        if (this.animationId === null) {
+            this.gamepad.sync();
+            this.poll();
+        }
+    }
+
+    /**
+     * ポーリングを止める
+     */
+    stop(): void {
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
+        }
+        this.capturingLane = null;
+    }
+
+    /**
+     * 毎フレームの処理（接続状態の表示・ボタン入力の受け付け）
+     */
+    private poll = (): void => {
+        const names = this.gamepad.getConnectedNames();
+        this.connectionElement.textContent = names.length > 0
+            ? `🎮 接続中: ${names.join(' / ')}`
+            : 'ゲームパッドが見つかりません。接続してボタンを押すと認識されます';
+
+        const buttons = this.gamepad.pollButtons();
+        if (this.capturingLane !== null && buttons.length > 0) {
+            this.draft[this.capturingLane] = buttons[0];
+            this.capturingLane = null;
+            this.setStatus('');
+            this.render();
+        }
+
+        this.animationId = requestAnimationFrame(this.poll);
+    };
+
+    /**
+     * 編集中の割り当てを保存
+     */
+    private save(): void {
+        try {
+            this.bindings.setLayout(this.laneCount, this.draft);
+            this.setStatus('✅ 保存しました');
+        } catch (error) {
+            this.setStatus(`❌ ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * 表示を更新
+     */
+    private render(): void {
+        const conflicts = GamepadBindings.findConflicts(this.draft);
+        const conflictLanes = new Set(conflicts.flatMap((conflict) => conflict.lanes));
+        const noteNames = this.getNoteNames(this.laneCount);
+
+        // レーン数ボタン
+        this.laneCountsElement.querySelectorAll<HTMLElement>('[data-lanes]').forEach((button) => {
+            button.classList.toggle('selected', Number(button.dataset.lanes) === this.laneCount);
+        });
+
+        // レーンごとの割り当て
+        this.slotsElement.replaceChildren(...this.draft.map((button, lane) => {
+            const slot = document.createElement('button');
+            slot.className = 'key-binding-slot';
+            slot.classList.toggle('conflict', conflictLanes.has(lane));
+            slot.classList.toggle('capturing', this.capturingLane === lane);
+
+            const note = document.createElement('span');
+            note.className = 'key-note';
+            note.textContent = noteNames[lane] ?? `${lane + 1}`;
+
+            const label = document.createElement('span');
+            label.className = 'key-label';
+            label.textContent = this.capturingLane === lane ? '…' : GamepadBindings.getLabel(button);
+
+            slot.append(note, label);
+            slot.addEventListener('click', () => {
+                this.capturingLane = lane;
+                this.setStatus(`レーン${lane + 1}（${note.textContent}）に割り当てるボタンを押してください（Escでキャンセル）`);
+                this.render();
+            });
+            return slot;
+        }));
+
+        // 競合の一覧
+        this.conflictsElement.replaceChildren(...conflicts.map((conflict) => {
+            const item = document.createElement('li');
+            item.textContent = this.describeConflict(conflict, noteNames);
+            return item;
+        }));
+
+        this.saveButton.disabled = conflicts.length > 0;
+    }
+
+    /**
+     * 競合の説明文
+     */
+    private describeConflict(conflict: GamepadBindingConflict, noteNames: string[]): string {
+        const button = GamepadBindings.getLabel(conflict.button);
+        const lanes = conflict.lanes.map((lane) => noteNames[lane] ?? `${lane + 1}`).join(' / ');
+
+        if (conflict.reason === 'reserved') {
+            return `${button} は${GamepadBindings.RESERVED_BUTTONS[conflict.button]}に使われています（${lanes}）`;
+        }
+        return `${button} が複数のレーンに割り当てられています（${lanes}）`;
+    }
+
+    /**
+     * レーン数に対応する音名（同じレーン数の難易度から取得）
+     */
+    private getNoteNames(laneCount: number): string[] {
+        const config = Object.values(DIFFICULTY_SETTINGS)
+            .find((settings) => settings.availableKeys.length === laneCount);
+        return config?.availableKeys ?? [];
+    }
+
+    private setStatus(message: string): void {
+        this.statusElement.textContent = message;
+    }
+}
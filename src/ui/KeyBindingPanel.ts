@@ -0,0 +1,169 @@
+/**
+ * キー設定パネル
+ * レーン数ごとのキー割り当てを編集する
+ */
+
+import type { KeyBindingConflict, KeyLayout, LaneCount } from '../types';
+import { DIFFICULTY_SETTINGS, SUPPORTED_LANE_COUNTS } from '../types';
+import { KeyBindings } from '../input';
+
+export class KeyBindingPanel {
+    private keyBindings: KeyBindings;
+    private screen: HTMLElement;
+    private laneCountsElement: HTMLElement;
+    private slotsElement: HTMLElement;
+    private conflictsElement: HTMLElement;
+    private statusElement: HTMLElement;
+    private saveButton: HTMLButtonElement;
+
+    private laneCount: LaneCount = 5;
+    private draft: KeyLayout = [];
+    private capturingLane: number | null = null;    // キー入力待ちのレーン
+
+    constructor(keyBindings: KeyBindings) {
+        this.keyBindings = keyBindings;
+        this.screen = document.getElementById('keyBindingScreen')!;
+        this.laneCountsElement = document.getElementById('keyBindingLaneCounts')!;
+        this.slotsElement = document.getElementById('keyBindingSlots')!;
+        this.conflictsElement = document.getElementById('keyBindingConflicts')!;
+        this.statusElement = document.getElementById('keyBindingStatus')!;
+        this.saveButton = document.getElementById('keyBindingSave') as HTMLButtonElement;
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * イベントリスナーの設定
+     */
+    private setupEventListeners(): void {
+        // レーン数の切り替え
+        this.laneCountsElement.replaceChildren(...SUPPORTED_LANE_COUNTS.map((laneCount) => {
+            const button = document.createElement('button');
+            button.className = 'btn btn-secondary';
+            button.dataset.lanes = laneCount.toString();
+            button.textContent = `${laneCount}レーン`;
+            button.addEventListener('click', () => this.open(laneCount));
+            return button;
+        }));
+
+        this.saveButton.addEventListener('click', () => this.save());
+
+        document.getElementById('keyBindingReset')?.addEventListener('click', () => {
+            this.keyBindings.resetLayout(this.laneCount);
+            this.open(this.laneCount);
+            this.setStatus('デフォルトの割り当てに戻しました');
+        });
+
+        // キー入力の受け付け（ゲーム側のキー処理より先に受け取る）
+        window.addEventListener('keydown', (e) => {
+            if (this.capturingLane === null || !this.screen.classList.contains('active')) return;
+
+            e.preventDefault();
+            e.stopPropagation();
+
+            // Escapeは入力待ちのキャンセル
+            if (e.code !== 'Escape') {
+                this.draft[this.capturingLane] = e.code;
+                this.setStatus('');
+            }
+            this.capturingLane = null;
+            this.render();
+        }, { capture: true });
+    }
+
+    /**
+     * 指定したレーン数の割り当てを表示
+     */
+    open(laneCount: LaneCount = this.laneCount): void {
+        this.laneCount = laneCount;
+        this.draft = this.keyBindings.getLayout(laneCount);
+        this.capturingLane = null;
+        this.setStatus('');
+        this.render();
+    }
+
+    /**
+     * 編集中の割り当てを保存
+     */
+    private save(): void {
+        try {
+            this.keyBindings.setLayout(this.laneCount, this.draft);
+            this.setStatus('✅ 保存しました');
+        } catch (error) {
+            this.setStatus(`❌ ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * 表示を更新
+     */
+    private render(): void {
+        const conflicts = KeyBindings.findConflicts(this.draft);
+        const conflictLanes = new Set(conflicts.flatMap((conflict) => conflict.lanes));
+        const noteNames = this.getNoteNames(this.laneCount);
+
+        // レーン数ボタン
+        this.laneCountsElement.querySelectorAll<HTMLElement>('[data-lanes]').forEach((button) => {
+            button.classList.toggle('selected', Number(button.dataset.lanes) === this.laneCount);
+        });
+
+        // レーンごとの割り当て
+        this.slotsElement.replaceChildren(...this.draft.map((code, lane) => {
+            const slot = document.createElement('button');
+            slot.className = 'key-binding-slot';
+            slot.classList.toggle('conflict', conflictLanes.has(lane));
+            slot.classList.toggle('capturing', this.capturingLane === lane);
+
+            const note = document.createElement('span');
+            note.className = 'key-note';
+            note.textContent = noteNames[lane] ?? `${lane + 1}`;
+
+            const label = document.createElement('span');
+            label.className = 'key-label';
+            label.textContent = this.capturingLane === lane ? '…' : this.keyBindings.getLabel(code);
+
+            slot.append(note, label);
+            slot.addEventListener('click', () => {
+                this.capturingLane = lane;
+                this.setStatus(`レーン${lane + 1}（${note.textContent}）に割り当てるキーを押してください（Escでキャンセル）`);
+                this.render();
+            });
+            return slot;
+        }));
+
+        // 競合の一覧
+        this.conflictsElement.replaceChildren(...conflicts.map((conflict) => {
+            const item = document.createElement('li');
+            item.textContent = this.describeConflict(conflict, noteNames);
+            return item;
+        }));
+
+        this.saveButton.disabled = conflicts.length > 0;
+    }
+
+    /**
+     * 競合の説明文
+     */
+    private describeConflict(conflict: KeyBindingConflict, noteNames: string[]): string {
+        const key = this.keyBindings.getLabel(conflict.code);
+        const lanes = conflict.lanes.map((lane) => noteNames[lane] ?? `${lane + 1}`).join(' / ');
+
+        if (conflict.reason === 'reserved') {
+            return `${key} は${KeyBindings.RESERVED_CODES[conflict.code]}に使われています（${lanes}）`;
+        }
+        return `${key} が複数のレーンに割り当てられています（${lanes}）`;
+    }
+
+    /**
+     * レーン数に対応する音名（同じレーン数の難易度から取得）
+     */
+    private getNoteNames(laneCount: number): string[] {
+        const config = Object.values(DIFFICULTY_SETTINGS)
+            .find((settings) => settings.availableKeys.length === laneCount);
+        return config?.availableKeys ?? [];
+    }
+
+    private setStatus(message: string): void {
+        this.statusElement.textContent = message;
+    }
+}
@@ -3,24 +3,103 @@
  * 画面遷移とUI要素の管理
  */
 
-import type { Difficulty, GameState } from '../types';
+import type {
+    AutoPlayOptions,
+    Chart,
+    ChartError,
+    CompressedAudioFormat,
+    Difficulty,
+    GameState,
+    LatencyOffsets,
+    MIDIDeviceInfo,
+    MIDIJudgmentMode,
+    PauseMenuAction,
+    PersonalBest,
+    PersonalBestUpdate,
+    PitchStats,
+    MIDITrackData,
+    PlayHistory,
+    TimingStats,
+    WAVBitDepth,
+    WAVExportOptions
+} from '../types';
+import { calculateAccuracy, COMPRESSED_AUDIO_BITRATES, INSTRUMENT_PATCHES } from '../types';
+import type { EditorSettings } from '../editor';
+
+// プレイ一覧の並び替えに使える項目
+type HistorySortKey = 'date' | 'score' | 'accuracy' | 'maxCombo';
 
 export class UIManager {
     private titleScreen: HTMLElement;
     private gameScreen: HTMLElement;
     private resultScreen: HTMLElement;
+    private editorScreen: HTMLElement;
+    private historyScreen: HTMLElement;
+    private keyBindingScreen: HTMLElement;
+    private calibrationScreen: HTMLElement;
+    private gamepadScreen: HTMLElement;
+    private effectsScreen: HTMLElement;
     
     private onDifficultySelect?: (difficulty: Difficulty) => void;
     private onRetry?: () => void;
     private onBackToTitle?: () => void;
     private onPlayRecording?: () => void;
-    private onDownloadWAV?: () => void;
+    private onDownloadWAV?: (options: WAVExportOptions) => void;
+    private onDownloadStems?: (options: WAVExportOptions) => void;
+    private onDownloadCompressed?: (options: WAVExportOptions, formatId: string | null, bitrate: number) => void;
+    private onDownloadMIDI?: (judgments: MIDIJudgmentMode) => void;
+    private onWatchReplay?: () => void;
+    private onSaveReplay?: () => void;
+    private onReplayFileSelect?: (file: File) => void;
     private onKeyTouch?: (lane: number) => void;
+    private onKeyRelease?: (lane: number) => void;
+    private onPause?: () => void;
+    private onResume?: () => void;
+    private onRestart?: () => void;
+    private onQuit?: () => void;
+    private onChartFileSelect?: (file: File) => void;
+    private onChartClear?: () => void;
+    private onOpenEditor?: () => void;
+    private onEditorSettingsChange?: (settings: Partial<EditorSettings>) => void;
+    private onEditorPreview?: () => void;
+    private onEditorTestPlay?: () => void;
+    private onEditorAutoPlay?: () => void;
+    private onEditorSave?: () => void;
+    private onEditorBack?: () => void;
+    private onOpenHistory?: () => void;
+    private onOpenKeyBindings?: () => void;
+    private onOpenCalibration?: () => void;
+    private onOpenGamepad?: () => void;
+    private onOpenEffects?: () => void;
+    private onMIDITrackSelect?: (track: number) => void;
+    private onLatencyChange?: (offsets: Partial<LatencyOffsets>) => void;
+    private onMIDIConnect?: () => void;
+    private onMIDIDeviceSelect?: (id: string | null) => void;
+    private onMicToggle?: (enabled: boolean) => void;
+    private onAutoPlayChange?: (enabled: boolean, options: AutoPlayOptions) => void;
+    private onInstrumentSelect?: (patchId: string) => void;
+    
+    private countdownTimer: number | null = null;
+    private judgmentTimer: number | null = null;
+    
+    // FAST/SLOW表示（設定はlocalStorageに保存）
+    private static readonly FAST_SLOW_STORAGE_KEY = 'rhythm-synth-game.showFastSlow';
+    private showFastSlow: boolean = false;
+    
+    // プレイ一覧の表示内容と並び順
+    private historyEntries: PlayHistory[] = [];
+    private historySort: { key: HistorySortKey; ascending: boolean } = { key: 'date', ascending: false };
 
     constructor() {
         this.titleScreen = document.getElementById('titleScreen')!;
         this.gameScreen = document.getElementById('gameScreen')!;
         this.resultScreen = document.getElementById('resultScreen')!;
+        this.editorScreen = document.getElementById('editorScreen')!;
+        this.historyScreen = document.getElementById('historyScreen')!;
+        this.keyBindingScreen = document.getElementById('keyBindingScreen')!;
+        this.calibrationScreen = document.getElementById('calibrationScreen')!;
+        this.gamepadScreen = document.getElementById('gamepadScreen')!;
+        this.effectsScreen = document.getElementById('effectsScreen')!;
         
         this.setupEventListeners();
     }
@@ -65,9 +144,370 @@ export class UIManager {
         
         document.getElementById('downloadWAV')?.addEventListener('click', () => {
             if (this.onDownloadWAV) {
-                this.onDownloadWAV();
+                this.onDownloadWAV(this.getWAVExportOptions());
+            }
+        });
+        
+        document.getElementById('downloadCompressed')?.addEventListener('click', () => {
+            const format = document.getElementById('compressedFormat') as HTMLSelectElement | null;
+            const bitrate = document.getElementById('compressedBitrate') as HTMLSelectElement | null;
+            if (this.onDownloadCompressed) {
+                this.onDownloadCompressed(
+                    this.getWAVExportOptions(),
+                    format?.value || null,
+                    Number(bitrate?.value ?? 128)
+                );
+            }
+        });
+        
+        document.getElementById('downloadStems')?.addEventListener('click', () => {
+            if (this.onDownloadStems) {
+                this.onDownloadStems(this.getWAVExportOptions());
+            }
+        });
+        
+        document.getElementById('downloadMIDI')?.addEventListener('click', () => {
+            const mode = document.getElementById('midiJudgmentMode') as HTMLSelectElement | null;
+            if (this.onDownloadMIDI) {
+                this.onDownloadMIDI((mode?.value ?? 'none') as MIDIJudgmentMode);
+            }
+        });
+        
+        document.getElementById('watchReplay')?.addEventListener('click', () => {
+            if (this.onWatchReplay) {
+                this.onWatchReplay();
+            }
+        });
+        
+        document.getElementById('saveReplay')?.addEventListener('click', () => {
+            if (this.onSaveReplay) {
+                this.onSaveReplay();
+            }
+        });
+        
+        // リプレイファイル読み込み
+        const replayFileInput = document.getElementById('replayFile') as HTMLInputElement | null;
+        replayFileInput?.addEventListener('change', () => {
+            const file = replayFileInput.files?.[0];
+            if (file && this.onReplayFileSelect) {
+                this.onReplayFileSelect(file);
+            }
+            replayFileInput.value = '';
+        });
+        
+        // 譜面ファイル読み込み
+        const chartFileInput = document.getElementById('chartFile') as HTMLInputElement | null;
+        chartFileInput?.addEventListener('change', () => {
+            const file = chartFileInput.files?.[0];
+            if (file && this.onChartFileSelect) {
+                this.onChartFileSelect(file);
+            }
+            // 同じファイルを選び直せるようにリセット
+            chartFileInput.value = '';
+        });
+        
+        // 音色の選択肢（プリセット）
+        const instrumentSelect = document.getElementById('instrument') as HTMLSelectElement | null;
+        instrumentSelect?.replaceChildren(...Object.values(INSTRUMENT_PATCHES).map((patch) => {
+            const option = document.createElement('option');
+            option.value = patch.id;
+            option.textContent = patch.name;
+            return option;
+        }));
+        instrumentSelect?.addEventListener('change', () => {
+            if (this.onInstrumentSelect) {
+                this.onInstrumentSelect(instrumentSelect.value);
+            }
+        });
+        
+        document.getElementById('midiTrack')?.addEventListener('change', (e) => {
+            const track = Number((e.target as HTMLSelectElement).value);
+            if (this.onMIDITrackSelect) {
+                this.onMIDITrackSelect(track);
+            }
+        });
+        
+        // MIDIキーボード
+        document.getElementById('connectMIDI')?.addEventListener('click', () => {
+            if (this.onMIDIConnect) {
+                this.onMIDIConnect();
+            }
+        });
+        
+        document.getElementById('midiDevice')?.addEventListener('change', (e) => {
+            const id = (e.target as HTMLSelectElement).value;
+            if (this.onMIDIDeviceSelect) {
+                this.onMIDIDeviceSelect(id === '' ? null : id);
+            }
+        });
+        
+        // マイク入力（音程判定モード）
+        document.getElementById('micMode')?.addEventListener('change', (e) => {
+            if (this.onMicToggle) {
+                this.onMicToggle((e.target as HTMLInputElement).checked);
+            }
+        });
+        
+        // オートプレイ（オンにすると難易度を選んだときにボットが演奏する）
+        for (const id of ['autoPlayMode', 'autoPlayTimingError', 'autoPlayMissRate']) {
+            document.getElementById(id)?.addEventListener('change', () => {
+                if (this.onAutoPlayChange) {
+                    this.onAutoPlayChange(...this.readAutoPlaySettings());
+                }
+            });
+        }
+        
+        document.getElementById('clearChart')?.addEventListener('click', () => {
+            if (this.onChartClear) {
+                this.onChartClear();
             }
         });
+        
+        // 譜面エディター
+        this.setupEditorListeners();
+        
+        // プレイ履歴
+        document.getElementById('openHistory')?.addEventListener('click', () => {
+            if (this.onOpenHistory) {
+                this.onOpenHistory();
+            }
+        });
+        
+        document.getElementById('historyBack')?.addEventListener('click', () => {
+            if (this.onBackToTitle) {
+                this.onBackToTitle();
+            }
+        });
+        
+        // キー設定
+        document.getElementById('openKeyBindings')?.addEventListener('click', () => {
+            if (this.onOpenKeyBindings) {
+                this.onOpenKeyBindings();
+            }
+        });
+        
+        document.getElementById('keyBindingBack')?.addEventListener('click', () => {
+            if (this.onBackToTitle) {
+                this.onBackToTitle();
+            }
+        });
+        
+        // 遅延補正
+        document.getElementById('openCalibration')?.addEventListener('click', () => {
+            if (this.onOpenCalibration) {
+                this.onOpenCalibration();
+            }
+        });
+        
+        document.getElementById('calibrationBack')?.addEventListener('click', () => {
+            if (this.onBackToTitle) {
+                this.onBackToTitle();
+            }
+        });
+        
+        // ゲームパッド設定
+        document.getElementById('openGamepad')?.addEventListener('click', () => {
+            if (this.onOpenGamepad) {
+                this.onOpenGamepad();
+            }
+        });
+        
+        document.getElementById('gamepadBack')?.addEventListener('click', () => {
+            if (this.onBackToTitle) {
+                this.onBackToTitle();
+            }
+        });
+        
+        // エフェクト設定
+        document.getElementById('openEffects')?.addEventListener('click', () => {
+            if (this.onOpenEffects) {
+                this.onOpenEffects();
+            }
+        });
+        
+        document.getElementById('effectsBack')?.addEventListener('click', () => {
+            if (this.onBackToTitle) {
+                this.onBackToTitle();
+            }
+        });
+        
+        // 見出しクリックで並び替え（同じ列なら昇順/降順を切り替え）
+        document.querySelectorAll<HTMLElement>('#historyScreen th[data-sort]').forEach((header) => {
+            header.addEventListener('click', () => {
+                const key = header.dataset.sort as HistorySortKey;
+                this.historySort = this.historySort.key === key
+                    ? { key, ascending: !this.historySort.ascending }
+                    : { key, ascending: false };
+                this.renderHistoryList();
+            });
+        });
+        
+        // ポーズボタンとポーズメニュー
+        document.getElementById('pauseButton')?.addEventListener('click', () => {
+            if (this.onPause) {
+                this.onPause();
+            }
+        });
+        
+        document.getElementById('pauseResume')?.addEventListener('click', () => {
+            this.selectPauseMenu('resume');
+        });
+        
+        document.getElementById('pauseRestart')?.addEventListener('click', () => {
+            this.selectPauseMenu('restart');
+        });
+        
+        document.getElementById('pauseQuit')?.addEventListener('click', () => {
+            this.selectPauseMenu('quit');
+        });
+        
+        // ポーズメニューでの遅延補正の手動調整
+        document.getElementById('pauseAudioOffset')?.addEventListener('change', (e) => {
+            const audio = Number((e.target as HTMLInputElement).value);
+            if (this.onLatencyChange) {
+                this.onLatencyChange({ audio });
+            }
+        });
+        
+        document.getElementById('pauseVisualOffset')?.addEventListener('change', (e) => {
+            const visual = Number((e.target as HTMLInputElement).value);
+            if (this.onLatencyChange) {
+                this.onLatencyChange({ visual });
+            }
+        });
+        
+        // FAST/SLOW表示の切り替え
+        const fastSlowToggle = document.getElementById('showFastSlow') as HTMLInputElement | null;
+        try {
+            this.showFastSlow = localStorage.getItem(UIManager.FAST_SLOW_STORAGE_KEY) === 'true';
+        } catch (error) {
+            console.error('❌ FAST/SLOW表示の設定を読み込めませんでした:', error);
+        }
+        if (fastSlowToggle) {
+            fastSlowToggle.checked = this.showFastSlow;
+            fastSlowToggle.addEventListener('change', () => {
+                this.showFastSlow = fastSlowToggle.checked;
+                try {
+                    localStorage.setItem(UIManager.FAST_SLOW_STORAGE_KEY, String(this.showFastSlow));
+                } catch (error) {
+                    console.error('❌ FAST/SLOW表示の設定を保存できませんでした:', error);
+                }
+            });
+        }
+        
+        // ポーズ中はEscapeでも再開
+        window.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && !e.defaultPrevented && this.isPauseOverlayVisible()) {
+                this.requestResume();
+            }
+        });
+    }
+
+    /**
+     * 譜面エディターのイベントリスナーを設定
+     */
+    private setupEditorListeners(): void {
+        document.getElementById('openEditor')?.addEventListener('click', () => {
+            if (this.onOpenEditor) {
+                this.onOpenEditor();
+            }
+        });
+        
+        // ツールバーの入力欄 → 設定変更
+        const emitSettings = (settings: Partial<EditorSettings>) => {
+            if (this.onEditorSettingsChange) {
+                this.onEditorSettingsChange(settings);
+            }
+        };
+        const input = (id: string) => document.getElementById(id) as HTMLInputElement | null;
+        
+        input('editorTitle')?.addEventListener('input', (e) => {
+            emitSettings({ title: (e.target as HTMLInputElement).value });
+        });
+        input('editorArtist')?.addEventListener('input', (e) => {
+            emitSettings({ artist: (e.target as HTMLInputElement).value });
+        });
+        input('editorDifficulty')?.addEventListener('change', (e) => {
+            emitSettings({ difficulty: (e.target as HTMLSelectElement).value as Difficulty });
+        });
+        input('editorBpm')?.addEventListener('change', (e) => {
+            const bpm = Number((e.target as HTMLInputElement).value);
+            if (bpm > 0) {
+                emitSettings({ bpm });
+            }
+        });
+        input('editorOffset')?.addEventListener('change', (e) => {
+            const offset = Number((e.target as HTMLInputElement).value);
+            if (Number.isFinite(offset)) {
+                emitSettings({ offset });
+            }
+        });
+        input('editorSnap')?.addEventListener('change', (e) => {
+            emitSettings({ snap: Number((e.target as HTMLSelectElement).value) });
+        });
+        
+        // アクションボタン
+        document.getElementById('editorPreview')?.addEventListener('click', () => {
+            if (this.onEditorPreview) {
+                this.onEditorPreview();
+            }
+        });
+        document.getElementById('editorTestPlay')?.addEventListener('click', () => {
+            if (this.onEditorTestPlay) {
+                this.onEditorTestPlay();
+            }
+        });
+        document.getElementById('editorAutoPlay')?.addEventListener('click', () => {
+            if (this.onEditorAutoPlay) {
+                this.onEditorAutoPlay();
+            }
+        });
+        document.getElementById('editorSave')?.addEventListener('click', () => {
+            if (this.onEditorSave) {
+                this.onEditorSave();
+            }
+        });
+        document.getElementById('editorBack')?.addEventListener('click', () => {
+            if (this.onEditorBack) {
+                this.onEditorBack();
+            }
+        });
+    }
+
+    /**
+     * ポーズメニューの操作（ボタン・ゲームパッド）
+     * メニューを閉じた後（再開のカウントダウン中）の操作は無視する
+     */
+    selectPauseMenu(action: PauseMenuAction): void {
+        if (!this.isPauseOverlayVisible()) return;
+        
+        switch (action) {
+            case 'resume':
+                this.requestResume();
+                break;
+            case 'restart':
+                this.hidePauseOverlay();
+                if (this.onRestart) {
+                    this.onRestart();
+                }
+                break;
+            case 'quit':
+                this.hidePauseOverlay();
+                if (this.onQuit) {
+                    this.onQuit();
+                }
+                break;
+        }
+    }
+
+    /**
+     * 再開をリクエスト（メニューを閉じてからカウントダウン）
+     */
+    private requestResume(): void {
+        this.hidePauseOverlay();
+        if (this.onResume) {
+            this.onResume();
+        }
     }
 
     /**
@@ -104,10 +544,50 @@ export class UIManager {
         }, 50);
     }
 
+    /**
+     * 譜面エディター画面を表示
+     */
+    showEditorScreen(settings: EditorSettings): void {
+        console.log('✏️ 譜面エディターを表示');
+        this.hideAllScreens();
+        this.editorScreen.classList.add('active');
+        
+        // ツールバーに現在の設定を反映
+        const setValue = (id: string, value: string) => {
+            const element = document.getElementById(id) as HTMLInputElement | null;
+            if (element) {
+                element.value = value;
+            }
+        };
+        setValue('editorTitle', settings.title);
+        setValue('editorArtist', settings.artist);
+        setValue('editorDifficulty', settings.difficulty);
+        setValue('editorBpm', settings.bpm.toString());
+        setValue('editorOffset', settings.offset.toString());
+        setValue('editorSnap', settings.snap.toString());
+    }
+
+    /**
+     * プレビューボタンの表示を切り替え
+     */
+    setEditorPreviewing(previewing: boolean): void {
+        const button = document.getElementById('editorPreview');
+        if (button) {
+            button.textContent = previewing ? '⏹ 停止' : '▶ プレビュー';
+        }
+    }
+
     /**
      * リザルト画面を表示
+     * @param seed ランダム生成したトラックの乱数シード
      */
-    showResultScreen(state: GameState): void {
+    showResultScreen(
+        state: GameState,
+        seed?: number,
+        personalBest?: PersonalBestUpdate,
+        timingStats?: TimingStats,
+        pitchStats?: PitchStats
+    ): void {
         this.hideAllScreens();
         this.resultScreen.classList.add('active');
         
@@ -129,24 +609,523 @@ export class UIManager {
         if (missCount) missCount.textContent = state.missCount.toString();
         
         // 精度計算
-        const total = state.perfectCount + state.goodCount + state.badCount + state.missCount;
-        const accuracy = total > 0 
-            ? ((state.perfectCount + state.goodCount) / total * 100).toFixed(1)
-            : '0.0';
+        const accuracy = calculateAccuracy(state).toFixed(1);
         
         const accuracyElement = document.getElementById('accuracy');
         if (accuracyElement) {
             accuracyElement.textContent = `${accuracy}%`;
         }
+        
+        // タイミング分析
+        if (timingStats) {
+            this.showTimingStats(timingStats);
+        }
+        
+        // 音程分析（マイク入力で判定した音符があるときのみ）
+        const pitchAnalysis = document.getElementById('pitchAnalysis');
+        const pitchSummary = document.getElementById('pitchSummary');
+        if (pitchAnalysis && pitchSummary) {
+            pitchAnalysis.hidden = !pitchStats || pitchStats.count === 0;
+            if (pitchStats && pitchStats.count > 0) {
+                const tendency = Math.abs(pitchStats.mean) < 5 ? 'ちょうど良い'
+                    : pitchStats.mean < 0 ? '低め' : '高め';
+                pitchSummary.textContent = `音程精度 ${pitchStats.accuracy.toFixed(1)}% / `
+                    + `平均 ${this.formatCents(pitchStats.mean)}（${tendency}） / `
+                    + `平均のズレ ${pitchStats.meanAbs.toFixed(1)}¢（${pitchStats.count}音）`;
+            }
+        }
+        
+        // 自己ベスト更新（スコアのみ表示対象）
+        const newRecord = document.getElementById('newRecord');
+        if (newRecord) {
+            newRecord.hidden = !personalBest?.score;
+        }
+        
+        // シード表示（同じ譜面で遊ぶためのURLも表示）
+        const seedElement = document.getElementById('seedInfo');
+        if (seedElement) {
+            if (seed !== undefined) {
+                const url = new URL(window.location.href);
+                url.searchParams.set('seed', seed.toString());
+                seedElement.innerHTML = `Seed: <code>${seed}</code>`;
+                seedElement.title = url.toString();
+                seedElement.hidden = false;
+            } else {
+                seedElement.hidden = true;
+            }
+        }
+    }
+
+    /**
+     * タイミング分析（ヒストグラム・平均・標準偏差・早押し/遅押し）を表示
+     */
+    private showTimingStats(stats: TimingStats): void {
+        // ヒストグラム（最大のビンを高さ100%とする）
+        const histogram = document.getElementById('timingHistogram');
+        if (histogram) {
+            const { binSize, start, counts } = stats.histogram;
+            const max = Math.max(1, ...counts);
+            histogram.replaceChildren(...counts.map((count, index) => {
+                const center = start + (index + 0.5) * binSize;
+                const bar = document.createElement('div');
+                bar.className = 'timing-bar';
+                bar.classList.toggle('early', center < 0);
+                bar.classList.toggle('late', center > 0);
+                bar.style.height = `${count / max * 100}%`;
+                bar.title = `${Math.round(center)}ms: ${count}`;
+                return bar;
+            }));
+        }
+        
+        // 平均と標準偏差
+        const summary = document.getElementById('timingSummary');
+        if (summary) {
+            if (stats.count === 0) {
+                summary.textContent = '記録された入力がありません';
+            } else {
+                const tendency = Math.abs(stats.mean) < 5 ? 'ちょうど良い'
+                    : stats.mean < 0 ? '走り気味' : 'もたり気味';
+                const sign = stats.mean > 0 ? '+' : '';
+                summary.textContent =
+                    `平均 ${sign}${stats.mean.toFixed(1)}ms（${tendency}） / 標準偏差 ${stats.stdDev.toFixed(1)}ms`;
+            }
+        }
+        
+        // 判定ごとの早押し/遅押し
+        const breakdown = document.getElementById('timingBreakdown');
+        if (breakdown) {
+            const tiers = [['Perfect', 'perfect'], ['Good', 'good'], ['Bad', 'bad']] as const;
+            breakdown.replaceChildren(...tiers.map(([label, type]) => this.createRow([
+                label,
+                stats.early[type].toString(),
+                stats.late[type].toString()
+            ])));
+        }
+    }
+
+    /**
+     * プレイ履歴画面を表示
+     */
+    showHistoryScreen(history: PlayHistory[], bests: PersonalBest[]): void {
+        this.hideAllScreens();
+        this.historyScreen.classList.add('active');
+        
+        // 自己ベスト（曲名 → 難易度順）
+        const difficultyOrder: Difficulty[] = ['easy', 'normal', 'hard', 'expert'];
+        const sortedBests = [...bests].sort((a, b) =>
+            a.trackName.localeCompare(b.trackName) ||
+            difficultyOrder.indexOf(a.difficulty) - difficultyOrder.indexOf(b.difficulty)
+        );
+        
+        const bestsBody = document.getElementById('personalBests');
+        if (bestsBody) {
+            bestsBody.replaceChildren(...sortedBests.map((best) => this.createRow([
+                best.trackName,
+                best.difficulty.toUpperCase(),
+                best.score.toString(),
+                `${best.accuracy.toFixed(1)}%`,
+                best.maxCombo.toString(),
+                best.playCount.toString()
+            ])));
+        }
+        
+        const empty = document.getElementById('historyEmpty');
+        if (empty) {
+            empty.hidden = history.length > 0;
+        }
+        
+        this.historyEntries = history;
+        this.renderHistoryList();
+    }
+
+    /**
+     * キー設定画面を表示
+     */
+    showKeyBindingScreen(): void {
+        this.hideAllScreens();
+        this.keyBindingScreen.classList.add('active');
+    }
+
+    /**
+     * 遅延キャリブレーション画面を表示
+     */
+    showCalibrationScreen(): void {
+        this.hideAllScreens();
+        this.calibrationScreen.classList.add('active');
+    }
+
+    /**
+     * ゲームパッド設定画面を表示
+     */
+    showGamepadScreen(): void {
+        this.hideAllScreens();
+        this.gamepadScreen.classList.add('active');
+    }
+
+    /**
+     * エフェクト設定画面を表示
+     */
+    showEffectsScreen(): void {
+        this.hideAllScreens();
+        this.effectsScreen.classList.add('active');
+    }
+
+    /**
+     * ポーズメニューの遅延補正の値を表示
+     */
+    showLatencyOffsets(offsets: LatencyOffsets): void {
+        const audioInput = document.getElementById('pauseAudioOffset') as HTMLInputElement | null;
+        const visualInput = document.getElementById('pauseVisualOffset') as HTMLInputElement | null;
+        if (audioInput) audioInput.value = offsets.audio.toString();
+        if (visualInput) visualInput.value = offsets.visual.toString();
+    }
+
+    /**
+     * プレイ一覧を現在の並び順で描画
+     */
+    private renderHistoryList(): void {
+        const { key, ascending } = this.historySort;
+        const value = (entry: PlayHistory) => key === 'date' ? entry.date.getTime() : entry[key];
+        const sorted = [...this.historyEntries].sort((a, b) =>
+            ascending ? value(a) - value(b) : value(b) - value(a)
+        );
+        
+        const listBody = document.getElementById('historyList');
+        if (listBody) {
+            listBody.replaceChildren(...sorted.map((entry) => this.createRow([
+                entry.date.toLocaleString(),
+                entry.trackName,
+                entry.difficulty.toUpperCase(),
+                entry.score.toString(),
+                `${entry.accuracy.toFixed(1)}%`,
+                entry.maxCombo.toString()
+            ])));
+        }
+        
+        // 見出しに並び順を表示
+        document.querySelectorAll<HTMLElement>('#historyScreen th[data-sort]').forEach((header) => {
+            header.classList.toggle('sort-asc', header.dataset.sort === key && ascending);
+            header.classList.toggle('sort-desc', header.dataset.sort === key && !ascending);
+        });
+    }
+
+    /**
+     * 表の行を作成
+     */
+    private createRow(cells: string[]): HTMLTableRowElement {
+        const row = document.createElement('tr');
+        for (const text of cells) {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.appendChild(cell);
+        }
+        return row;
+    }
+
+    /**
+     * 読み込んだ譜面の情報を表示（nullならランダム譜面）
+     */
+    showChartInfo(chart: Chart | null): void {
+        const status = document.getElementById('chartStatus');
+        const clearButton = document.getElementById('clearChart');
+        this.showChartErrors([]);
+        
+        if (status) {
+            status.textContent = chart
+                ? `📄 ${chart.title}${chart.artist ? ` / ${chart.artist}` : ''}（BPM ${chart.bpm}）`
+                : 'ランダム生成の譜面でプレイします';
+        }
+        if (clearButton) {
+            clearButton.hidden = chart === null;
+        }
+        
+        // 譜面に含まれない難易度は選択不可にする
+        document.querySelectorAll<HTMLButtonElement>('.difficulty-card').forEach((card) => {
+            const difficulty = card.getAttribute('data-difficulty') as Difficulty;
+            card.disabled = chart !== null && !chart.difficulties[difficulty];
+        });
+    }
+
+    /**
+     * リザルト画面で選んだWAVの書き出し形式
+     */
+    private getWAVExportOptions(): WAVExportOptions {
+        const sampleRate = document.getElementById('wavSampleRate') as HTMLSelectElement | null;
+        const bitDepth = document.getElementById('wavBitDepth') as HTMLSelectElement | null;
+        const stereo = document.getElementById('wavStereo') as HTMLInputElement | null;
+        const normalize = document.getElementById('wavNormalize') as HTMLInputElement | null;
+        const performanceVolume = document.getElementById('wavPerformanceVolume') as HTMLInputElement | null;
+        const bgmVolume = document.getElementById('wavBGMVolume') as HTMLInputElement | null;
+
+        return {
+            sampleRate: Number(sampleRate?.value ?? 44100),
+            bitDepth: Number(bitDepth?.value ?? 16) as WAVBitDepth,
+            stereo: stereo?.checked ?? true,
+            normalize: normalize?.checked ?? false,
+            performanceVolume: Number(performanceVolume?.value ?? 1),
+            bgmVolume: Number(bgmVolume?.value ?? 1)
+        };
+    }
+
+    /**
+     * 圧縮形式の選択肢を表示（対応形式がなければWAVで保存する旨を表示）
+     */
+    showCompressedFormats(formats: CompressedAudioFormat[]): void {
+        const formatSelect = document.getElementById('compressedFormat') as HTMLSelectElement | null;
+        const bitrateSelect = document.getElementById('compressedBitrate') as HTMLSelectElement | null;
+        
+        formatSelect?.replaceChildren(...(formats.length > 0 ? formats : [null]).map((format) => {
+            const option = document.createElement('option');
+            option.value = format?.id ?? '';
+            option.textContent = format?.label ?? '非対応のブラウザです（WAVで保存）';
+            return option;
+        }));
+        
+        bitrateSelect?.replaceChildren(...COMPRESSED_AUDIO_BITRATES.map((bitrate) => {
+            const option = document.createElement('option');
+            option.value = bitrate.toString();
+            option.textContent = `${bitrate} kbps`;
+            option.selected = bitrate === 128;
+            return option;
+        }));
+        if (bitrateSelect) {
+            bitrateSelect.disabled = formats.length === 0;
+        }
+    }
+
+    /**
+     * 書き出しの進捗を表示（nullで非表示）
+     */
+    showExportProgress(progress: number | null, message: string = ''): void {
+        const row = document.getElementById('exportProgressRow');
+        const bar = document.getElementById('exportProgress') as HTMLProgressElement | null;
+        const status = document.getElementById('exportStatus');
+        const button = document.getElementById('downloadCompressed') as HTMLButtonElement | null;
+        
+        if (row) row.hidden = progress === null && message === '';
+        if (bar) {
+            bar.hidden = progress === null;
+            bar.value = progress ?? 0;
+        }
+        if (status) status.textContent = message;
+        if (button) button.disabled = progress !== null;
+    }
+
+    /**
+     * BGMと一緒に書き出す設定を表示するか（BGMが流れたプレイのみ）
+     */
+    setBGMExportAvailable(available: boolean): void {
+        const options = document.getElementById('bgmExportOptions');
+        if (options) {
+            options.hidden = !available;
+        }
+    }
+
+    /**
+     * ゲーム画面のプレイモード表示（REPLAYなど、nullなら非表示）
+     */
+    showPlayModeBadge(text: string | null): void {
+        const badge = document.getElementById('playModeBadge');
+        if (badge) {
+            badge.textContent = text ?? '';
+            badge.hidden = text === null;
+        }
+    }
+
+    /**
+     * リザルト画面のリプレイ情報（nullなら非表示）
+     */
+    showReplayInfo(message: string | null): void {
+        const info = document.getElementById('replayInfo');
+        if (info) {
+            info.textContent = message ?? '';
+            info.hidden = message === null;
+        }
+    }
+
+    /**
+     * 選択中の音色を表示
+     */
+    showInstrument(patchId: string): void {
+        const select = document.getElementById('instrument') as HTMLSelectElement | null;
+        if (select) {
+            select.value = patchId;
+        }
+    }
+
+    /**
+     * MIDIファイルのトラック選択を表示（空なら非表示）
+     */
+    showMIDITracks(tracks: MIDITrackData[], selected?: number): void {
+        const picker = document.getElementById('midiTrackPicker');
+        const select = document.getElementById('midiTrack') as HTMLSelectElement | null;
+        if (!picker || !select) return;
+        
+        picker.hidden = tracks.length === 0;
+        select.replaceChildren(...tracks.map((track) => {
+            const option = document.createElement('option');
+            const channels = track.channels.map((channel) => channel + 1).join(', ');
+            option.value = track.index.toString();
+            option.textContent = `${track.index + 1}: ${track.name || '(名前なし)'}（${track.notes.length}音, ch ${channels}）`;
+            option.selected = track.index === selected;
+            return option;
+        }));
+    }
+
+    /**
+     * MIDI入力デバイスの選択肢を表示（先頭は「すべてのデバイス」）
+     */
+    showMIDIDevices(devices: MIDIDeviceInfo[], selected: string | null): void {
+        const picker = document.getElementById('midiDevicePicker');
+        const select = document.getElementById('midiDevice') as HTMLSelectElement | null;
+        if (!picker || !select) return;
+        
+        picker.hidden = false;
+        const all = document.createElement('option');
+        all.value = '';
+        all.textContent = 'すべてのデバイス';
+        select.replaceChildren(all, ...devices.map((device) => {
+            const option = document.createElement('option');
+            option.value = device.id;
+            option.textContent = device.name;
+            return option;
+        }));
+        select.value = devices.some((device) => device.id === selected) ? selected! : '';
+    }
+
+    /**
+     * MIDIキーボードの接続状態を表示
+     */
+    showMIDIStatus(message: string): void {
+        const status = document.getElementById('midiStatus');
+        if (status) {
+            status.textContent = message;
+        }
+    }
+
+    /**
+     * マイク入力の状態を表示
+     */
+    setMicEnabled(enabled: boolean, message: string): void {
+        const checkbox = document.getElementById('micMode') as HTMLInputElement | null;
+        if (checkbox) {
+            checkbox.checked = enabled;
+        }
+        const status = document.getElementById('micStatus');
+        if (status) {
+            status.textContent = message;
+        }
+    }
+
+    /**
+     * タイトル画面のオートプレイ設定を読み取る（範囲外の値は丸める）
+     */
+    private readAutoPlaySettings(): [boolean, AutoPlayOptions] {
+        const checkbox = document.getElementById('autoPlayMode') as HTMLInputElement | null;
+        const timingError = Number((document.getElementById('autoPlayTimingError') as HTMLInputElement | null)?.value);
+        const missRate = Number((document.getElementById('autoPlayMissRate') as HTMLInputElement | null)?.value);
+        return [
+            checkbox?.checked ?? false,
+            {
+                timingError: Number.isFinite(timingError) ? Math.max(0, timingError) : 0,
+                missRate: Number.isFinite(missRate) ? Math.min(100, Math.max(0, missRate)) / 100 : 0
+            }
+        ];
+    }
+
+    /**
+     * 譜面の検証エラーを表示
+     */
+    showChartErrors(errors: ChartError[]): void {
+        const list = document.getElementById('chartErrors');
+        if (!list) return;
+        
+        list.innerHTML = '';
+        errors.forEach((error) => {
+            const item = document.createElement('li');
+            item.textContent = `${error.line}行目: ${error.path ? `${error.path}: ` : ''}${error.message}`;
+            list.appendChild(item);
+        });
+    }
+
+    /**
+     * ポーズメニューを表示
+     */
+    showPauseOverlay(): void {
+        this.cancelCountdown();
+        document.getElementById('pauseOverlay')?.classList.add('active');
+    }
+
+    /**
+     * ポーズメニューを非表示
+     */
+    hidePauseOverlay(): void {
+        document.getElementById('pauseOverlay')?.classList.remove('active');
+    }
+
+    /**
+     * ポーズメニューが表示中かどうか
+     */
+    private isPauseOverlayVisible(): boolean {
+        return document.getElementById('pauseOverlay')?.classList.contains('active') ?? false;
+    }
+
+    /**
+     * 再開前のカウントダウン（3-2-1）
+     */
+    startCountdown(onComplete: () => void): void {
+        const countdownElement = document.getElementById('countdown');
+        this.cancelCountdown();
+        
+        let count = 3;
+        const tick = () => {
+            if (count === 0) {
+                this.countdownTimer = null;
+                countdownElement?.classList.remove('show');
+                onComplete();
+                return;
+            }
+            
+            if (countdownElement) {
+                countdownElement.textContent = count.toString();
+                // アニメーションを再生し直す
+                countdownElement.classList.remove('show');
+                void countdownElement.offsetWidth;
+                countdownElement.classList.add('show');
+            }
+            
+            count--;
+            this.countdownTimer = window.setTimeout(tick, 1000);
+        };
+        tick();
+    }
+
+    /**
+     * カウントダウンを中止
+     */
+    private cancelCountdown(): void {
+        if (this.countdownTimer !== null) {
+            clearTimeout(this.countdownTimer);
+            this.countdownTimer = null;
+        }
+        document.getElementById('countdown')?.classList.remove('show');
     }
 
     /**
      * すべての画面を非表示
      */
     private hideAllScreens(): void {
+        this.cancelCountdown();
+        this.hidePauseOverlay();
         this.titleScreen.classList.remove('active');
         this.gameScreen.classList.remove('active');
         this.resultScreen.classList.remove('active');
+        this.editorScreen.classList.remove('active');
+        this.historyScreen.classList.remove('active');
+        this.keyBindingScreen.classList.remove('active');
+        this.calibrationScreen.classList.remove('active');
+        this.gamepadScreen.classList.remove('active');
+        this.effectsScreen.classList.remove('active');
     }
 
     /**
@@ -175,7 +1154,7 @@ export class UIManager {
     /**
      * 判定メッセージを表示
      */
-    showJudgment(message: string, color: string): void {
+    showJudgment(message: string, color: string, timing?: number, cents?: number): void {
         const judgmentElement = document.getElementById('judgment');
         if (!judgmentElement) return;
         
@@ -183,12 +1162,44 @@ export class UIManager {
         judgmentElement.style.color = color;
         judgmentElement.classList.add('show');
         
-        // 0.5秒後にフェードアウト
-        setTimeout(() => {
+        // FAST/SLOW（設定で有効なときのみ）
+        const indicator = document.getElementById('timingIndicator');
+        if (indicator) {
+            const visible = this.showFastSlow && timing !== undefined && timing !== 0;
+            indicator.textContent = visible ? (timing! < 0 ? 'FAST' : 'SLOW') : '';
+            indicator.classList.toggle('fast', visible && timing! < 0);
+            indicator.classList.toggle('slow', visible && timing! > 0);
+        }
+        
+        // 音程のズレ（マイク入力のときのみ）
+        const pitchIndicator = document.getElementById('pitchIndicator');
+        if (pitchIndicator) {
+            pitchIndicator.textContent = cents !== undefined ? this.formatCents(cents) : '';
+            pitchIndicator.classList.toggle('show', cents !== undefined);
+            pitchIndicator.classList.toggle('sharp', cents !== undefined && cents > 5);
+            pitchIndicator.classList.toggle('flat', cents !== undefined && cents < -5);
+        }
+        
+        // 0.5秒後にフェードアウト（連続した判定では最後の表示から数える）
+        if (this.judgmentTimer !== null) {
+            clearTimeout(this.judgmentTimer);
+        }
+        this.judgmentTimer = window.setTimeout(() => {
             judgmentElement.classList.remove('show');
+            indicator?.classList.remove('fast', 'slow');
+            pitchIndicator?.classList.remove('show', 'sharp', 'flat');
+            this.judgmentTimer = null;
         }, 500);
     }
 
+    /**
+     * 音程のズレの表示（例: +12¢）
+     */
+    private formatCents(cents: number): string {
+        const rounded = Math.round(cents);
+        return `${rounded > 0 ? '+' : ''}${rounded}¢`;
+    }
+
     /**
      * 音名に応じた色を取得
      */
@@ -225,8 +1236,10 @@ export class UIManager {
 
     /**
      * キーボードを生成
+     * @param keys 音名
+     * @param labels 割り当てられたキーの表示名
      */
-    setupKeyboard(keys: string[]): void {
+    setupKeyboard(keys: string[], labels: string[]): void {
         console.log(`⌨️ 鍵盤を設定: ${keys.join(', ')}`);
         const keyboardElement = document.getElementById('keyboard');
         if (!keyboardElement) {
@@ -252,9 +1265,6 @@ export class UIManager {
         const maxKeyWidth = isMobile ? 60 : 80;
         const keyWidth = Math.max(minKeyWidth, Math.min(maxKeyWidth, calculatedKeyWidth));
         
-        // キーラベル（9つ目以降は追加キー: B, N, M）
-        const keyLabels = ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'B', 'N', 'M'];
-        
         keys.forEach((note, index) => {
             const keyElement = document.createElement('div');
             keyElement.className = 'key';
@@ -273,12 +1283,16 @@ export class UIManager {
             keyElement.style.setProperty('--note-color-dark', noteColorDark);
             
             // キーラベルを取得（表示用）
-            const keyLabel = keyLabels[index] || '';
+            const keyLabel = labels[index] || '';
             
-            keyElement.innerHTML = `
-                <div class="key-note">${note}</div>
-                <div class="key-label">${keyLabel}</div>
-            `;
+            // キーボード配列の表示名には「<」などが含まれるため、テキストとして設定する
+            const noteElement = document.createElement('div');
+            noteElement.className = 'key-note';
+            noteElement.textContent = note;
+            const labelElement = document.createElement('div');
+            labelElement.className = 'key-label';
+            labelElement.textContent = keyLabel;
+            keyElement.append(noteElement, labelElement);
             
             // タッチ/クリックイベント
             keyElement.addEventListener('touchstart', (e) => {
@@ -288,12 +1302,28 @@ export class UIManager {
             
             keyElement.addEventListener('touchend', (e) => {
                 e.preventDefault();
+                this.handleKeyRelease(index);
             }, { passive: false });
             
-            keyElement.addEventListener('click', () => {
+            keyElement.addEventListener('touchcancel', () => {
+                this.handleKeyRelease(index);
+            });
+            
+            // マウス（押している間はホールド）
+            keyElement.addEventListener('mousedown', () => {
                 this.handleKeyTouch(index);
             });
             
+            keyElement.addEventListener('mouseup', () => {
+                this.handleKeyRelease(index);
+            });
+            
+            keyElement.addEventListener('mouseleave', (e) => {
+                if (e.buttons & 1) {
+                    this.handleKeyRelease(index);
+                }
+            });
+            
             keyboardElement.appendChild(keyElement);
         });
         
@@ -326,6 +1356,15 @@ export class UIManager {
         }
     }
 
+    /**
+     * 鍵盤を離したときの処理
+     */
+    private handleKeyRelease(lane: number): void {
+        if (this.onKeyRelease) {
+            this.onKeyRelease(lane);
+        }
+    }
+
     /**
      * コールバック設定
      */
@@ -334,15 +1373,79 @@ export class UIManager {
         onRetry?: () => void;
         onBackToTitle?: () => void;
         onPlayRecording?: () => void;
-        onDownloadWAV?: () => void;
+        onDownloadWAV?: (options: WAVExportOptions) => void;
+        onDownloadStems?: (options: WAVExportOptions) => void;
+        onDownloadCompressed?: (options: WAVExportOptions, formatId: string | null, bitrate: number) => void;
+        onDownloadMIDI?: (judgments: MIDIJudgmentMode) => void;
+        onWatchReplay?: () => void;
+        onSaveReplay?: () => void;
+        onReplayFileSelect?: (file: File) => void;
         onKeyTouch?: (lane: number) => void;
+        onKeyRelease?: (lane: number) => void;
+        onPause?: () => void;
+        onResume?: () => void;
+        onRestart?: () => void;
+        onQuit?: () => void;
+        onChartFileSelect?: (file: File) => void;
+        onChartClear?: () => void;
+        onOpenEditor?: () => void;
+        onEditorSettingsChange?: (settings: Partial<EditorSettings>) => void;
+        onEditorPreview?: () => void;
+        onEditorTestPlay?: () => void;
+        onEditorAutoPlay?: () => void;
+        onEditorSave?: () => void;
+        onEditorBack?: () => void;
+        onOpenHistory?: () => void;
+        onOpenKeyBindings?: () => void;
+        onOpenCalibration?: () => void;
+        onOpenGamepad?: () => void;
+        onOpenEffects?: () => void;
+        onMIDITrackSelect?: (track: number) => void;
+        onLatencyChange?: (offsets: Partial<LatencyOffsets>) => void;
+        onMIDIConnect?: () => void;
+        onMIDIDeviceSelect?: (id: string | null) => void;
+        onMicToggle?: (enabled: boolean) => void;
+        onAutoPlayChange?: (enabled: boolean, options: AutoPlayOptions) => void;
+        onInstrumentSelect?: (patchId: string) => void;
     }): void {
         this.onDifficultySelect = callbacks.onDifficultySelect;
         this.onRetry = callbacks.onRetry;
         this.onBackToTitle = callbacks.onBackToTitle;
         this.onPlayRecording = callbacks.onPlayRecording;
         this.onDownloadWAV = callbacks.onDownloadWAV;
+        this.onDownloadStems = callbacks.onDownloadStems;
+        this.onDownloadCompressed = callbacks.onDownloadCompressed;
+        this.onDownloadMIDI = callbacks.onDownloadMIDI;
+        this.onWatchReplay = callbacks.onWatchReplay;
+        this.onSaveReplay = callbacks.onSaveReplay;
+        this.onReplayFileSelect = callbacks.onReplayFileSelect;
         this.onKeyTouch = callbacks.onKeyTouch;
+        this.onKeyRelease = callbacks.onKeyRelease;
+        this.onPause = callbacks.onPause;
+        this.onResume = callbacks.onResume;
+        this.onRestart = callbacks.onRestart;
+        this.onQuit = callbacks.onQuit;
+        this.onChartFileSelect = callbacks.onChartFileSelect;
+        this.onChartClear = callbacks.onChartClear;
+        this.onOpenEditor = callbacks.onOpenEditor;
+        this.onEditorSettingsChange = callbacks.onEditorSettingsChange;
+        this.onEditorPreview = callbacks.onEditorPreview;
+        this.onEditorTestPlay = callbacks.onEditorTestPlay;
+        this.onEditorAutoPlay = callbacks.onEditorAutoPlay;
+        this.onEditorSave = callbacks.onEditorSave;
+        this.onEditorBack = callbacks.onEditorBack;
+        this.onOpenHistory = callbacks.onOpenHistory;
+        this.onOpenKeyBindings = callbacks.onOpenKeyBindings;
+        this.onOpenCalibration = callbacks.onOpenCalibration;
+        this.onOpenGamepad = callbacks.onOpenGamepad;
+        this.onOpenEffects = callbacks.onOpenEffects;
+        this.onMIDITrackSelect = callbacks.onMIDITrackSelect;
+        this.onLatencyChange = callbacks.onLatencyChange;
+        this.onMIDIConnect = callbacks.onMIDIConnect;
+        this.onMIDIDeviceSelect = callbacks.onMIDIDeviceSelect;
+        this.onMicToggle = callbacks.onMicToggle;
+        this.onAutoPlayChange = callbacks.onAutoPlayChange;
+        this.onInstrumentSelect = callbacks.onInstrumentSelect;
     }
 }
 
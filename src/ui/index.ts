@@ -3,4 +3,7 @@
  */
 
 export * from './UIManager';
-
+export * from './KeyBindingPanel';
+export * from './CalibrationPanel';
+export * from './GamepadPanel';
+export * from './EffectsPanel';
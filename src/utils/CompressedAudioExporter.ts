@@ -0,0 +1,101 @@
+/**
+ * 圧縮音声エクスポーター
+ * レンダリングした音声をMediaRecorderでOpusなどに圧縮する（スマートフォンから共有しやすいサイズ）
+ *
+ * MediaRecorderは実時間でしか録音できないため、書き出しには曲の長さだけ時間がかかる
+ */
+
+import type { CompressedAudioFormat } from '../types';
+import { COMPRESSED_AUDIO_FORMATS } from '../types';
+
+export class CompressedAudioExporter {
+    private static readonly TIMESLICE = 250;            // データを受け取る間隔（ミリ秒）
+    private static readonly PROGRESS_INTERVAL = 200;    // 進捗を知らせる間隔（ミリ秒）
+
+    /**
+     * このブラウザで書き出せる形式（MediaRecorder非対応なら空）
+     */
+    static getSupportedFormats(): CompressedAudioFormat[] {
+        if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') {
+            return [];
+        }
+        return COMPRESSED_AUDIO_FORMATS.filter((format) => MediaRecorder.isTypeSupported(format.mimeType));
+    }
+
+    /**
+     * AudioBufferを圧縮したBlobに変換
+     * @param bitrate ビットレート（kbps）
+     * @param onProgress 進捗（0.0 ~ 1.0）
+     */
+    async encode(
+        buffer: AudioBuffer,
+        format: CompressedAudioFormat,
+        bitrate: number,
+        onProgress?: (progress: number) => void
+    ): Promise<Blob> {
+        if (!MediaRecorder.isTypeSupported(format.mimeType)) {
+            throw new Error(`このブラウザは ${format.label} の書き出しに対応していません`);
+        }
+
+        const context = new AudioContext({ sampleRate: buffer.sampleRate });
+        let progressTimer: number | null = null;
+
+        try {
+            await context.resume();
+
+            // AudioBuffer → MediaStream → MediaRecorder
+            const destination = context.createMediaStreamDestination();
+            const source = context.createBufferSource();
+            source.buffer = buffer;
+            source.connect(destination);
+
+            const recorder = new MediaRecorder(destination.stream, {
+                mimeType: format.mimeType,
+                audioBitsPerSecond: bitrate * 1000
+            });
+            const chunks: Blob[] = [];
+
+            const finished = new Promise<Blob>((resolve, reject) => {
+                recorder.addEventListener('dataavailable', (e) => {
+                    if (e.data.size > 0) {
+                        chunks.push(e.data);
+                    }
+                });
+                recorder.addEventListener('stop', () => {
+                    resolve(new Blob(chunks, { type: recorder.mimeType || format.mimeType }));
+                });
+                recorder.addEventListener('error', (e) => {
+                    const error = (e as Event & { error?: DOMException }).error;
+                    reject(new Error(`圧縮に失敗しました: ${error?.message ?? '不明なエラー'}`));
+                });
+            });
+
+            // 最後まで再生したら録音を止める
+            source.addEventListener('ended', () => {
+                if (recorder.state !== 'inactive') {
+                    recorder.stop();
+                }
+            });
+
+            recorder.start(CompressedAudioExporter.TIMESLICE);
+            const startTime = context.currentTime;
+            source.start(startTime);
+
+            if (onProgress) {
+                onProgress(0);
+                progressTimer = window.setInterval(() => {
+                    onProgress(Math.min(1, (context.currentTime - startTime) / buffer.duration));
+                }, CompressedAudioExporter.PROGRESS_INTERVAL);
+            }
+
+            const blob = await finished;
+            onProgress?.(1);
+            return blob;
+        } finally {
+            if (progressTimer !== null) {
+                clearInterval(progressTimer);
+            }
+            await context.close();
+        }
+    }
+}
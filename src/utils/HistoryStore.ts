@@ -0,0 +1,176 @@
+/**
+ * プレイ履歴の保存
+ * localStorageにスキーマバージョン付きで保存し、古い形式は読み込み時に移行する
+ */
+
+import type { PersonalBest, PersonalBestUpdate, PlayHistory } from '../types';
+
+// 保存形式（dateはISO 8601文字列）
+type StoredPlayHistory = Omit<PlayHistory, 'date'> & { date: string };
+
+interface StoredHistory {
+    version: number;
+    entries: StoredPlayHistory[];
+}
+
+export class HistoryStore {
+    private static readonly STORAGE_KEY = 'rhythm-synth-game.history';
+    private static readonly SCHEMA_VERSION = 1;
+    private static readonly MAX_ENTRIES = 500;
+
+    /**
+     * スキーマの移行処理（移行元バージョン → 次のバージョンの形式に変換）
+     * v1が最初の形式のため、まだ移行処理はない。形式を変えたらここに追加してSCHEMA_VERSIONを上げる
+     */
+    private static readonly MIGRATIONS: Partial<Record<number, (data: unknown) => { version: number }>> = {};
+
+    /**
+     * すべての履歴を取得（新しい順）
+     */
+    load(): PlayHistory[] {
+        return this.read().entries
+            .map((entry) => ({ ...entry, date: new Date(entry.date) }))
+            .sort((a, b) => b.date.getTime() - a.date.getTime());
+    }
+
+    /**
+     * 履歴を追加
+     * @returns 自己ベストを更新した項目
+     */
+    add(entry: PlayHistory): PersonalBestUpdate {
+        const previous = this.getPersonalBests().find((best) =>
+            best.trackName === entry.trackName && best.difficulty === entry.difficulty
+        );
+
+        const update: PersonalBestUpdate = {
+            score: !previous || entry.score > previous.score,
+            accuracy: !previous || entry.accuracy > previous.accuracy,
+            maxCombo: !previous || entry.maxCombo > previous.maxCombo
+        };
+
+        const data = this.read();
+        data.entries.push({ ...entry, date: entry.date.toISOString() });
+
+        // 古いものから削除
+        if (data.entries.length > HistoryStore.MAX_ENTRIES) {
+            data.entries.splice(0, data.entries.length - HistoryStore.MAX_ENTRIES);
+        }
+        this.write(data);
+
+        return update;
+    }
+
+    /**
+     * 曲名・難易度ごとの自己ベストを取得
+     */
+    getPersonalBests(): PersonalBest[] {
+        const bests = new Map<string, PersonalBest>();
+
+        for (const entry of this.load()) {
+            const key = `${entry.trackName}/${entry.difficulty}`;
+            const best = bests.get(key);
+
+            if (!best) {
+                bests.set(key, {
+                    trackName: entry.trackName,
+                    difficulty: entry.difficulty,
+                    score: entry.score,
+                    accuracy: entry.accuracy,
+                    maxCombo: entry.maxCombo,
+                    playCount: 1,
+                    lastPlayed: entry.date
+                });
+                continue;
+            }
+
+            best.score = Math.max(best.score, entry.score);
+            best.accuracy = Math.max(best.accuracy, entry.accuracy);
+            best.maxCombo = Math.max(best.maxCombo, entry.maxCombo);
+            best.playCount++;
+            if (entry.date > best.lastPlayed) {
+                best.lastPlayed = entry.date;
+            }
+        }
+
+        return [...bests.values()];
+    }
+
+    /**
+     * 履歴をすべて削除
+     */
+    clear(): void {
+        try {
+            localStorage.removeItem(HistoryStore.STORAGE_KEY);
+        } catch (error) {
+            console.error('❌ 履歴の削除に失敗しました:', error);
+        }
+    }
+
+    /**
+     * localStorageから読み込み（必要ならスキーマを移行）
+     */
+    private read(): StoredHistory {
+        const empty: StoredHistory = { version: HistoryStore.SCHEMA_VERSION, entries: [] };
+
+        try {
+            const raw = localStorage.getItem(HistoryStore.STORAGE_KEY);
+            if (!raw) return empty;
+
+            let data: unknown = JSON.parse(raw);
+            const storedVersion = HistoryStore.getVersion(data);
+
+            if (storedVersion === null || storedVersion > HistoryStore.SCHEMA_VERSION) {
+                console.warn(`⚠️ 未対応の履歴データです（バージョン: ${storedVersion}）`);
+                return empty;
+            }
+            let version = storedVersion;
+
+            // 古いバージョンから順に移行
+            const migrated = version < HistoryStore.SCHEMA_VERSION;
+            while (version < HistoryStore.SCHEMA_VERSION) {
+                const migrate = HistoryStore.MIGRATIONS[version];
+                if (!migrate) {
+                    console.warn(`⚠️ 履歴データを移行できません（バージョン: ${version}）`);
+                    return empty;
+                }
+                const next = migrate(data);
+                data = next;
+                version = next.version;
+                console.log(`🔄 履歴データを移行しました: v${version}`);
+            }
+
+            const history = data as StoredHistory;
+            if (!Array.isArray(history.entries)) {
+                console.warn('⚠️ 履歴データに entries がありません');
+                return empty;
+            }
+
+            if (migrated) {
+                this.write(history);
+            }
+            return history;
+        } catch (error) {
+            console.error('❌ 履歴の読み込みに失敗しました:', error);
+            return empty;
+        }
+    }
+
+    /**
+     * 保存データのスキーマバージョン（{ version } の形でなければnull）
+     */
+    private static getVersion(data: unknown): number | null {
+        if (typeof data !== 'object' || data === null || !('version' in data)) return null;
+        return typeof data.version === 'number' ? data.version : null;
+    }
+
+    /**
+     * localStorageに書き込み
+     */
+    private write(data: StoredHistory): void {
+        try {
+            localStorage.setItem(HistoryStore.STORAGE_KEY, JSON.stringify(data));
+        } catch (error) {
+            console.error('❌ 履歴の保存に失敗しました:', error);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * 曲ごとの音色の選択
+ * プレイヤーが選んだ音色を曲（譜面のタイトル）ごとにlocalStorageへ保存する
+ */
+
+interface StoredInstruments {
+    version: number;
+    tracks: Record<string, string>;     // 曲 → 音色のID
+}
+
+export class InstrumentStore {
+    private static readonly STORAGE_KEY = 'rhythm-synth-game.instruments';
+    private static readonly SCHEMA_VERSION = 1;
+
+    /**
+     * ランダム生成の譜面に使うキー
+     */
+    static readonly RANDOM_TRACK = '__random__';
+
+    private tracks: Map<string, string> = new Map();
+
+    constructor() {
+        this.load();
+    }
+
+    /**
+     * 曲に選ばれている音色のID（未選択なら undefined）
+     */
+    get(track: string): string | undefined {
+        return this.tracks.get(track);
+    }
+
+    /**
+     * 曲の音色を保存
+     */
+    set(track: string, patchId: string): void {
+        this.tracks.set(track, patchId);
+        this.save();
+    }
+
+    /**
+     * localStorageから読み込み
+     */
+    private load(): void {
+        try {
+            const raw = localStorage.getItem(InstrumentStore.STORAGE_KEY);
+            if (!raw) return;
+
+            const data = JSON.parse(raw) as StoredInstruments;
+            if (data?.version !== InstrumentStore.SCHEMA_VERSION) {
+                console.warn(`⚠️ 未対応の音色設定です（バージョン: ${data?.version}）`);
+                return;
+            }
+
+            for (const [track, patchId] of Object.entries(data.tracks ?? {})) {
+                if (typeof patchId === 'string') {
+                    this.tracks.set(track, patchId);
+                }
+            }
+        } catch (error) {
+            console.error('❌ 音色設定の読み込みに失敗しました:', error);
+        }
+    }
+
+    /**
+     * localStorageに書き込み
+     */
+    private save(): void {
+        const data: StoredInstruments = {
+            version: InstrumentStore.SCHEMA_VERSION,
+            tracks: Object.fromEntries(this.tracks)
+        };
+
+        try {
+            localStorage.setItem(InstrumentStore.STORAGE_KEY, JSON.stringify(data));
+        } catch (error) {
+            console.error('❌ 音色設定の保存に失敗しました:', error);
+        }
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * MIDIファイルエクスポーター
+ * 録音した演奏をStandard MIDI File（フォーマット0）としてダウンロード
+ */
+
+import type { JudgmentType, MIDIExportOptions, RecordedNote } from '../types';
+import { frequencyToMidi, getAudibleNotes } from '../types';
+import { downloadBlob } from './download';
+
+// 書き出すイベント（同じティックではノートオフを先に並べる）
+interface MIDIEvent {
+    tick: number;
+    order: number;              // 0: ノートオフ, 1: マーカー, 2: ノートオン
+    data: number[];
+}
+
+export class MIDIExporter {
+    private static readonly TICKS_PER_BEAT = 480;
+
+    // 判定ごとのチャンネル（0-indexed）
+    private static readonly JUDGMENT_CHANNELS: Record<JudgmentType, number> = {
+        perfect: 0,
+        good: 1,
+        bad: 2,
+        miss: 3
+    };
+
+    /**
+     * 録音データをMIDIファイルとしてダウンロード
+     */
+    exportToMIDI(
+        recording: RecordedNote[],
+        filename: string = 'my-performance.mid',
+        options: MIDIExportOptions = {}
+    ): void {
+        if (getAudibleNotes(recording).length === 0) {
+            console.warn('録音データがありません');
+            return;
+        }
+
+        const bytes = this.createMIDI(recording, options);
+        downloadBlob(new Blob([bytes], { type: 'audio/midi' }), filename);
+    }
+
+    /**
+     * 録音データからMIDIファイルのバイト列を生成（見逃した音符の記録は書き出さない）
+     */
+    createMIDI(allNotes: RecordedNote[], options: MIDIExportOptions = {}): Uint8Array<ArrayBuffer> {
+        const recording = getAudibleNotes(allNotes);
+        const bpm = options.bpm ?? 120;
+        const judgments = options.judgments ?? 'none';
+        const ticksPerMs = MIDIExporter.TICKS_PER_BEAT * bpm / 60000;
+
+        const firstTimestamp = Math.min(...recording.map((note) => note.timestamp));
+        const events: MIDIEvent[] = [];
+
+        for (const note of recording) {
+            const noteNumber = Math.max(0, Math.min(127, frequencyToMidi(note.frequency)));
+            const velocity = Math.max(1, Math.min(127, Math.round(note.effects.volume * 127)));
+            const channel = judgments === 'channels' ? MIDIExporter.JUDGMENT_CHANNELS[note.judgment] : 0;
+
+            const start = Math.round((note.timestamp - firstTimestamp) * ticksPerMs);
+            const end = Math.max(start + 1, Math.round((note.timestamp - firstTimestamp + note.duration * 1000) * ticksPerMs));
+
+            events.push({ tick: start, order: 2, data: [0x90 | channel, noteNumber, velocity] });
+            events.push({ tick: end, order: 0, data: [0x80 | channel, noteNumber, 0] });
+
+            if (judgments === 'markers') {
+                events.push({ tick: start, order: 1, data: this.metaEvent(0x06, this.encodeText(note.judgment.toUpperCase())) });
+            }
+        }
+
+        events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+        // トラックの先頭: トラック名・テンポ
+        const track: number[] = [];
+        track.push(0, ...this.metaEvent(0x03, this.encodeText(options.trackName ?? 'Rhythm Synth Performance')));
+        const microsecondsPerBeat = Math.round(60000000 / bpm);
+        track.push(0, ...this.metaEvent(0x51, [
+            (microsecondsPerBeat >> 16) & 0xff,
+            (microsecondsPerBeat >> 8) & 0xff,
+            microsecondsPerBeat & 0xff
+        ]));
+
+        let lastTick = 0;
+        for (const event of events) {
+            track.push(...this.varInt(event.tick - lastTick), ...event.data);
+            lastTick = event.tick;
+        }
+        track.push(0, ...this.metaEvent(0x2f, []));   // トラック終端
+
+        // ヘッダーチャンク + トラックチャンク
+        return new Uint8Array([
+            ...this.encodeText('MThd'), ...this.uint32(6),
+            ...this.uint16(0), ...this.uint16(1), ...this.uint16(MIDIExporter.TICKS_PER_BEAT),
+            ...this.encodeText('MTrk'), ...this.uint32(track.length),
+            ...track
+        ]);
+    }
+
+    /**
+     * メタイベント（FF type length data）
+     */
+    private metaEvent(type: number, data: number[]): number[] {
+        return [0xff, type, ...this.varInt(data.length), ...data];
+    }
+
+    /**
+     * 可変長数値（7ビットずつ、最上位ビットが継続フラグ）
+     */
+    private varInt(value: number): number[] {
+        const bytes = [value & 0x7f];
+        while ((value >>= 7) > 0) {
+            bytes.unshift((value & 0x7f) | 0x80);
+        }
+        return bytes;
+    }
+
+    private uint16(value: number): number[] {
+        return [(value >> 8) & 0xff, value & 0xff];
+    }
+
+    private uint32(value: number): number[] {
+        return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+    }
+
+    private encodeText(text: string): number[] {
+        return [...new TextEncoder().encode(text)];
+    }
+}
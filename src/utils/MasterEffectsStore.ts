@@ -0,0 +1,108 @@
+/**
+ * マスターエフェクトの設定
+ * エフェクト設定画面で決めたWet/Dryなどの値をlocalStorageに保存する
+ */
+
+import type { MasterEffectsSettings } from '../types';
+import { DEFAULT_MASTER_EFFECTS } from '../types';
+
+export class MasterEffectsStore {
+    private static readonly STORAGE_KEY = 'rhythm-synth-game.masterEffects';
+    private static readonly SCHEMA_VERSION = 1;
+
+    private settings: MasterEffectsSettings = DEFAULT_MASTER_EFFECTS;
+
+    constructor() {
+        this.load();
+    }
+
+    /**
+     * 現在の設定を取得
+     */
+    get(): MasterEffectsSettings {
+        return structuredClone(this.settings);
+    }
+
+    /**
+     * 設定を更新して保存（範囲内に丸める）
+     */
+    set(settings: MasterEffectsSettings): MasterEffectsSettings {
+        this.settings = MasterEffectsStore.clamp(settings);
+        this.save();
+        return this.get();
+    }
+
+    /**
+     * 初期設定に戻す
+     */
+    reset(): MasterEffectsSettings {
+        return this.set(DEFAULT_MASTER_EFFECTS);
+    }
+
+    /**
+     * 各値を設定できる範囲に収める（不正な値は初期値）
+     */
+    static clamp(settings: MasterEffectsSettings): MasterEffectsSettings {
+        const defaults = DEFAULT_MASTER_EFFECTS;
+        const range = (value: unknown, min: number, max: number, fallback: number): number => {
+            const n = Number(value);
+            return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+        };
+
+        return {
+            dry: range(settings?.dry, 0, 1, defaults.dry),
+            reverb: {
+                wet: range(settings?.reverb?.wet, 0, 1, defaults.reverb.wet),
+                decay: range(settings?.reverb?.decay, 0.1, 6, defaults.reverb.decay)
+            },
+            delay: {
+                wet: range(settings?.delay?.wet, 0, 1, defaults.delay.wet),
+                time: range(settings?.delay?.time, 0.01, 2, defaults.delay.time),
+                feedback: range(settings?.delay?.feedback, 0, 0.9, defaults.delay.feedback)
+            },
+            chorus: {
+                wet: range(settings?.chorus?.wet, 0, 1, defaults.chorus.wet),
+                rate: range(settings?.chorus?.rate, 0.05, 8, defaults.chorus.rate),
+                depth: range(settings?.chorus?.depth, 0, 10, defaults.chorus.depth)
+            },
+            compressor: {
+                threshold: range(settings?.compressor?.threshold, -60, 0, defaults.compressor.threshold),
+                ratio: range(settings?.compressor?.ratio, 1, 20, defaults.compressor.ratio)
+            }
+        };
+    }
+
+    /**
+     * localStorageから読み込み
+     */
+    private load(): void {
+        try {
+            const raw = localStorage.getItem(MasterEffectsStore.STORAGE_KEY);
+            if (!raw) return;
+
+            const data = JSON.parse(raw);
+            if (data?.version !== MasterEffectsStore.SCHEMA_VERSION) {
+                console.warn(`⚠️ 未対応のエフェクト設定です（バージョン: ${data?.version}）`);
+                return;
+            }
+
+            this.settings = MasterEffectsStore.clamp(data.settings);
+        } catch (error) {
+            console.error('❌ エフェクト設定の読み込みに失敗しました:', error);
+        }
+    }
+
+    /**
+     * localStorageに書き込み
+     */
+    private save(): void {
+        try {
+            localStorage.setItem(MasterEffectsStore.STORAGE_KEY, JSON.stringify({
+                version: MasterEffectsStore.SCHEMA_VERSION,
+                settings: this.settings
+            }));
+        } catch (error) {
+            console.error('❌ エフェクト設定の保存に失敗しました:', error);
+        }
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * シード付き乱数生成器（mulberry32）
+ * 同じシードからは常に同じ乱数列が得られる
+ */
+
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * 0以上1未満の乱数
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * 0以上max未満の整数
+     */
+    nextInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    /**
+     * 新しいシードをランダムに作成
+     */
+    static createSeed(): number {
+        return Math.floor(Math.random() * 4294967296);
+    }
+
+    /**
+     * 文字列からシードを作成
+     * 数字ならそのまま、それ以外（例: '2026-10-19'）はハッシュ値を使う
+     */
+    static parseSeed(value: string): number {
+        const trimmed = value.trim();
+        if (/^\d+$/.test(trimmed)) {
+            return Number(trimmed) >>> 0;
+        }
+
+        // FNV-1a ハッシュ
+        let hash = 0x811C9DC5;
+        for (let i = 0; i < trimmed.length; i++) {
+            hash ^= trimmed.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { WAVExporter } from './WAVExporter';
+
+/**
+ * バイト列の一部をASCII文字列として読む
+ */
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+describe('WAVExporter.encodeWAV', () => {
+    it('16bit PCMのRIFFヘッダー', () => {
+        const left = new Float32Array([0, 0.5, -0.5]);
+        const right = new Float32Array([1, -1, 0]);
+        const bytes = WAVExporter.encodeWAV([left, right], 44100, 16);
+        const view = new DataView(bytes.buffer);
+
+        expect(bytes.length).toBe(44 + 3 * 2 * 2);
+        expect(readString(bytes, 0, 4)).toBe('RIFF');
+        expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+        expect(readString(bytes, 8, 4)).toBe('WAVE');
+        expect(readString(bytes, 12, 4)).toBe('fmt ');
+        expect(view.getUint32(16, true)).toBe(16);
+        expect(view.getUint16(20, true)).toBe(1);           // PCM
+        expect(view.getUint16(22, true)).toBe(2);           // チャンネル数
+        expect(view.getUint32(24, true)).toBe(44100);
+        expect(view.getUint32(28, true)).toBe(44100 * 2 * 2);   // バイトレート
+        expect(view.getUint16(32, true)).toBe(4);           // ブロックアライン
+        expect(view.getUint16(34, true)).toBe(16);
+        expect(readString(bytes, 36, 4)).toBe('data');
+        expect(view.getUint32(40, true)).toBe(3 * 2 * 2);
+    });
+
+    it('16bitのサンプルはチャンネルを交互に並べ、範囲外は丸める', () => {
+        const left = new Float32Array([0, 1, -1, 2, -2]);
+        const right = new Float32Array([0.5, -0.5, 0, 0, 0]);
+        const view = new DataView(WAVExporter.encodeWAV([left, right], 8000, 16).buffer);
+        const sample = (frame: number, channel: number) => view.getInt16(44 + (frame * 2 + channel) * 2, true);
+
+        expect(sample(0, 0)).toBe(0);
+        expect(sample(0, 1)).toBe(Math.trunc(0.5 * 0x7fff));
+        expect(sample(1, 0)).toBe(0x7fff);
+        expect(sample(1, 1)).toBe(-0x4000);
+        expect(sample(2, 0)).toBe(-0x8000);
+        expect(sample(3, 0)).toBe(0x7fff);      // 2.0 → 1.0
+        expect(sample(4, 0)).toBe(-0x8000);     // -2.0 → -1.0
+    });
+
+    it('24bit PCMは3バイトのリトルエンディアンで、範囲外は丸める', () => {
+        const samples = new Float32Array([1, -1, 0.5, 3, -3, 0]);
+        const bytes = WAVExporter.encodeWAV([samples], 48000, 24);
+        const view = new DataView(bytes.buffer);
+        const sample = (i: number) => {
+            const value = bytes[44 + i * 3] | (bytes[45 + i * 3] << 8) | (bytes[46 + i * 3] << 16);
+            return (value << 8) >> 8;   // 符号拡張
+        };
+
+        expect(view.getUint16(34, true)).toBe(24);
+        expect(view.getUint16(32, true)).toBe(3);
+        expect(view.getUint32(40, true)).toBe(6 * 3);
+        expect(sample(0)).toBe(0x7fffff);
+        expect(sample(1)).toBe(-0x800000);
+        expect(sample(2)).toBe(Math.round(0.5 * 0x7fffff));
+        expect(sample(3)).toBe(0x7fffff);
+        expect(sample(4)).toBe(-0x800000);
+        expect(sample(5)).toBe(0);
+    });
+
+    it('24bitでdataが奇数バイトなら、末尾にパディングを足してRIFFのサイズに含める', () => {
+        const bytes = WAVExporter.encodeWAV([new Float32Array([0.1, 0.2, 0.3, 0.4, -1])], 44100, 24);
+        const view = new DataView(bytes.buffer);
+
+        expect(view.getUint32(40, true)).toBe(15);          // dataのサイズはパディングを含まない
+        expect(bytes.length).toBe(44 + 15 + 1);
+        expect(bytes.length % 2).toBe(0);
+        expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+        expect(bytes[bytes.length - 1]).toBe(0);
+        expect(bytes[bytes.length - 2]).toBe(0x80);         // -1.0 の最上位バイト
+    });
+
+    it('24bitでもdataが偶数バイトならパディングしない', () => {
+        const bytes = WAVExporter.encodeWAV([new Float32Array(2), new Float32Array(2)], 44100, 24);
+        expect(bytes.length).toBe(44 + 12);
+    });
+
+    it('32bitはIEEE floatで、fmtの拡張とfactチャンクを持つ（値は丸めない）', () => {
+        const samples = new Float32Array([0.25, -1.5]);
+        const bytes = WAVExporter.encodeWAV([samples], 96000, 32);
+        const view = new DataView(bytes.buffer);
+
+        expect(view.getUint32(16, true)).toBe(18);
+        expect(view.getUint16(20, true)).toBe(3);           // IEEE float
+        expect(view.getUint16(34, true)).toBe(32);
+        expect(view.getUint16(36, true)).toBe(0);           // cbSize
+        expect(readString(bytes, 38, 4)).toBe('fact');
+        expect(view.getUint32(42, true)).toBe(4);
+        expect(view.getUint32(46, true)).toBe(2);           // フレーム数
+        expect(readString(bytes, 50, 4)).toBe('data');
+        expect(view.getUint32(54, true)).toBe(8);
+        expect(view.getFloat32(58, true)).toBe(0.25);
+        expect(view.getFloat32(62, true)).toBe(-1.5);
+        expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    });
+
+    it('サンプルがなくてもヘッダーだけのWAVになる', () => {
+        const bytes = WAVExporter.encodeWAV([new Float32Array(0)], 44100);
+        expect(bytes.length).toBe(44);
+        expect(new DataView(bytes.buffer).getUint32(40, true)).toBe(0);
+    });
+});
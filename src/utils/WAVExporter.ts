@@ -1,50 +1,144 @@
 /**
  * WAVファイルエクスポーター
- * 録音した演奏をWAVファイルとしてダウンロード
+ * 録音した演奏（とプレイ中のBGM）をWAVファイルとしてダウンロード
  */
 
-import type { RecordedNote } from '../types';
+import type { RecordedNote, WAVBitDepth, WAVExportOptions } from '../types';
+import { DEFAULT_MASTER_EFFECTS, getAudibleNotes, getInstrumentPatch } from '../types';
+import { Instrument, MasterEffects } from '../audio';
+import { downloadBlob } from './download';
 
 export class WAVExporter {
-    private sampleRate: number = 44100;
-    private bitDepth: number = 16;
+    static readonly SAMPLE_RATES = [22050, 44100, 48000, 96000];
+
+    private static readonly DEFAULT_SAMPLE_RATE = 44100;
+    private static readonly MAX_PAN = 0.8;          // 端のレーンの定位（真横にはしない）
+    private static readonly NORMALIZE_PEAK = 0.891; // ノーマライズ後のピーク（-1dBFS）
+    private static readonly TAIL_MARGIN = 0.1;      // 余韻の後に足す無音（秒）
 
     /**
      * 録音データをWAVファイルとしてダウンロード
      */
-    async exportToWAV(recording: RecordedNote[], filename: string = 'my-performance.wav'): Promise<void> {
-        if (recording.length === 0) {
+    async exportToWAV(
+        recording: RecordedNote[],
+        filename: string = 'my-performance.wav',
+        options: WAVExportOptions = {}
+    ): Promise<void> {
+        if (getAudibleNotes(recording).length === 0) {
             console.warn('録音データがありません');
             return;
         }
 
         // AudioBufferを生成
-        const audioBuffer = await this.createAudioBuffer(recording);
-        
+        const audioBuffer = await this.render(recording, options);
+        const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+
         // WAVデータを生成
-        const wavBlob = this.audioBufferToWav(audioBuffer);
-        
+        const bytes = WAVExporter.encodeWAV(channels, audioBuffer.sampleRate, options.bitDepth ?? 16);
+
         // ダウンロード
-        this.download(wavBlob, filename);
+        downloadBlob(new Blob([bytes], { type: 'audio/wav' }), filename);
     }
 
     /**
-     * 録音データからAudioBufferを生成
+     * 演奏とBGMを別々のWAVファイル（ステム）としてダウンロード
+     * 同じ時刻から同じ長さで書き出すので、DAWで先頭を揃えて並べればミックスと同じになる
      */
-    private async createAudioBuffer(recording: RecordedNote[]): Promise<AudioBuffer> {
+    async exportStems(
+        recording: RecordedNote[],
+        filename: string = 'my-performance.wav',
+        options: WAVExportOptions = {}
+    ): Promise<void> {
+        const base = filename.replace(/\.wav$/i, '');
+        await this.exportToWAV(recording, `${base}-performance.wav`, { ...options, stem: 'performance' });
+        if (options.bgm) {
+            await this.exportToWAV(recording, `${base}-bgm.wav`, { ...options, stem: 'bgm' });
+        }
+    }
+
+    /**
+     * 録音データを書き出す音声にレンダリング（WAV以外の形式でも使う）
+     */
+    async render(recording: RecordedNote[], options: WAVExportOptions = {}): Promise<AudioBuffer> {
+        const audioBuffer = await this.createAudioBuffer(recording, options);
+        if (options.normalize) {
+            WAVExporter.normalize(Array.from(
+                { length: audioBuffer.numberOfChannels },
+                (_, i) => audioBuffer.getChannelData(i)
+            ));
+        }
+        return audioBuffer;
+    }
+
+    /**
+     * 録音データからAudioBufferを生成（長さは最後の音の余韻、またはBGMの終わりまで）
+     * ステムでも同じ長さになるよう、書き出さない方も含めて範囲を決める
+     * 見逃した音符の記録は鳴らさず、範囲にも含めない
+     */
+    private async createAudioBuffer(allNotes: RecordedNote[], options: WAVExportOptions): Promise<AudioBuffer> {
+        const recording = getAudibleNotes(allNotes);
+        const sampleRate = options.sampleRate ?? WAVExporter.DEFAULT_SAMPLE_RATE;
+        const effects = options.effects ?? DEFAULT_MASTER_EFFECTS;
+        const stereo = options.stereo ?? true;
+        const stem = options.stem ?? 'mix';
+        const segments = options.bgm?.segments ?? [];
+        const laneCount = options.laneCount ?? Math.max(0, ...recording.map((note) => note.lane + 1));
+
+        const firstTimestamp = Math.min(
+            ...recording.map((note) => note.timestamp),
+            ...segments.map((segment) => segment.timestamp)
+        );
+        const lastEnd = Math.max(
+            ...recording.map((note) => (note.timestamp - firstTimestamp) / 1000 + note.duration + MasterEffects.getTailTime(effects)),
+            ...segments.map((segment) => (segment.timestamp - firstTimestamp) / 1000 + segment.duration)
+        );
+        const length = lastEnd + WAVExporter.TAIL_MARGIN;
+
         // オーディオコンテキストを一時的に作成
         const offlineContext = new OfflineAudioContext(
-            1, // モノラル
-            this.sampleRate * 10, // 最大10秒
-            this.sampleRate
+            stereo ? 2 : 1,
+            Math.ceil(sampleRate * length),
+            sampleRate
         );
 
-        const firstTimestamp = recording[0].timestamp;
-        
-        // 各音符を生成
+        // BGM（ポーズで区切られた区間ごとに、演奏と同じ時刻に並べる）
+        if (options.bgm && stem !== 'performance') {
+            const bgmGain = offlineContext.createGain();
+            bgmGain.gain.value = options.bgm.volume * (options.bgmVolume ?? 1);
+            bgmGain.connect(offlineContext.destination);
+
+            for (const segment of segments) {
+                const source = offlineContext.createBufferSource();
+                source.buffer = options.bgm.buffer;
+                source.loop = options.bgm.loop;
+                source.connect(bgmGain);
+                source.start((segment.timestamp - firstTimestamp) / 1000, segment.offset, segment.duration);
+            }
+        }
+
+        if (stem === 'bgm') {
+            return offlineContext.startRendering();
+        }
+
+        const performanceGain = offlineContext.createGain();
+        performanceGain.gain.value = (options.masterVolume ?? 1) * (options.performanceVolume ?? 1);
+        performanceGain.connect(offlineContext.destination);
+
+        const masterEffects = new MasterEffects(offlineContext, performanceGain, effects);
+        const instruments = new Map<string, Instrument>();
+
+        // 各音符を演奏時と同じ音色で生成
         for (const note of recording) {
+            const patch = getInstrumentPatch(note.patch);
+            let instrument = instruments.get(patch.id);
+            if (!instrument) {
+                instrument = new Instrument(offlineContext, masterEffects, patch);
+                instruments.set(patch.id, instrument);
+            }
+
             const relativeTime = (note.timestamp - firstTimestamp) / 1000;
-            this.scheduleNote(offlineContext, note, relativeTime);
+            const pan = stereo ? WAVExporter.getLanePan(note.lane, laneCount) : 0;
+            instrument.playNote(note.frequency, note.effects, relativeTime, note.duration, pan);
         }
 
         // レンダリング
@@ -53,59 +147,55 @@ export class WAVExporter {
     }
 
     /**
-     * 音符をスケジューリング
+     * レーンの定位（左のレーンほど左、レーン不明なら中央）
      */
-    private scheduleNote(
-        context: OfflineAudioContext,
-        note: RecordedNote,
-        startTime: number
-    ): void {
-        const oscillator = context.createOscillator();
-        const gainNode = context.createGain();
-        const filter = context.createBiquadFilter();
-
-        oscillator.type = note.effects.waveform;
-        oscillator.frequency.setValueAtTime(note.frequency, startTime);
-        oscillator.detune.setValueAtTime(note.effects.detune, startTime);
-
-        // エンベロープ
-        const attack = 0.01;
-        const release = 0.2;
-        gainNode.gain.setValueAtTime(0, startTime);
-        gainNode.gain.linearRampToValueAtTime(note.effects.volume, startTime + attack);
-        gainNode.gain.setValueAtTime(
-            note.effects.volume * 0.7,
-            startTime + note.duration - release
-        );
-        gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + note.duration);
-
-        filter.type = 'lowpass';
-        filter.frequency.setValueAtTime(note.effects.filterFreq, startTime);
+    static getLanePan(lane: number | undefined, laneCount: number): number {
+        if (lane === undefined || laneCount <= 1) return 0;
+        return WAVExporter.MAX_PAN * (lane / (laneCount - 1) * 2 - 1);
+    }
 
-        oscillator.connect(filter);
-        filter.connect(gainNode);
-        gainNode.connect(context.destination);
+    /**
+     * 全チャンネルの最大ピークが -1dBFS になるよう音量を揃える（無音ならそのまま）
+     */
+    static normalize(channels: Float32Array[]): void {
+        let peak = 0;
+        for (const data of channels) {
+            for (let i = 0; i < data.length; i++) {
+                peak = Math.max(peak, Math.abs(data[i]));
+            }
+        }
+        if (peak === 0) return;
 
-        oscillator.start(startTime);
-        oscillator.stop(startTime + note.duration);
+        const gain = WAVExporter.NORMALIZE_PEAK / peak;
+        for (const data of channels) {
+            for (let i = 0; i < data.length; i++) {
+                data[i] *= gain;
+            }
+        }
     }
 
     /**
-     * AudioBufferをWAVファイル（Blob）に変換
+     * チャンネルごとのサンプル（-1.0 ~ 1.0）をWAVファイルのバイト列に変換
+     * 16 / 24bit は整数PCM、32bit は浮動小数点（IEEE float）
+     * RIFFのチャンクは偶数バイトに揃えるため、dataが奇数バイト（24bitのとき）なら末尾に0を1バイト足す
      */
-    private audioBufferToWav(buffer: AudioBuffer): Blob {
-        const numberOfChannels = buffer.numberOfChannels;
-        const length = buffer.length * numberOfChannels * 2;
-        const arrayBuffer = new ArrayBuffer(44 + length);
+    static encodeWAV(channels: Float32Array[], sampleRate: number, bitDepth: WAVBitDepth = 16): Uint8Array<ArrayBuffer> {
+        const numberOfChannels = channels.length;
+        const frames = channels[0]?.length ?? 0;
+        const bytesPerSample = bitDepth / 8;
+        const isFloat = bitDepth === 32;
+        const dataLength = frames * numberOfChannels * bytesPerSample;
+
+        // 浮動小数点は fmt の拡張サイズ（cbSize）と fact チャンクが必要
+        const fmtLength = isFloat ? 18 : 16;
+        const factLength = isFloat ? 12 : 0;
+        const headerLength = 12 + (8 + fmtLength) + factLength + 8;
+        const padLength = dataLength % 2;
+
+        const arrayBuffer = new ArrayBuffer(headerLength + dataLength + padLength);
         const view = new DataView(arrayBuffer);
-        const channels: Float32Array[] = [];
         let pos = 0;
 
-        // チャンネルデータを取得
-        for (let i = 0; i < numberOfChannels; i++) {
-            channels.push(buffer.getChannelData(i));
-        }
-
         // WAVヘッダーを書き込み
         const writeString = (str: string) => {
             for (let i = 0; i < str.length; i++) {
@@ -125,57 +215,54 @@ export class WAVExporter {
 
         // RIFFチャンク
         writeString('RIFF');
-        setUint32(36 + length);
+        setUint32(arrayBuffer.byteLength - 8); // パディングを含む
         writeString('WAVE');
 
         // fmtチャンク
         writeString('fmt ');
-        setUint32(16); // fmtチャンクのサイズ
-        setUint16(1); // フォーマット（1 = PCM）
+        setUint32(fmtLength); // fmtチャンクのサイズ
+        setUint16(isFloat ? 3 : 1); // フォーマット（1 = PCM, 3 = IEEE float）
         setUint16(numberOfChannels);
-        setUint32(this.sampleRate);
-        setUint32(this.sampleRate * numberOfChannels * (this.bitDepth / 8)); // バイトレート
-        setUint16(numberOfChannels * (this.bitDepth / 8)); // ブロックアライン
-        setUint16(this.bitDepth);
+        setUint32(sampleRate);
+        setUint32(sampleRate * numberOfChannels * bytesPerSample); // バイトレート
+        setUint16(numberOfChannels * bytesPerSample); // ブロックアライン
+        setUint16(bitDepth);
+        if (isFloat) {
+            setUint16(0); // 拡張部分のサイズ
+
+            // factチャンク（1チャンネルあたりのサンプル数）
+            writeString('fact');
+            setUint32(4);
+            setUint32(frames);
+        }
 
         // dataチャンク
         writeString('data');
-        setUint32(length);
+        setUint32(dataLength); // パディングは含まない
 
-        // PCMデータを書き込み
-        for (let i = 0; i < buffer.length; i++) {
+        // サンプルを書き込み（チャンネルを交互に並べる）
+        for (let i = 0; i < frames; i++) {
             for (let channel = 0; channel < numberOfChannels; channel++) {
-                let sample = channels[channel][i];
-                
-                // -1.0 ~ 1.0 を 16bit整数に変換
-                sample = Math.max(-1, Math.min(1, sample));
-                sample = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-                view.setInt16(pos, sample, true);
-                pos += 2;
+                const sample = channels[channel][i];
+
+                if (isFloat) {
+                    view.setFloat32(pos, sample, true);
+                } else if (bitDepth === 24) {
+                    // -1.0 ~ 1.0 を 24bit整数に変換（リトルエンディアンで3バイト）
+                    const clamped = Math.max(-1, Math.min(1, sample));
+                    const value = Math.round(clamped < 0 ? clamped * 0x800000 : clamped * 0x7fffff);
+                    view.setUint8(pos, value & 0xff);
+                    view.setUint8(pos + 1, (value >> 8) & 0xff);
+                    view.setUint8(pos + 2, (value >> 16) & 0xff);
+                } else {
+                    // -1.0 ~ 1.0 を 16bit整数に変換
+                    const clamped = Math.max(-1, Math.min(1, sample));
+                    view.setInt16(pos, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+                }
+                pos += bytesPerSample;
             }
         }
 
-        return new Blob([arrayBuffer], { type: 'audio/wav' });
-    }
-
-    /**
-     * Blobをダウンロード
-     */
-    private download(blob: Blob, filename: string): void {
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        link.style.display = 'none';
-        
-        document.body.appendChild(link);
-        link.click();
-        
-        // クリーンアップ
-        setTimeout(() => {
-            document.body.removeChild(link);
-            URL.revokeObjectURL(url);
-        }, 100);
+        return new Uint8Array(arrayBuffer);
     }
 }
-
@@ -3,4 +3,11 @@
  */
 
 export * from './WAVExporter';
-
+export * from './MIDIExporter';
+export * from './SeededRandom';
+export * from './download';
+export * from './HistoryStore';
+export * from './InstrumentStore';
+export * from './MasterEffectsStore';
+export * from './CompressedAudioExporter';
+export * from './validation';
@@ -0,0 +1,17 @@
+/**
+ * 読み込んだJSONの検証に使う型ガード
+ */
+
+/**
+ * プレーンなオブジェクトかどうか
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 有限の数値かどうか
+ */
+export function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}